@@ -0,0 +1,165 @@
+/*
+ * Copyright (C) 2016 - present Juergen Zimmermann, Hochschule Karlsruhe
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with this program.  If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import { afterAll, beforeAll, describe, test } from '@jest/globals';
+import axios, { type AxiosInstance, type AxiosResponse } from 'axios';
+import {
+    host,
+    httpsAgent,
+    port,
+    shutdownServer,
+    startServer,
+} from '../testserver.js';
+import { type FilmDTO } from '../../src/film/rest/filmDTO.entity.js';
+import { HttpStatus } from '@nestjs/common';
+import { loginRest } from '../login.js';
+
+// -----------------------------------------------------------------------------
+// T e s t d a t e n
+// -----------------------------------------------------------------------------
+const zuLoeschendesFilm: FilmDTO = {
+    rating: 2,
+    filmstart: '2022-02-28',
+    dauer: 95,
+    sprache: 'Deutsch',
+    direktor: 'Tom Alder',
+    genres: ['HORROR'],
+    titel: {
+        titel: 'Titeldelete',
+        originaltitel: 'Originaltiteldelete',
+        serienname: 'Seriennamedelete',
+    },
+    schauspielers: [
+        {
+            vorname: 'Dora',
+            nachname: 'Delete',
+            geschlecht: 'weiblich',
+            email: 'dora.delete@gmail.com',
+            telefonnummer: '0133623399',
+            rolle: 'Hauptrolle',
+            reihenfolge: 1,
+        },
+    ],
+};
+const idNichtVorhanden = '999999';
+
+// -----------------------------------------------------------------------------
+// T e s t s
+// -----------------------------------------------------------------------------
+// Test-Suite
+// eslint-disable-next-line max-lines-per-function
+describe('DELETE /rest/:id', () => {
+    let client: AxiosInstance;
+    const headers: Record<string, string> = {
+        'Content-Type': 'application/json', // eslint-disable-line @typescript-eslint/naming-convention
+    };
+
+    // Testserver starten und dabei mit der DB verbinden
+    beforeAll(async () => {
+        await startServer();
+        const baseURL = `https://${host}:${port}`;
+        client = axios.create({
+            baseURL,
+            httpsAgent,
+            validateStatus: (status) => status < 500, // eslint-disable-line @typescript-eslint/no-magic-numbers
+        });
+    });
+
+    afterAll(async () => {
+        await shutdownServer();
+    });
+
+    test('Vorhandenen Film loeschen', async () => {
+        // given
+        const token = await loginRest(client);
+        headers.Authorization = `Bearer ${token}`;
+        const responsePost: AxiosResponse<string> = await client.post(
+            '/rest',
+            zuLoeschendesFilm,
+            { headers },
+        );
+        const { location } = responsePost.headers as { location: string };
+        const id = location.slice(location.lastIndexOf('/') + 1);
+        const url = `/rest/${id}`;
+
+        // when
+        const response: AxiosResponse<string> = await client.delete(url, {
+            headers,
+        });
+
+        // then
+        const { status, data } = response;
+
+        expect(status).toBe(HttpStatus.NO_CONTENT);
+        expect(data).toBe('');
+
+        const responseGet = await client.get(url);
+
+        expect(responseGet.status).toBe(HttpStatus.NOT_FOUND);
+    });
+
+    test('Nicht-vorhandenen Film loeschen', async () => {
+        // given
+        const url = `/rest/${idNichtVorhanden}`;
+        const token = await loginRest(client);
+        headers.Authorization = `Bearer ${token}`;
+
+        // when
+        const response: AxiosResponse<string> = await client.delete(url, {
+            headers,
+        });
+
+        // then
+        const { status, data } = response;
+
+        expect(status).toBe(HttpStatus.NO_CONTENT);
+        expect(data).toBe('');
+    });
+
+    test('Film loeschen, aber ohne Token', async () => {
+        // given
+        const url = `/rest/${idNichtVorhanden}`;
+
+        // when
+        const response: AxiosResponse<Record<string, any>> =
+            await client.delete(url);
+
+        // then
+        const { status, data } = response;
+
+        expect(status).toBe(HttpStatus.FORBIDDEN);
+        expect(data.statusCode).toBe(HttpStatus.FORBIDDEN);
+    });
+
+    test('Film loeschen, aber mit falschem Token', async () => {
+        // given
+        const url = `/rest/${idNichtVorhanden}`;
+        const token = 'FALSCH';
+
+        // when
+        const response: AxiosResponse<Record<string, any>> =
+            await client.delete(url, {
+                headers: { Authorization: `Bearer ${token}` }, // eslint-disable-line @typescript-eslint/naming-convention
+            });
+
+        // then
+        const { status, data } = response;
+
+        expect(status).toBe(HttpStatus.FORBIDDEN);
+        expect(data.statusCode).toBe(HttpStatus.FORBIDDEN);
+    });
+});
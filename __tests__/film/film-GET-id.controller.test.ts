@@ -45,6 +45,7 @@ import {
 import { type ErrorResponse } from './error-response.js';
 import { type FilmModel } from '../../src/film/rest/film-get.controller.js';
 import { HttpStatus } from '@nestjs/common';
+import { loginRest } from '../login.js';
 
 // -----------------------------------------------------------------------------
 // T e s t d a t e n
@@ -52,11 +53,13 @@ import { HttpStatus } from '@nestjs/common';
 const idVorhanden = '1';
 const idNichtVorhanden = '999999';
 const idVorhandenETag = '1';
+const usernameKunde = 'adriana.alpha';
 
 // -----------------------------------------------------------------------------
 // T e s t s
 // -----------------------------------------------------------------------------
 // Test-Suite
+/* eslint-disable no-underscore-dangle */
 // eslint-disable-next-line max-lines-per-function
 describe('GET /rest/:id', () => {
     let client: AxiosInstance;
@@ -89,7 +92,6 @@ describe('GET /rest/:id', () => {
         expect(status).toBe(HttpStatus.OK);
         expect(headers['content-type']).toMatch(/json/iu);
 
-        // eslint-disable-next-line no-underscore-dangle
         const selfLink = data._links.self.href;
 
         // eslint-disable-next-line security-node/non-literal-reg-expr
@@ -130,4 +132,126 @@ describe('GET /rest/:id', () => {
         expect(status).toBe(HttpStatus.NOT_MODIFIED);
         expect(data).toBe('');
     });
+
+    test('Film mit eingebetteten Schauspielern und ETag ohne Schauspieler', async () => {
+        // given
+        const url = `/${idVorhandenETag}`;
+        const params = { embed: 'schauspielers' };
+
+        // when
+        const response: AxiosResponse<FilmModel> = await client.get(url, {
+            params,
+            headers: { 'If-None-Match': '"0"' }, // eslint-disable-line @typescript-eslint/naming-convention
+        });
+
+        // then
+        const { status, headers, data } = response;
+
+        expect(status).toBe(HttpStatus.OK);
+        expect(headers.etag).toBe('"0-schauspielers"');
+        expect(headers.vary).toMatch(/Authorization/u);
+        expect(data._embedded?.schauspielers).toBeDefined();
+    });
+
+    test('Film mit eingebetteten Schauspielern', async () => {
+        // given
+        const url = `/${idVorhanden}`;
+        const params = { embed: 'schauspielers' };
+
+        // when
+        const response: AxiosResponse<FilmModel> = await client.get(url, {
+            params,
+        });
+
+        // then
+        const { status, data } = response;
+
+        expect(status).toBe(HttpStatus.OK);
+        expect(data._embedded?.schauspielers).not.toHaveLength(0);
+        expect(data._links.schauspielers.href).toMatch(/\/1\/schauspielers$/u);
+    });
+
+    test('Film mit ungueltigem Wert fuer embed', async () => {
+        // given
+        const url = `/${idVorhanden}`;
+        const params = { embed: 'gibtsnicht' };
+
+        // when
+        const response: AxiosResponse<ErrorResponse> = await client.get(url, {
+            params,
+        });
+
+        // then
+        const { status } = response;
+
+        expect(status).toBe(HttpStatus.BAD_REQUEST);
+    });
+
+    test('Film mit mehrfachem Query-Parameter embed', async () => {
+        // given
+        const url = `/${idVorhanden}?embed=schauspielers&embed=schauspielers`;
+
+        // when
+        const response: AxiosResponse<ErrorResponse> = await client.get(url);
+
+        // then
+        const { status } = response;
+
+        expect(status).toBe(HttpStatus.BAD_REQUEST);
+    });
+
+    test('Film ohne Token: keine Links fuer update und remove', async () => {
+        // given
+        const url = `/${idVorhanden}`;
+
+        // when
+        const response: AxiosResponse<FilmModel> = await client.get(url);
+
+        // then
+        const { status, data } = response;
+
+        expect(status).toBe(HttpStatus.OK);
+        expect(data._links.update).toBeUndefined();
+        expect(data._links.remove).toBeUndefined();
+        expect(data._embedded).toBeUndefined();
+    });
+
+    test('Film mit Token als admin: Links fuer update und remove', async () => {
+        // given
+        const url = `/${idVorhanden}`;
+        const token = await loginRest(client);
+        const headers = { Authorization: `Bearer ${token}` }; // eslint-disable-line @typescript-eslint/naming-convention
+
+        // when
+        const response: AxiosResponse<FilmModel> = await client.get(url, {
+            headers,
+        });
+
+        // then
+        const { status, data } = response;
+
+        expect(status).toBe(HttpStatus.OK);
+        expect(data._links.update?.href).toBe(data._links.self.href);
+        expect(data._links.remove?.href).toBe(data._links.self.href);
+    });
+
+    test('Film mit Token als Kunde: keine Links fuer update und remove', async () => {
+        // given
+        const url = `/${idVorhanden}`;
+        const token = await loginRest(client, usernameKunde);
+        const headers = { Authorization: `Bearer ${token}` }; // eslint-disable-line @typescript-eslint/naming-convention
+
+        // when
+        const response: AxiosResponse<FilmModel> = await client.get(url, {
+            headers,
+        });
+
+        // then
+        const { status, data } = response;
+
+        expect(status).toBe(HttpStatus.OK);
+        expect(data._links.update).toBeUndefined();
+        expect(data._links.remove).toBeUndefined();
+    });
 });
+/* eslint-enable no-underscore-dangle */
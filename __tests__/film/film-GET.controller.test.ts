@@ -1,4 +1,4 @@
-/* eslint-disable no-underscore-dangle */
+/* eslint-disable max-lines, no-underscore-dangle */
 /*
  * Copyright (C) 2016 - present Juergen Zimmermann, Hochschule Karlsruhe
  *
@@ -16,6 +16,10 @@
  * along with this program.  If not, see <https://www.gnu.org/licenses/>.
  */
 
+import {
+    type FilmFieldsModel,
+    type FilmenModel,
+} from '../../src/film/rest/film-get.controller.js';
 import { afterAll, beforeAll, describe, test } from '@jest/globals';
 import axios, { type AxiosInstance, type AxiosResponse } from 'axios';
 import {
@@ -26,7 +30,6 @@ import {
     startServer,
 } from '../testserver.js';
 import { type ErrorResponse } from './error-response.js';
-import { type FilmenModel } from '../../src/film/rest/film-get.controller.js';
 import { HttpStatus } from '@nestjs/common';
 
 // -----------------------------------------------------------------------------
@@ -36,12 +39,27 @@ const titelVorhanden = 'a';
 const titelNichtVorhanden = 'xx';
 const genreVorhanden = 'action';
 const genreNichtVorhanden = 'supernature';
+const ratingMinVorhanden = '1';
+const ratingMinDezimal = '1.5';
+const filmstartUngueltig = '2. Februar 2022';
+const schauspielerVorhanden = 'lph';
+const ratingMaxVorhanden = 5;
+const qVorhanden = 'alpha cameron';
+const qNichtVorhanden = 'xyzxyz';
+const fieldsVorhanden = 'titel,rating,filmstart';
+const fieldNichtVorhanden = 'preis';
+const facetsVorhanden = 'genres,sprache,rating,filmstart';
+const facetNichtVorhanden = 'dauer';
+const ratingFilter = 4;
+const filterVorhanden = `rating=ge=${ratingFilter};(sprache==Englisch,sprache==Deutsch);titel.titel=like=*lph*`;
+const filterFeldNichtVorhanden = 'preis';
+const filterSyntaxfehler = 'rating=ge=4;(sprache==Englisch';
 
 // -----------------------------------------------------------------------------
 // T e s t s
 // -----------------------------------------------------------------------------
 // Test-Suite
-// eslint-disable-next-line max-lines-per-function
+// eslint-disable-next-line max-lines-per-function, max-statements
 describe('GET /rest', () => {
     let baseURL: string;
     let client: AxiosInstance;
@@ -83,6 +101,79 @@ describe('GET /rest', () => {
             });
     });
 
+    test('Erste Seite mit 1 Film', async () => {
+        // given
+        const params = { page: '0', size: '1' };
+
+        // when
+        const response: AxiosResponse<FilmenModel> = await client.get('/', {
+            params,
+        });
+
+        // then
+        const { status, data } = response;
+
+        expect(status).toBe(HttpStatus.OK);
+
+        const { filmen } = data._embedded;
+        const { first, prev } = data._links;
+        const { page } = data;
+
+        expect(filmen.length).toBeLessThanOrEqual(1);
+        expect(page.size).toBe(1);
+        expect(page.number).toBe(0);
+        expect(page.totalPages).toBe(page.totalElements);
+        expect(first.href).toMatch(/page=0&size=1$/u);
+        expect(prev).toBeUndefined();
+    });
+
+    test('Seite mit negativer Seitennummer', async () => {
+        // given
+        const params = { page: '-1', size: '1' };
+
+        // when
+        const response: AxiosResponse<ErrorResponse> = await client.get('/', {
+            params,
+        });
+
+        // then
+        const { status } = response;
+
+        expect(status).toBe(HttpStatus.BAD_REQUEST);
+    });
+
+    test('Seite mit Groesse als Dezimalzahl', async () => {
+        // given
+        const params = { size: '1.5' };
+
+        // when
+        const response: AxiosResponse<ErrorResponse> = await client.get('/', {
+            params,
+        });
+
+        // then
+        const { status } = response;
+
+        expect(status).toBe(HttpStatus.BAD_REQUEST);
+    });
+
+    test('Seite mit wiederholter Groesse', async () => {
+        // given
+        const params = new URLSearchParams();
+        params.append('size', '1');
+        params.append('size', '2');
+
+        // when
+        const response: AxiosResponse<ErrorResponse> = await client.get('/', {
+            params,
+        });
+
+        // then
+        const { status } = response;
+
+        expect(status).toBe(HttpStatus.BAD_REQUEST);
+    });
+
     test('Filme mit einem Teil-Titel suchen', async () => {
         // given
         const params = { titel: titelVorhanden };
@@ -199,5 +290,507 @@ describe('GET /rest', () => {
         expect(error).toBe('Not Found');
         expect(statusCode).toBe(HttpStatus.NOT_FOUND);
     });
+
+    test('Keine Filme zu einer Relation als Property', async () => {
+        // given
+        const params = { genres: 'ACTION' };
+
+        // when
+        const response: AxiosResponse<ErrorResponse> = await client.get('/', {
+            params,
+        });
+
+        // then
+        const { status, data } = response;
+
+        expect(status).toBe(HttpStatus.NOT_FOUND);
+        expect(data.statusCode).toBe(HttpStatus.NOT_FOUND);
+    });
+
+    test('Keine Filme zu einer Methode als Property', async () => {
+        // given
+        const params = { toString: 'x' };
+
+        // when
+        const response: AxiosResponse<ErrorResponse> = await client.get('/', {
+            params,
+        });
+
+        // then
+        const { status, data } = response;
+
+        expect(status).toBe(HttpStatus.NOT_FOUND);
+        expect(data.statusCode).toBe(HttpStatus.NOT_FOUND);
+    });
+
+    test('Filme mit mind. einem von mehreren Genres', async () => {
+        // given
+        const params = new URLSearchParams();
+        params.append('genre', genreVorhanden);
+        params.append('genre', genreNichtVorhanden);
+        params.append('genreMatch', 'any');
+
+        // when
+        const response: AxiosResponse<FilmenModel> = await client.get('/', {
+            params,
+        });
+
+        // then
+        const { status, data } = response;
+
+        expect(status).toBe(HttpStatus.OK);
+
+        data._embedded.filmen
+            .map((film) => film.genres)
+            .forEach((genres) =>
+                expect(genres).toContain(genreVorhanden.toUpperCase()),
+            );
+    });
+
+    test('Keine Filme mit allen von mehreren Genres', async () => {
+        // given
+        const params = new URLSearchParams();
+        params.append('genre', genreVorhanden);
+        params.append('genre', genreNichtVorhanden);
+        params.append('genreMatch', 'all');
+
+        // when
+        const response: AxiosResponse<ErrorResponse> = await client.get('/', {
+            params,
+        });
+
+        // then
+        const { status } = response;
+
+        expect(status).toBe(HttpStatus.NOT_FOUND);
+    });
+
+    test('Filme mit einem Schauspieler als Teilstring im Namen', async () => {
+        // given
+        const params = { schauspieler: schauspielerVorhanden };
+
+        // when
+        const response: AxiosResponse<FilmenModel> = await client.get('/', {
+            params,
+        });
+
+        // then
+        const { status, data } = response;
+
+        expect(status).toBe(HttpStatus.OK);
+
+        const { filmen } = data._embedded;
+        const selfLinks = filmen.map((film) => film._links.self.href);
+
+        expect(filmen).not.toHaveLength(0);
+        expect(new Set(selfLinks).size).toBe(selfLinks.length);
+    });
+
+    test('Filme mit einem Rating in einem Bereich', async () => {
+        // given
+        const params = {
+            ratingMin: ratingMinVorhanden,
+            ratingMax: String(ratingMaxVorhanden),
+        };
+
+        // when
+        const response: AxiosResponse<FilmenModel> = await client.get('/', {
+            params,
+        });
+
+        // then
+        const { status, data } = response;
+
+        expect(status).toBe(HttpStatus.OK);
+
+        data._embedded.filmen
+            .map((film) => Number(film.rating))
+            .forEach((rating) => {
+                expect(rating).toBeGreaterThanOrEqual(
+                    Number(ratingMinVorhanden),
+                );
+                expect(rating).toBeLessThanOrEqual(ratingMaxVorhanden);
+            });
+    });
+
+    test('Filme mit einer ungueltigen Mindestdauer', async () => {
+        // given
+        const params = { dauerMin: 'abc' };
+
+        // when
+        const response: AxiosResponse<ErrorResponse> = await client.get('/', {
+            params,
+        });
+
+        // then
+        const { status } = response;
+
+        expect(status).toBe(HttpStatus.BAD_REQUEST);
+    });
+
+    test('Filme mit einem Mindestrating als Dezimalzahl', async () => {
+        // given
+        const params = { ratingMin: ratingMinDezimal };
+
+        // when
+        const response: AxiosResponse<ErrorResponse> = await client.get('/', {
+            params,
+        });
+
+        // then
+        const { status } = response;
+
+        expect(status).toBe(HttpStatus.BAD_REQUEST);
+    });
+
+    test('Filme mit einem leeren Mindestrating', async () => {
+        // given
+        const params = { ratingMin: '' };
+
+        // when
+        const response: AxiosResponse<ErrorResponse> = await client.get('/', {
+            params,
+        });
+
+        // then
+        const { status } = response;
+
+        expect(status).toBe(HttpStatus.BAD_REQUEST);
+    });
+
+    test('Filme mit einem ungueltigen Filmstart', async () => {
+        // given
+        const params = { filmstartVon: filmstartUngueltig };
+
+        // when
+        const response: AxiosResponse<ErrorResponse> = await client.get('/', {
+            params,
+        });
+
+        // then
+        const { status } = response;
+
+        expect(status).toBe(HttpStatus.BAD_REQUEST);
+    });
+
+    test('Filme absteigend nach Rating sortiert', async () => {
+        // given
+        const params = { sort: 'rating,desc' };
+
+        // when
+        const response: AxiosResponse<FilmenModel> = await client.get('/', {
+            params,
+        });
+
+        // then
+        const { status, data } = response;
+
+        expect(status).toBe(HttpStatus.OK);
+
+        const ratings = data._embedded.filmen.map((film) =>
+            Number(film.rating),
+        );
+
+        expect(ratings).toStrictEqual([...ratings].sort((a, b) => b - a));
+    });
+
+    test('Filme nach einer unbekannten Property sortieren', async () => {
+        // given
+        const params = { sort: 'foo,asc' };
+
+        // when
+        const response: AxiosResponse<ErrorResponse> = await client.get('/', {
+            params,
+        });
+
+        // then
+        const { status, data } = response;
+
+        expect(status).toBe(HttpStatus.BAD_REQUEST);
+        expect(data.message).toEqual(expect.stringContaining('foo'));
+    });
+
+    test('Volltextsuche ueber Titel und Direktor', async () => {
+        // given
+        const params = { q: qVorhanden };
+
+        // when
+        const response: AxiosResponse<FilmenModel> = await client.get('/', {
+            params,
+        });
+
+        // then
+        const { status, data } = response;
+
+        expect(status).toBe(HttpStatus.OK);
+
+        const { filmen } = data._embedded;
+
+        expect(filmen).not.toHaveLength(0);
+
+        filmen.forEach((film) => {
+            const text = [film.titel.titel, film.direktor]
+                .join(' ')
+                .toLowerCase();
+
+            expect(text).toEqual(expect.stringContaining('cameron'));
+        });
+    });
+
+    test('Keine Filme bei der Volltextsuche', async () => {
+        // given
+        const params = { q: qNichtVorhanden };
+
+        // when
+        const response: AxiosResponse<ErrorResponse> = await client.get('/', {
+            params,
+        });
+
+        // then
+        const { status } = response;
+
+        expect(status).toBe(HttpStatus.NOT_FOUND);
+    });
+
+    test('Volltextsuche mit mehrfachem Suchbegriff', async () => {
+        // given
+        const url = '/?q=alpha&q=beta';
+
+        // when
+        const response: AxiosResponse<ErrorResponse> = await client.get(url);
+
+        // then
+        const { status } = response;
+
+        expect(status).toBe(HttpStatus.BAD_REQUEST);
+    });
+
+    test('Volltextsuche mit leerem Suchbegriff', async () => {
+        // given
+        const params = { q: ' ' };
+
+        // when
+        const response: AxiosResponse<ErrorResponse> = await client.get('/', {
+            params,
+        });
+
+        // then
+        const { status, data } = response;
+
+        expect(status).toBe(HttpStatus.BAD_REQUEST);
+        expect(data.message).toEqual(expect.stringContaining('q'));
+    });
+
+    test('Filme nur mit ausgewaehlten Feldern', async () => {
+        // given
+        const params = { fields: fieldsVorhanden, sort: 'dauer' };
+
+        // when
+        const response: AxiosResponse<FilmenModel<FilmFieldsModel>> =
+            await client.get('/', { params });
+
+        // then
+        const { status, data } = response;
+
+        expect(status).toBe(HttpStatus.OK);
+
+        const { filmen } = data._embedded;
+
+        expect(filmen).not.toHaveLength(0);
+
+        filmen.forEach((film) => {
+            expect(Object.keys(film).sort()).toStrictEqual(
+                ['_links', 'filmstart', 'rating', 'titel'].sort(),
+            );
+            expect(film.titel).toStrictEqual({ titel: film.titel?.titel });
+            expect(typeof film.titel?.titel).toBe('string');
+            expect(film._links.self.href).toBeDefined();
+        });
+    });
+
+    test('Filme mit einem unbekannten Feld', async () => {
+        // given
+        const params = { fields: `titel,${fieldNichtVorhanden}` };
+
+        // when
+        const response: AxiosResponse<ErrorResponse> = await client.get('/', {
+            params,
+        });
+
+        // then
+        const { status, data } = response;
+
+        expect(status).toBe(HttpStatus.BAD_REQUEST);
+        expect(data.message).toEqual(
+            expect.stringContaining(fieldNichtVorhanden),
+        );
+    });
+
+    test('Filme mit Facetten', async () => {
+        // given
+        const params = { facets: facetsVorhanden };
+
+        // when
+        const response: AxiosResponse<FilmenModel> = await client.get('/', {
+            params,
+        });
+
+        // then
+        const { status, data } = response;
+
+        expect(status).toBe(HttpStatus.OK);
+
+        const { facets } = data;
+
+        expect(facets).toBeDefined();
+        expect(Object.keys(facets!).sort()).toStrictEqual(
+            facetsVorhanden.split(',').sort(),
+        );
+        expect(facets!.sprache).toContainEqual({
+            wert: 'ENGLISCH',
+            anzahl: 1,
+        });
+        expect(facets!.rating).toContainEqual({ wert: 4, anzahl: 1 });
+        expect(facets!.filmstart).toContainEqual({ wert: 2020, anzahl: 1 });
+        expect(facets!.genres).not.toHaveLength(0);
+    });
+
+    test('Filme ohne Facetten', async () => {
+        // given
+
+        // when
+        const response: AxiosResponse<FilmenModel> = await client.get('/');
+
+        // then
+        const { status, data } = response;
+
+        expect(status).toBe(HttpStatus.OK);
+        expect(data.facets).toBeUndefined();
+    });
+
+    test('Filme mit einer unbekannten Facette', async () => {
+        // given
+        const params = { facets: `sprache,${facetNichtVorhanden}` };
+
+        // when
+        const response: AxiosResponse<ErrorResponse> = await client.get('/', {
+            params,
+        });
+
+        // then
+        const { status, data } = response;
+
+        expect(status).toBe(HttpStatus.BAD_REQUEST);
+        expect(data.message).toEqual(
+            expect.stringContaining(facetNichtVorhanden),
+        );
+    });
+
+    test('Filme mit einem Filter', async () => {
+        // given
+        const params = { filter: filterVorhanden };
+
+        // when
+        const response: AxiosResponse<FilmenModel> = await client.get('/', {
+            params,
+        });
+
+        // then
+        const { status, data } = response;
+
+        expect(status).toBe(HttpStatus.OK);
+
+        const { filmen } = data._embedded;
+
+        expect(filmen).not.toHaveLength(0);
+
+        filmen.forEach((film) => {
+            expect(film.rating).toBeGreaterThanOrEqual(ratingFilter);
+            expect(['ENGLISCH', 'DEUTSCH']).toContain(
+                String(film.sprache).toUpperCase(),
+            );
+            expect(film.titel.titel.toLowerCase()).toEqual(
+                expect.stringContaining('lph'),
+            );
+        });
+    });
+
+    test('Filter mit einem unbekannten Feld', async () => {
+        // given
+        const params = { filter: `${filterFeldNichtVorhanden}=ge=1` };
+
+        // when
+        const response: AxiosResponse<ErrorResponse> = await client.get('/', {
+            params,
+        });
+
+        // then
+        const { status, data } = response;
+
+        expect(status).toBe(HttpStatus.BAD_REQUEST);
+        expect(data.message).toEqual(expect.stringContaining('Position 1'));
+        expect(data.message).toEqual(
+            expect.stringContaining(filterFeldNichtVorhanden),
+        );
+    });
+
+    test('Filter mit einem Syntaxfehler', async () => {
+        // given
+        const params = { filter: filterSyntaxfehler };
+
+        // when
+        const response: AxiosResponse<ErrorResponse> = await client.get('/', {
+            params,
+        });
+
+        // then
+        const { status, data } = response;
+
+        expect(status).toBe(HttpStatus.BAD_REQUEST);
+        expect(data.message).toEqual(
+            expect.stringContaining(
+                `Position ${filterSyntaxfehler.length + 1}`,
+            ),
+        );
+    });
+
+    test('Filme mit mehrfachem Query-Parameter fields', async () => {
+        // given
+        const url = '/?fields=name,titel&fields=name,titel';
+
+        // when
+        const response: AxiosResponse<ErrorResponse> = await client.get(url);
+
+        // then
+        const { status } = response;
+
+        expect(status).toBe(HttpStatus.BAD_REQUEST);
+    });
+
+    test('Filme mit mehrfachem Query-Parameter facets', async () => {
+        // given
+        const url = '/?facets=rating&facets=rating';
+
+        // when
+        const response: AxiosResponse<ErrorResponse> = await client.get(url);
+
+        // then
+        const { status } = response;
+
+        expect(status).toBe(HttpStatus.BAD_REQUEST);
+    });
+
+    test('Filme mit mehrfachem Query-Parameter filter', async () => {
+        // given
+        const url = '/?filter=rating%3Dge%3D1&filter=rating%3Dge%3D1';
+
+        // when
+        const response: AxiosResponse<ErrorResponse> = await client.get(url);
+
+        // then
+        const { status } = response;
+
+        expect(status).toBe(HttpStatus.BAD_REQUEST);
+    });
 });
-/* eslint-enable no-underscore-dangle */
+/* eslint-enable max-lines, no-underscore-dangle */
@@ -0,0 +1,326 @@
+/* eslint-disable max-lines */
+/*
+ * Copyright (C) 2016 - present Juergen Zimmermann, Hochschule Karlsruhe
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with this program.  If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import { afterAll, beforeAll, describe, test } from '@jest/globals';
+import axios, { type AxiosInstance, type AxiosResponse } from 'axios';
+import {
+    host,
+    httpsAgent,
+    port,
+    shutdownServer,
+    startServer,
+} from '../testserver.js';
+import { type ErrorResponse } from './error-response.js';
+import { type FilmModel } from '../../src/film/rest/film-get.controller.js';
+import { HttpStatus } from '@nestjs/common';
+import { loginRest } from '../login.js';
+
+// -----------------------------------------------------------------------------
+// T e s t d a t e n
+// -----------------------------------------------------------------------------
+const mergePatchJson = 'application/merge-patch+json';
+const jsonPatchJson = 'application/json-patch+json';
+
+const idVorhanden = '1';
+const idNichtVorhanden = '999999';
+
+const mergePatch = { rating: 2, genres: ['ACTION', 'HORROR'] };
+
+const jsonPatch = [
+    { op: 'replace', path: '/titel/serienname', value: 'Neuer Serienname' },
+    {
+        op: 'add',
+        path: '/schauspielers/-',
+        value: {
+            vorname: 'Paula',
+            nachname: 'Patch',
+            geschlecht: 'weiblich',
+            email: 'paula.patch@gmail.com',
+            telefonnummer: '0133623311',
+        },
+    },
+];
+
+const jsonPatchUngueltig = [{ op: 'remove', path: '/gibtsnicht' }];
+
+const neueRolle = 'Neue Rolle';
+const replaceRolle = {
+    op: 'replace',
+    path: '/schauspielers/0/rolle',
+    value: neueRolle,
+};
+
+const removeSchauspieler = { op: 'remove', path: '/schauspielers/1' };
+
+const mergePatchInvalid = { rating: 99, dauer: -1 };
+
+// -----------------------------------------------------------------------------
+// T e s t s
+// -----------------------------------------------------------------------------
+// Test-Suite
+/* eslint-disable no-underscore-dangle */
+// eslint-disable-next-line max-lines-per-function
+describe('PATCH /rest/:id', () => {
+    let client: AxiosInstance;
+    const headers: Record<string, string> = {};
+
+    // Testserver starten und dabei mit der DB verbinden
+    beforeAll(async () => {
+        await startServer();
+        const baseURL = `https://${host}:${port}`;
+        client = axios.create({
+            baseURL,
+            httpsAgent,
+            validateStatus: (status) => status < 500, // eslint-disable-line @typescript-eslint/no-magic-numbers
+        });
+    });
+
+    afterAll(async () => {
+        await shutdownServer();
+    });
+
+    test('Vorhandenen Film mit JSON Merge Patch aendern', async () => {
+        // given
+        const url = `/rest/${idVorhanden}`;
+        const token = await loginRest(client);
+        headers.Authorization = `Bearer ${token}`;
+        headers['Content-Type'] = mergePatchJson; // eslint-disable-line sonarjs/no-duplicate-string
+        headers['If-Match'] = '"0"';
+
+        // when
+        const response: AxiosResponse<string> = await client.patch(
+            url,
+            mergePatch,
+            { headers },
+        );
+
+        // then
+        const { status, data } = response;
+
+        expect(status).toBe(HttpStatus.NO_CONTENT);
+        expect(response.headers.etag).toBe('"1"');
+        expect(data).toBe('');
+
+        const responseGet: AxiosResponse<FilmModel> = await client.get(url);
+
+        expect(responseGet.data.rating).toBe(mergePatch.rating);
+        expect(responseGet.data.genres).toStrictEqual(mergePatch.genres);
+    });
+
+    test('Vorhandenen Film mit JSON Patch aendern', async () => {
+        // given
+        const url = `/rest/${idVorhanden}`;
+        const token = await loginRest(client);
+        headers.Authorization = `Bearer ${token}`;
+        headers['Content-Type'] = jsonPatchJson;
+        headers['If-Match'] = '"1"';
+
+        // when
+        const response: AxiosResponse<string> = await client.patch(
+            url,
+            jsonPatch,
+            { headers },
+        );
+
+        // then
+        const { status, data } = response;
+
+        expect(status).toBe(HttpStatus.NO_CONTENT);
+        expect(response.headers.etag).toBe('"2"');
+        expect(data).toBe('');
+
+        const responseGet: AxiosResponse<FilmModel> = await client.get(url);
+
+        expect(responseGet.data.titel.serienname).toBe('Neuer Serienname');
+    });
+
+    test('JSON Patch mit ungueltigem Pfad', async () => {
+        // given
+        const url = `/rest/${idVorhanden}`;
+        const token = await loginRest(client);
+        headers.Authorization = `Bearer ${token}`;
+        headers['Content-Type'] = jsonPatchJson;
+        headers['If-Match'] = '"2"';
+
+        // when
+        const response: AxiosResponse<ErrorResponse> = await client.patch(
+            url,
+            jsonPatchUngueltig,
+            { headers },
+        );
+
+        // then
+        const { status, data } = response;
+
+        expect(status).toBe(HttpStatus.BAD_REQUEST);
+        expect(data.message).toMatch(/JSON Patch/u);
+    });
+
+    test('JSON Merge Patch mit ungueltigen Werten', async () => {
+        // given
+        const url = `/rest/${idVorhanden}`;
+        const token = await loginRest(client);
+        headers.Authorization = `Bearer ${token}`;
+        headers['Content-Type'] = mergePatchJson;
+        headers['If-Match'] = '"2"';
+        const expectedMsg = [
+            expect.stringMatching(/^rating /u),
+            expect.stringMatching(/^dauer /u),
+        ];
+
+        // when
+        const response: AxiosResponse<Record<string, any>> = await client.patch(
+            url,
+            mergePatchInvalid,
+            { headers },
+        );
+
+        // then
+        const { status, data } = response;
+
+        // derselbe Statuscode wie beim globalen ValidationPipe des Testservers
+        expect(status).toBe(HttpStatus.UNPROCESSABLE_ENTITY);
+
+        // eslint-disable-next-line @typescript-eslint/no-unsafe-assignment
+        const messages: string[] = data.message;
+
+        expect(messages).toHaveLength(expectedMsg.length);
+        expect(messages).toEqual(expect.arrayContaining(expectedMsg));
+    });
+
+    test('Patch mit falschem Content-Type', async () => {
+        // given
+        const url = `/rest/${idVorhanden}`;
+        const token = await loginRest(client);
+        headers.Authorization = `Bearer ${token}`;
+        headers['Content-Type'] = 'application/json';
+        headers['If-Match'] = '"2"';
+
+        // when
+        const response = await client.patch(url, mergePatch, { headers });
+
+        // then
+        expect(response.status).toBe(HttpStatus.UNSUPPORTED_MEDIA_TYPE);
+    });
+
+    test('Patch ohne Versionsnummer', async () => {
+        // given
+        const url = `/rest/${idVorhanden}`;
+        const token = await loginRest(client);
+        headers.Authorization = `Bearer ${token}`;
+        headers['Content-Type'] = mergePatchJson;
+        delete headers['If-Match'];
+
+        // when
+        const response = await client.patch(url, mergePatch, { headers });
+
+        // then
+        expect(response.status).toBe(HttpStatus.PRECONDITION_REQUIRED);
+    });
+
+    test('Patch mit veralteter Versionsnummer', async () => {
+        // given
+        const url = `/rest/${idVorhanden}`;
+        const token = await loginRest(client);
+        headers.Authorization = `Bearer ${token}`;
+        headers['Content-Type'] = mergePatchJson;
+        headers['If-Match'] = '"0"';
+
+        // when
+        const response = await client.patch(url, mergePatch, { headers });
+
+        // then
+        expect(response.status).toBe(HttpStatus.PRECONDITION_FAILED);
+    });
+
+    test('Nicht-vorhandenen Film patchen', async () => {
+        // given
+        const url = `/rest/${idNichtVorhanden}`;
+        const token = await loginRest(client);
+        headers.Authorization = `Bearer ${token}`;
+        headers['Content-Type'] = mergePatchJson;
+        headers['If-Match'] = '"0"';
+
+        // when
+        const response = await client.patch(url, mergePatch, { headers });
+
+        // then
+        expect(response.status).toBe(HttpStatus.NOT_FOUND);
+    });
+
+    test('Rolle eines Schauspielers mit JSON Patch ersetzen', async () => {
+        // given
+        const url = `/rest/${idVorhanden}`;
+        const token = await loginRest(client);
+        headers.Authorization = `Bearer ${token}`;
+        headers['Content-Type'] = jsonPatchJson;
+        headers['If-Match'] = '"2"';
+
+        // when
+        const response = await client.patch(url, [replaceRolle], {
+            headers,
+        });
+
+        // then
+        expect(response.status).toBe(HttpStatus.NO_CONTENT);
+        expect(response.headers.etag).toBe('"3"');
+
+        const responseGet: AxiosResponse<FilmModel> = await client.get(url, {
+            params: { embed: 'schauspielers' },
+        });
+        const rollen = responseGet.data._embedded?.schauspielers.map(
+            ({ rolle }) => rolle,
+        );
+
+        expect(rollen).toContain(neueRolle);
+    });
+
+    test('Schauspieler mit JSON Patch entfernen', async () => {
+        // given
+        const url = `/rest/${idVorhanden}`;
+        const token = await loginRest(client);
+        headers.Authorization = `Bearer ${token}`;
+        headers['Content-Type'] = jsonPatchJson;
+        headers['If-Match'] = '"3"';
+        const params = { embed: 'schauspielers' };
+        const responseVorher: AxiosResponse<FilmModel> = await client.get(url, {
+            params,
+        });
+        const anzahlVorher =
+            responseVorher.data._embedded!.schauspielers.length;
+
+        // when
+        const response = await client.patch(url, [removeSchauspieler], {
+            headers,
+        });
+
+        // then
+        expect(response.status).toBe(HttpStatus.NO_CONTENT);
+        expect(response.headers.etag).toBe('"4"');
+
+        const responseGet: AxiosResponse<FilmModel> = await client.get(url, {
+            params,
+        });
+
+        expect(responseGet.data._embedded?.schauspielers).toHaveLength(
+            anzahlVorher - 1,
+        );
+    });
+});
+/* eslint-enable no-underscore-dangle */
+/* eslint-enable max-lines */
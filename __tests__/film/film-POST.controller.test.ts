@@ -52,6 +52,8 @@ const neuesFilm: FilmDTO = {
             geschlecht: 'männlich',
             email: 'tomdecruise@gmail.com',
             telefonnummer: '0133623342',
+            rolle: 'Hauptrolle',
+            reihenfolge: 1,
         },
     ],
 };
@@ -73,6 +75,8 @@ const neuesFilmInvalid: Record<string, unknown> = {
             geschlecht: 'männlich',
             email: 'tombeen@gmail.com',
             telefonnummer: '0133663342',
+            rolle: 'Hauptrolle',
+            reihenfolge: 1,
         },
     ],
 };
@@ -95,6 +99,8 @@ const neuesFilmTitelExistiert: FilmDTO = {
             geschlecht: 'männlich',
             email: 'tarara@gmail.com',
             telefonnummer: '0133623242',
+            rolle: 'Hauptrolle',
+            reihenfolge: 1,
         },
     ],
 };
@@ -189,6 +195,30 @@ describe('POST /rest', () => {
         expect(messages).toEqual(expect.arrayContaining(expectedMsg));
     });
 
+    test('Neues Film mit einem unbekannten Genre', async () => {
+        // given
+        const token = await loginRest(client);
+        headers.Authorization = `Bearer ${token}`;
+        const film: FilmDTO = {
+            ...neuesFilm,
+            genres: ['HORRO'],
+            titel: { ...neuesFilm.titel, titel: 'Titelgenre' },
+        };
+
+        // when
+        const response: AxiosResponse<ErrorResponse> = await client.post(
+            '/rest',
+            film,
+            { headers },
+        );
+
+        // then
+        const { status, data } = response;
+
+        expect(status).toBe(HttpStatus.UNPROCESSABLE_ENTITY);
+        expect(data.message).toEqual(expect.stringContaining('HORRO'));
+    });
+
     test('Neues Film, aber der Titel existiert bereits', async () => {
         // given
         const token = await loginRest(client);
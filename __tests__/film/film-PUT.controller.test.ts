@@ -0,0 +1,238 @@
+/*
+ * Copyright (C) 2016 - present Juergen Zimmermann, Hochschule Karlsruhe
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with this program.  If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import { afterAll, beforeAll, describe, test } from '@jest/globals';
+import axios, { type AxiosInstance, type AxiosResponse } from 'axios';
+import {
+    host,
+    httpsAgent,
+    port,
+    shutdownServer,
+    startServer,
+} from '../testserver.js';
+import { type ErrorResponse } from './error-response.js';
+import { type FilmDtoOhneRef } from '../../src/film/rest/filmDTO.entity.js';
+import { HttpStatus } from '@nestjs/common';
+import { loginRest } from '../login.js';
+
+// -----------------------------------------------------------------------------
+// T e s t d a t e n
+// -----------------------------------------------------------------------------
+const geaendertesFilm: FilmDtoOhneRef = {
+    rating: 5,
+    filmstart: '2022-03-03',
+    dauer: 162,
+    sprache: 'Englisch',
+    direktor: 'James Cameron',
+    genres: ['ACTION'],
+};
+const idVorhanden = '1';
+
+const geaendertesFilmIdNichtVorhanden: FilmDtoOhneRef = {
+    rating: 4,
+    filmstart: '2022-02-04',
+    dauer: 120,
+    sprache: 'Deutsch',
+    direktor: 'Tom Alder',
+    genres: ['HORROR'],
+};
+const idNichtVorhanden = '999999';
+
+const geaendertesFilmInvalid: Record<string, unknown> = {
+    rating: -1,
+    filmstart: '12345-123-123',
+    dauer: -1,
+    sprache: 'Englisch',
+    direktor: 'James Cameron',
+};
+
+const veraltesFilm: FilmDtoOhneRef = {
+    rating: 1,
+    filmstart: '2022-02-04',
+    dauer: 90,
+    sprache: 'Deutsch',
+    direktor: 'Tom Alder',
+    genres: ['ROMANCE'],
+};
+
+// -----------------------------------------------------------------------------
+// T e s t s
+// -----------------------------------------------------------------------------
+// Test-Suite
+// eslint-disable-next-line max-lines-per-function
+describe('PUT /rest/:id', () => {
+    let client: AxiosInstance;
+    const headers: Record<string, string> = {
+        'Content-Type': 'application/json', // eslint-disable-line @typescript-eslint/naming-convention
+    };
+
+    // Testserver starten und dabei mit der DB verbinden
+    beforeAll(async () => {
+        await startServer();
+        const baseURL = `https://${host}:${port}`;
+        client = axios.create({
+            baseURL,
+            headers,
+            httpsAgent,
+            validateStatus: (status) => status < 500, // eslint-disable-line @typescript-eslint/no-magic-numbers
+        });
+    });
+
+    afterAll(async () => {
+        await shutdownServer();
+    });
+
+    test('Vorhandenen Film aendern', async () => {
+        // given
+        const url = `/rest/${idVorhanden}`;
+        const token = await loginRest(client);
+        headers.Authorization = `Bearer ${token}`;
+        headers['If-Match'] = '"0"';
+
+        // when
+        const response: AxiosResponse<string> = await client.put(
+            url,
+            geaendertesFilm,
+            { headers },
+        );
+
+        // then
+        const { status, data } = response;
+
+        expect(status).toBe(HttpStatus.NO_CONTENT);
+        expect(response.headers.etag).toBe('"1"');
+        expect(data).toBe('');
+    });
+
+    test('Nicht-vorhandenen Film aendern', async () => {
+        // given
+        const url = `/rest/${idNichtVorhanden}`;
+        const token = await loginRest(client);
+        headers.Authorization = `Bearer ${token}`;
+        headers['If-Match'] = '"0"';
+
+        // when
+        const response: AxiosResponse<string> = await client.put(
+            url,
+            geaendertesFilmIdNichtVorhanden,
+            { headers },
+        );
+
+        // then
+        const { status } = response;
+
+        expect(status).toBe(HttpStatus.NOT_FOUND);
+    });
+
+    test('Vorhandenen Film aendern, aber mit ungueltigen Daten', async () => {
+        // given
+        const url = `/rest/${idVorhanden}`;
+        const token = await loginRest(client);
+        headers.Authorization = `Bearer ${token}`;
+        headers['If-Match'] = '"0"';
+        const expectedMsg = [
+            expect.stringMatching(/^rating /u),
+            expect.stringMatching(/^filmstart /u),
+            expect.stringMatching(/^dauer /u),
+        ];
+
+        // when
+        const response: AxiosResponse<Record<string, any>> = await client.put(
+            url,
+            geaendertesFilmInvalid,
+            { headers },
+        );
+
+        // then
+        const { status, data } = response;
+
+        expect(status).toBe(HttpStatus.UNPROCESSABLE_ENTITY);
+
+        // eslint-disable-next-line @typescript-eslint/no-unsafe-assignment
+        const messages: string[] = data.message;
+
+        expect(messages).toBeDefined();
+        expect(messages).toHaveLength(expectedMsg.length);
+        expect(messages).toEqual(expect.arrayContaining(expectedMsg));
+    });
+
+    test('Vorhandenen Film aendern, aber ohne Versionsnummer', async () => {
+        // given
+        const url = `/rest/${idVorhanden}`;
+        const token = await loginRest(client);
+        headers.Authorization = `Bearer ${token}`;
+        delete headers['If-Match'];
+
+        // when
+        const response: AxiosResponse<string> = await client.put(
+            url,
+            geaendertesFilm,
+            { headers },
+        );
+
+        // then
+        const { status, data } = response;
+
+        expect(status).toBe(HttpStatus.PRECONDITION_REQUIRED);
+        expect(data).toBe('Header "If-Match" fehlt');
+    });
+
+    test('Vorhandenen Film aendern, aber mit alter Versionsnummer', async () => {
+        // given
+        const url = `/rest/${idVorhanden}`;
+        const token = await loginRest(client);
+        headers.Authorization = `Bearer ${token}`;
+        headers['If-Match'] = '"-1"';
+
+        // when
+        const response: AxiosResponse<ErrorResponse> = await client.put(
+            url,
+            veraltesFilm,
+            { headers },
+        );
+
+        // then
+        const { status, data } = response;
+
+        expect(status).toBe(HttpStatus.PRECONDITION_FAILED);
+
+        const { message, statusCode } = data;
+
+        expect(message).toMatch(/Versionsnummer/u);
+        expect(statusCode).toBe(HttpStatus.PRECONDITION_FAILED);
+    });
+
+    test('Vorhandenen Film aendern, aber ohne Token', async () => {
+        // given
+        const url = `/rest/${idVorhanden}`;
+        delete headers.Authorization;
+        headers['If-Match'] = '"0"';
+
+        // when
+        const response: AxiosResponse<Record<string, any>> = await client.put(
+            url,
+            geaendertesFilm,
+            { headers },
+        );
+
+        // then
+        const { status, data } = response;
+
+        expect(status).toBe(HttpStatus.FORBIDDEN);
+        expect(data.statusCode).toBe(HttpStatus.FORBIDDEN);
+    });
+});
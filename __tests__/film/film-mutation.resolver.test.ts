@@ -1,3 +1,4 @@
+/* eslint-disable max-lines */
 /*
  * Copyright (C) 2021 - present Juergen Zimmermann, Hochschule Karlsruhe
  *
@@ -29,6 +30,28 @@ import { type GraphQLResponseBody } from './film-query.resolver.test.js';
 import { HttpStatus } from '@nestjs/common';
 import { loginGraphQL } from '../login.js';
 
+const titelVorhanden = 'Alpha';
+const usernameKunde = 'adriana.alpha';
+const passwordKunde = 'p'; // NOSONAR
+
+// gueltige Werte fuer create, nur der Titel ist variabel
+const createMutation = (titel: string) => `
+    mutation {
+        create(
+            input: {
+                rating: 1,
+                dauer: 90,
+                titel: {
+                    titel: "${titel}",
+                },
+                schauspielers: []
+            }
+        ) {
+            id
+        }
+    }
+`;
+
 // eslint-disable-next-line jest/no-export
 export type GraphQLQuery = Pick<GraphQLRequest, 'query'>;
 
@@ -112,7 +135,7 @@ describe('GraphQL Mutations', () => {
         const { status, headers, data } = response;
 
         expect(status).toBe(HttpStatus.OK);
-        expect(headers['content-type']).toMatch(/json/iu);
+        expect(headers['content-type']).toMatch(/json/iu); // eslint-disable-line sonarjs/no-duplicate-string
         expect(data.data).toBeDefined();
 
         const { create } = data.data!;
@@ -188,11 +211,261 @@ describe('GraphQL Mutations', () => {
 
         expect(error).toBeDefined();
 
-        const { message } = error;
+        const { message, extensions } = error;
         const messages: string[] = message.split(',');
 
         expect(messages).toBeDefined();
         expect(messages).toHaveLength(expectedMsg.length);
         expect(messages).toEqual(expect.arrayContaining(expectedMsg));
+        expect(extensions!.code).toBe('VALIDATION_FAILED');
+
+        const validationErrors = extensions!.validationErrors as {
+            field: string;
+            constraints: Record<string, string>;
+        }[];
+        const fields = validationErrors.map(({ field }) => field);
+
+        expect(fields).toEqual(
+            expect.arrayContaining([
+                'rating',
+                'filmstart',
+                'dauer',
+                'titel.titel',
+            ]),
+        );
+        expect(validationErrors[0]!.constraints).toBeDefined();
+    });
+
+    // -------------------------------------------------------------------------
+    test('Film mit vorhandenem Titel neu anlegen', async () => {
+        // given
+        const token = await loginGraphQL(client);
+        const authorization = { Authorization: `Bearer ${token}` }; // eslint-disable-line @typescript-eslint/naming-convention
+        const body: GraphQLQuery = { query: createMutation(titelVorhanden) };
+
+        // when
+        const response: AxiosResponse<GraphQLResponseBody> = await client.post(
+            graphqlPath,
+            body,
+            { headers: authorization },
+        );
+
+        // then
+        const { status, data } = response;
+
+        expect(status).toBe(HttpStatus.OK);
+        expect(data.data!.create).toBeNull();
+
+        const { errors } = data;
+
+        expect(errors).toHaveLength(1);
+
+        const { message, extensions } = errors![0]!;
+
+        expect(message).toEqual(expect.stringContaining(titelVorhanden));
+        expect(extensions!.code).toBe('CONFLICT');
+    });
+
+    // -------------------------------------------------------------------------
+    test('Film ohne Token neu anlegen', async () => {
+        // given
+        const body: GraphQLQuery = { query: createMutation('Ohne Token') };
+
+        // when
+        const response: AxiosResponse<GraphQLResponseBody> = await client.post(
+            graphqlPath,
+            body,
+        );
+
+        // then
+        const { status, data } = response;
+
+        expect(status).toBe(HttpStatus.OK);
+        expect(data.data!.create).toBeNull();
+
+        const { errors } = data;
+
+        expect(errors).toHaveLength(1);
+        expect(errors![0]!.extensions!.code).toBe('UNAUTHENTICATED');
+    });
+
+    // -------------------------------------------------------------------------
+    test('Film mit der Rolle kunde neu anlegen', async () => {
+        // given
+        const token = await loginGraphQL(client, usernameKunde, passwordKunde);
+        const authorization = { Authorization: `Bearer ${token}` }; // eslint-disable-line @typescript-eslint/naming-convention
+        const body: GraphQLQuery = { query: createMutation('Als Kunde') };
+
+        // when
+        const response: AxiosResponse<GraphQLResponseBody> = await client.post(
+            graphqlPath,
+            body,
+            { headers: authorization },
+        );
+
+        // then
+        const { status, data } = response;
+
+        expect(status).toBe(HttpStatus.OK);
+        expect(data.data!.create).toBeNull();
+
+        const { errors } = data;
+
+        expect(errors).toHaveLength(1);
+        expect(errors![0]!.extensions!.code).toBe('FORBIDDEN');
+    });
+
+    // -------------------------------------------------------------------------
+    test('Film aktualisieren', async () => {
+        // given
+        const token = await loginGraphQL(client);
+        const authorization = { Authorization: `Bearer ${token}` }; // eslint-disable-line @typescript-eslint/naming-convention
+        const body: GraphQLQuery = {
+            query: `
+                mutation {
+                    update(
+                        input: {
+                            id: "1",
+                            version: 0,
+                            rating: 5,
+                            filmstart: "2022-02-02",
+                            dauer: 162,
+                            sprache: "Englisch",
+                            direktor: "James Cameron",
+                            genres: ["ACTION"],
+                        }
+                    ) {
+                        version
+                    }
+                }
+            `,
+        };
+
+        // when
+        const response: AxiosResponse<GraphQLResponseBody> = await client.post(
+            graphqlPath,
+            body,
+            { headers: authorization },
+        );
+
+        // then
+        const { status, headers, data } = response;
+
+        expect(status).toBe(HttpStatus.OK);
+        expect(headers['content-type']).toMatch(/json/iu);
+        expect(data.errors).toBeUndefined();
+
+        const { update } = data.data!;
+
+        // Der Wert der Mutation ist die neue Versionsnummer
+        expect(update.version).toBe(1);
+    });
+
+    // -------------------------------------------------------------------------
+    test('Film mit veralteter Versionsnummer aktualisieren', async () => {
+        // given
+        const token = await loginGraphQL(client);
+        const authorization = { Authorization: `Bearer ${token}` }; // eslint-disable-line @typescript-eslint/naming-convention
+        const body: GraphQLQuery = {
+            query: `
+                mutation {
+                    update(
+                        input: {
+                            id: "1",
+                            version: 0,
+                            rating: 1,
+                            filmstart: "2022-02-02",
+                            dauer: 162,
+                            sprache: "Englisch",
+                            direktor: "James Cameron",
+                        }
+                    ) {
+                        version
+                    }
+                }
+            `,
+        };
+
+        // when
+        const response: AxiosResponse<GraphQLResponseBody> = await client.post(
+            graphqlPath,
+            body,
+            { headers: authorization },
+        );
+
+        // then
+        const { status, data } = response;
+
+        expect(status).toBe(HttpStatus.OK);
+        expect(data.data!.update).toBeNull();
+
+        const { errors } = data;
+
+        expect(errors).toHaveLength(1);
+
+        const [error] = errors!;
+        const { message, extensions } = error;
+
+        expect(message).toMatch(/Versionsnummer/u);
+        expect(extensions?.code).toBe('VERSION_MISMATCH');
+    });
+
+    // -------------------------------------------------------------------------
+    test('Nicht-vorhandenes Film loeschen', async () => {
+        // given
+        const token = await loginGraphQL(client);
+        const authorization = { Authorization: `Bearer ${token}` }; // eslint-disable-line @typescript-eslint/naming-convention
+        const body: GraphQLQuery = {
+            query: `
+                mutation {
+                    delete(id: "999999")
+                }
+            `,
+        };
+
+        // when
+        const response: AxiosResponse<GraphQLResponseBody> = await client.post(
+            graphqlPath,
+            body,
+            { headers: authorization },
+        );
+
+        // then
+        const { status, headers, data } = response;
+
+        expect(status).toBe(HttpStatus.OK);
+        expect(headers['content-type']).toMatch(/json/iu);
+        expect(data.errors).toBeUndefined();
+        expect(data.data!.delete).toBe(false);
+    });
+
+    // -------------------------------------------------------------------------
+    test('Nicht-vorhandenes Film mit globaler ID loeschen', async () => {
+        // given
+        const token = await loginGraphQL(client);
+        const authorization = { Authorization: `Bearer ${token}` }; // eslint-disable-line @typescript-eslint/naming-convention
+        const body: GraphQLQuery = {
+            query: `
+                mutation {
+                    delete(id: "RmlsbTo5OTk5OTk=")
+                }
+            `,
+        };
+
+        // when
+        const response: AxiosResponse<GraphQLResponseBody> = await client.post(
+            graphqlPath,
+            body,
+            { headers: authorization },
+        );
+
+        // then
+        const { status, headers, data } = response;
+
+        expect(status).toBe(HttpStatus.OK);
+        expect(headers['content-type']).toMatch(/json/iu);
+        expect(data.errors).toBeUndefined();
+        expect(data.data!.delete).toBe(false);
     });
 });
+/* eslint-enable max-lines */
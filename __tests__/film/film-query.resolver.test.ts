@@ -1,3 +1,4 @@
+/* eslint-disable max-lines */
 /* eslint-disable @typescript-eslint/no-unsafe-assignment, @typescript-eslint/no-extra-non-null-assertion */
 /*
  * Copyright (C) 2021 - present Juergen Zimmermann, Hochschule Karlsruhe
@@ -16,7 +17,14 @@
  * along with this program.  If not, see <https://www.gnu.org/licenses/>.
  */
 
-import { afterAll, beforeAll, describe, expect, test } from '@jest/globals';
+import {
+    afterAll,
+    beforeAll,
+    describe,
+    expect,
+    jest,
+    test,
+} from '@jest/globals';
 import axios, { type AxiosInstance, type AxiosResponse } from 'axios';
 import {
     host,
@@ -25,15 +33,26 @@ import {
     shutdownServer,
     startServer,
 } from '../testserver.js';
+import { DataSource } from 'typeorm';
 import { type Film } from '../../src/film/entity/film.entity.js';
 import { type GraphQLFormattedError } from 'graphql';
 import { type GraphQLRequest } from '@apollo/server';
 import { HttpStatus } from '@nestjs/common';
+import { createHash } from 'node:crypto';
+import { loginGraphQL } from '../login.js';
+
+interface QueryLimitsExtension {
+    depth: number;
+    cost: number;
+    maxDepth: number;
+    maxCost: number;
+}
 
 // eslint-disable-next-line jest/no-export
 export interface GraphQLResponseBody {
     data?: Record<string, any> | null;
     errors?: readonly [GraphQLFormattedError];
+    extensions?: { queryLimits: QueryLimitsExtension };
 }
 
 type FilmDTO = Omit<
@@ -43,6 +62,19 @@ type FilmDTO = Omit<
     sprache: string;
 };
 
+interface FilmEdgeDTO {
+    cursor: string;
+    node: { id: number };
+}
+
+interface FilmConnectionDTO {
+    edges: FilmEdgeDTO[];
+    pageInfo: {
+        hasPreviousPage: boolean;
+        endCursor: string | null;
+    };
+}
+
 // -----------------------------------------------------------------------------
 // T e s t d a t e n
 // -----------------------------------------------------------------------------
@@ -54,18 +86,74 @@ const teilTitelVorhanden = 'a';
 
 const teilTitelNichtVorhanden = 'abc';
 
+const schauspielerEmailVorhanden = 'alpha@acme.com';
+
+const qVorhanden = 'alpha cameron';
+
+const prefixMitTippfehler = 'Alphx';
+
+const limitVorschlaege = 5;
+
+const ratingMinFilter = 4;
+
+const datumUngueltig = '2024-13-01';
+
+const anzahlConnection = 2;
+
+// Base64 fuer "Film:1"
+const globalIdVorhanden = 'RmlsbTox';
+
+const cursorUngueltig = 'xyz';
+
+// mit allen Feldern der Schauspieler teurer als maxCost in app.yml
+const sizeZuTeuer = 100;
+const sizeNegativ = -1_000_000;
+const anzahlNeueFilme = 3;
+
+// neuer Film mit einem Schauspieler fuer den Test auf N+1-Abfragen
+const createMutationMitSchauspieler = (nr: number) => `
+    mutation {
+        create(
+            input: {
+                rating: 1,
+                dauer: 90,
+                titel: {
+                    titel: "Batch ${nr}",
+                },
+                schauspielers: [
+                    {
+                        vorname: "Batch",
+                        nachname: "Schauspieler ${nr}",
+                        geschlecht: "weiblich",
+                        email: "batch${nr}@acme.com",
+                        telefonnummer: "0721${nr}",
+                    }
+                ]
+            }
+        ) {
+            id
+        }
+    }
+`;
+const depthFilmTitel = 2;
+
+const hashNichtVorhanden = '0'.repeat(64); // eslint-disable-line @typescript-eslint/no-magic-numbers
+
 // -----------------------------------------------------------------------------
 // T e s t s
 // -----------------------------------------------------------------------------
 // Test-Suite
-// eslint-disable-next-line max-lines-per-function
+// eslint-disable-next-line max-lines-per-function, max-statements
 describe('GraphQL Queries', () => {
     let client: AxiosInstance;
+    let dataSource: DataSource;
     const graphqlPath = 'graphql';
 
     // Testserver starten und dabei mit der DB verbinden
     beforeAll(async () => {
-        await startServer();
+        const server = await startServer();
+        // fuer das Zaehlen der SQL-Anweisungen
+        dataSource = server.get(DataSource);
         const baseURL = `https://${host}:${port}/`;
         client = axios.create({
             baseURL,
@@ -154,7 +242,7 @@ describe('GraphQL Queries', () => {
         expect(path).toBeDefined();
         expect(path!![0]).toBe('film');
         expect(extensions).toBeDefined();
-        expect(extensions!.code).toBe('BAD_USER_INPUT');
+        expect(extensions!.code).toBe('NOT_FOUND');
     });
 
     test('Film zu vorhandenem Titel', async () => {
@@ -199,6 +287,107 @@ describe('GraphQL Queries', () => {
         expect(film!.titel.titel).toBe(titelVorhanden);
     });
 
+    test('Filme zu einem vorhandenen Schauspieler', async () => {
+        // given
+        const body: GraphQLRequest = {
+            query: `
+                {
+                    filme(schauspielerEmail: "${schauspielerEmailVorhanden}") {
+                        id
+                    }
+                }
+            `,
+        };
+
+        // when
+        const response: AxiosResponse<GraphQLResponseBody> = await client.post(
+            graphqlPath,
+            body,
+        );
+
+        // then
+        const { status, data } = response;
+
+        expect(status).toBe(HttpStatus.OK);
+        expect(data.errors).toBeUndefined();
+
+        const filmeArray: FilmDTO[] = data.data!.filme;
+        const ids = filmeArray.map((film) => film.id);
+
+        // keine Duplikate durch den Join mit den Schauspielern
+        expect(ids).not.toHaveLength(0);
+        expect(new Set(ids).size).toBe(ids.length);
+    });
+
+    test('Filme mit Volltextsuche', async () => {
+        // given
+        const body: GraphQLRequest = {
+            query: `
+                {
+                    filme(q: "${qVorhanden}") {
+                        direktor
+                    }
+                }
+            `,
+        };
+
+        // when
+        const response: AxiosResponse<GraphQLResponseBody> = await client.post(
+            graphqlPath,
+            body,
+        );
+
+        // then
+        const { status, data } = response;
+
+        expect(status).toBe(HttpStatus.OK);
+        expect(data.errors).toBeUndefined();
+
+        const filmeArray: FilmDTO[] = data.data!.filme;
+
+        expect(filmeArray).not.toHaveLength(0);
+
+        filmeArray
+            .map((film) => film.direktor)
+            .forEach((direktor) =>
+                expect(direktor?.toLowerCase()).toEqual(
+                    expect.stringContaining('cameron'),
+                ),
+            );
+    });
+
+    test('Vorschlaege trotz Tippfehler', async () => {
+        // given
+        const body: GraphQLRequest = {
+            query: `
+                {
+                    suggest(prefix: "${prefixMitTippfehler}", limit: ${limitVorschlaege}) {
+                        filmId
+                        text
+                        feld
+                    }
+                }
+            `,
+        };
+
+        // when
+        const response: AxiosResponse<GraphQLResponseBody> = await client.post(
+            graphqlPath,
+            body,
+        );
+
+        // then
+        const { status, data } = response;
+
+        expect(status).toBe(HttpStatus.OK);
+        expect(data.errors).toBeUndefined();
+
+        const vorschlaege: { text: string }[] = data.data!.suggest;
+
+        expect(vorschlaege.length).toBeLessThanOrEqual(limitVorschlaege);
+        expect(vorschlaege.map(({ text }) => text)).toContain(titelVorhanden);
+    });
+
     test('Film zu vorhandenem Teil-Titel', async () => {
         // given
         const body: GraphQLRequest = {
@@ -280,7 +469,529 @@ describe('GraphQL Queries', () => {
         expect(path).toBeDefined();
         expect(path!![0]).toBe('filme');
         expect(extensions).toBeDefined();
+        expect(extensions!.code).toBe('NOT_FOUND');
+    });
+
+    test('Filme sortiert ohne Sortierrichtung', async () => {
+        // given
+        const body: GraphQLRequest = {
+            query: `
+                {
+                    filme(orderBy: [{ field: rating, direction: null }]) {
+                        rating
+                    }
+                }
+            `,
+        };
+
+        // when
+        const response: AxiosResponse<GraphQLResponseBody> = await client.post(
+            graphqlPath,
+            body,
+        );
+
+        // then
+        const { status, data } = response;
+
+        expect(status).toBe(HttpStatus.OK);
+        expect(data.errors).toBeUndefined();
+
+        const ratings = (data.data!.filme as FilmDTO[]).map(
+            ({ rating }) => rating!,
+        );
+
+        expect(ratings).toStrictEqual([...ratings].sort((a, b) => a - b));
+    });
+
+    test('Filme mit einem Filter', async () => {
+        // given
+        const body: GraphQLRequest = {
+            query: `
+                query ($filter: FilmFilter) {
+                    filme(filter: $filter, orderBy: [{ field: rating, direction: DESC }], page: 0, size: 5) {
+                        rating
+                        sprache
+                        titel {
+                            titel
+                        }
+                    }
+                }
+            `,
+            variables: {
+                filter: {
+                    rating: { gte: ratingMinFilter },
+                    // eslint-disable-next-line @typescript-eslint/naming-convention
+                    OR: [
+                        { sprache: { in: ['englisch', 'deutsch'] } },
+                        { titel: { titel: { contains: teilTitelVorhanden } } },
+                    ],
+                    // eslint-disable-next-line @typescript-eslint/naming-convention
+                    NOT: { genres: { eq: 'horror' } },
+                },
+            },
+        };
+
+        // when
+        const response: AxiosResponse<GraphQLResponseBody> = await client.post(
+            graphqlPath,
+            body,
+        );
+
+        // then
+        const { status, data } = response;
+
+        expect(status).toBe(HttpStatus.OK);
+        expect(data.errors).toBeUndefined();
+
+        const filmeArray: FilmDTO[] = data.data!.filme;
+
+        expect(filmeArray).not.toHaveLength(0);
+
+        filmeArray.forEach((film) =>
+            expect(film.rating).toBeGreaterThanOrEqual(ratingMinFilter),
+        );
+    });
+
+    test('Filme mit der Seitengroesse 0', async () => {
+        // given
+        const body: GraphQLRequest = {
+            query: `
+                {
+                    filme(size: 0) {
+                        version
+                    }
+                }
+            `,
+        };
+
+        // when
+        const response: AxiosResponse<GraphQLResponseBody> = await client.post(
+            graphqlPath,
+            body,
+        );
+
+        // then
+        const { status, data } = response;
+
+        expect(status).toBe(HttpStatus.OK);
+        expect(data.data!.filme).toBeNull();
+
+        const { errors } = data;
+
+        expect(errors).toHaveLength(1);
+
+        const [error] = errors!;
+        const { message, extensions } = error;
+
+        expect(message).toEqual(expect.stringContaining('size'));
+        expect(extensions!.code).toBe('BAD_USER_INPUT');
+    });
+
+    test('Filme mit einem ungueltigen Datum im Filter', async () => {
+        // given
+        const body: GraphQLRequest = {
+            query: `
+                {
+                    filme(filter: { filmstart: { gte: "${datumUngueltig}" } }) {
+                        filmstart
+                    }
+                }
+            `,
+        };
+
+        // when
+        const response: AxiosResponse<GraphQLResponseBody> = await client.post(
+            graphqlPath,
+            body,
+        );
+
+        // then
+        const { status, data } = response;
+
+        expect(status).toBe(HttpStatus.OK);
+        expect(data.data!.filme).toBeNull();
+
+        const { errors } = data;
+
+        expect(errors).toHaveLength(1);
+
+        const [error] = errors!;
+        const { message, extensions } = error;
+
+        expect(message).toEqual(expect.stringContaining(datumUngueltig));
         expect(extensions!.code).toBe('BAD_USER_INPUT');
     });
+
+    test('Filme als Connection mit after', async () => {
+        // given
+        const query = `
+            query ($after: String) {
+                filmeConnection(first: ${anzahlConnection}, after: $after, orderBy: { field: rating, direction: DESC }) {
+                    edges {
+                        cursor
+                        node {
+                            id
+                        }
+                    }
+                    pageInfo {
+                        hasPreviousPage
+                        endCursor
+                    }
+                }
+            }
+        `;
+        const body: GraphQLRequest = { query };
+
+        // when
+        const response: AxiosResponse<GraphQLResponseBody> = await client.post(
+            graphqlPath,
+            body,
+        );
+
+        // then
+        const { status, data } = response;
+
+        expect(status).toBe(HttpStatus.OK);
+        expect(data.errors).toBeUndefined();
+
+        const { edges, pageInfo }: FilmConnectionDTO =
+            data.data!.filmeConnection;
+
+        expect(edges).not.toHaveLength(0);
+        expect(edges.length).toBeLessThanOrEqual(anzahlConnection);
+        expect(pageInfo.hasPreviousPage).toBe(false);
+        expect(pageInfo.endCursor).toBe(edges.at(-1)!.cursor);
+
+        // when: naechste Seite ab dem letzten Cursor
+        const responseAfter: AxiosResponse<GraphQLResponseBody> =
+            await client.post(graphqlPath, {
+                query,
+                variables: { after: pageInfo.endCursor },
+            });
+
+        // then
+        expect(responseAfter.data.errors).toBeUndefined();
+
+        const connectionAfter: FilmConnectionDTO =
+            responseAfter.data.data!.filmeConnection;
+        const ids = edges.map(({ node }) => node.id);
+
+        expect(connectionAfter.pageInfo.hasPreviousPage).toBe(true);
+
+        connectionAfter.edges.forEach(({ node }) =>
+            expect(ids).not.toContain(node.id),
+        );
+    });
+
+    test('Filme als Connection mit ungueltigem Cursor', async () => {
+        // given
+        const body: GraphQLRequest = {
+            query: `
+                {
+                    filmeConnection(after: "${cursorUngueltig}") {
+                        edges {
+                            cursor
+                        }
+                    }
+                }
+            `,
+        };
+
+        // when
+        const response: AxiosResponse<GraphQLResponseBody> = await client.post(
+            graphqlPath,
+            body,
+        );
+
+        // then
+        const { status, data } = response;
+
+        expect(status).toBe(HttpStatus.OK);
+        expect(data.data).toBeNull();
+
+        const { errors } = data;
+
+        expect(errors).toHaveLength(1);
+
+        const [error] = errors!;
+        const { message, extensions } = error;
+
+        expect(message).toEqual(expect.stringContaining(cursorUngueltig));
+        expect(extensions!.code).toBe('BAD_USER_INPUT');
+    });
+
+    test('Film als Node zu vorhandener globaler ID', async () => {
+        // given
+        const body: GraphQLRequest = {
+            query: `
+                {
+                    node(id: "${globalIdVorhanden}") {
+                        __typename
+                        globalId
+                        ... on Film {
+                            id
+                            titel {
+                                titel
+                            }
+                        }
+                    }
+                }
+            `,
+        };
+
+        // when
+        const response: AxiosResponse<GraphQLResponseBody> = await client.post(
+            graphqlPath,
+            body,
+        );
+
+        // then
+        const { status, data } = response;
+
+        expect(status).toBe(HttpStatus.OK);
+        expect(data.errors).toBeUndefined();
+
+        const { node } = data.data!;
+
+        expect(node.__typename).toBe('Film'); // eslint-disable-line no-underscore-dangle
+        expect(node.globalId).toBe(globalIdVorhanden);
+        expect(node.id).toBe(Number(idVorhanden));
+        expect(node.titel.titel).toBe(titelVorhanden);
+    });
+
+    test('Filme mit Titel und Schauspielern ohne N+1-Abfragen', async () => {
+        // given
+        const queryOhneRelationen = '{ filme { version } }';
+        const queryMitRelationen = `
+            {
+                filme {
+                    version
+                    titel {
+                        titel
+                    }
+                    schauspielers {
+                        name
+                        rolle
+                    }
+                }
+            }
+        `;
+        // TypeORM protokolliert jede SQL-Anweisung mit logQuery()
+        const logQuery = jest.spyOn(dataSource.logger, 'logQuery');
+        const anzahlAbfragen = async (query: string) => {
+            logQuery.mockClear();
+            const response: AxiosResponse<GraphQLResponseBody> =
+                await client.post(graphqlPath, { query });
+            return { response, anzahl: logQuery.mock.calls.length };
+        };
+        const vorher = await anzahlAbfragen(queryMitRelationen);
+
+        // weitere Filme mit jeweils eigenen Schauspielern
+        const token = await loginGraphQL(client);
+        const headers = { Authorization: `Bearer ${token}` }; // eslint-disable-line @typescript-eslint/naming-convention
+        for (let i = 0; i < anzahlNeueFilme; i++) {
+            await client.post(
+                graphqlPath,
+                { query: createMutationMitSchauspieler(i) },
+                { headers },
+            );
+        }
+
+        // when
+        const ohneRelationen = await anzahlAbfragen(queryOhneRelationen);
+        const mitRelationen = await anzahlAbfragen(queryMitRelationen);
+        logQuery.mockRestore();
+
+        // then
+        const { status, data } = mitRelationen.response;
+        const filmeVorher = vorher.response.data.data!.filme as Film[];
+
+        expect(status).toBe(HttpStatus.OK);
+        expect(data.errors).toBeUndefined();
+        expect(data.data!.filme).toHaveLength(
+            filmeVorher.length + anzahlNeueFilme,
+        );
+        // unabhaengig von der Anzahl der Filme: die Titel mit dem Join bei
+        // der Suche, die Schauspieler mit einer einzigen Abfrage mit IN
+        expect(mitRelationen.anzahl).toBe(vorher.anzahl);
+        expect(mitRelationen.anzahl).toBe(ohneRelationen.anzahl + 1);
+    });
+
+    test('Tiefe und Kosten einer Query in extensions', async () => {
+        // given
+        const body: GraphQLRequest = {
+            query: `
+                {
+                    film(id: "${idVorhanden}") {
+                        titel {
+                            titel
+                        }
+                    }
+                }
+            `,
+        };
+
+        // when
+        const response: AxiosResponse<GraphQLResponseBody> = await client.post(
+            graphqlPath,
+            body,
+        );
+
+        // then
+        const { status, data } = response;
+
+        expect(status).toBe(HttpStatus.OK);
+        expect(data.errors).toBeUndefined();
+
+        const { depth, cost, maxDepth, maxCost } = data.extensions!.queryLimits;
+
+        expect(depth).toBe(depthFilmTitel);
+        expect(cost).toBeGreaterThan(0);
+        expect(depth).toBeLessThanOrEqual(maxDepth);
+        expect(cost).toBeLessThanOrEqual(maxCost);
+    });
+
+    test('Zu aufwendige Query', async () => {
+        // given
+        const body: GraphQLRequest = {
+            query: `
+                {
+                    filme(size: ${sizeZuTeuer}) {
+                        schauspielers {
+                            vorname
+                            name
+                            geschlecht
+                            email
+                            telefonnummer
+                            rolle
+                            reihenfolge
+                        }
+                    }
+                }
+            `,
+        };
+
+        // when
+        const response: AxiosResponse<GraphQLResponseBody> = await client.post(
+            graphqlPath,
+            body,
+            { validateStatus: () => true },
+        );
+
+        // then
+        const { status, data } = response;
+
+        expect(status).toBe(HttpStatus.BAD_REQUEST);
+        expect(data.data).toBeUndefined();
+
+        const { errors, extensions } = data;
+
+        expect(errors).toHaveLength(1);
+        expect(errors![0].extensions!.code).toBe('QUERY_TOO_COMPLEX');
+
+        const { cost, maxCost } = extensions!.queryLimits;
+
+        expect(cost).toBeGreaterThan(maxCost);
+    });
+
+    test('Kosten bei negativer Groesse wie ohne Groesse', async () => {
+        // given
+        const selection = `
+            schauspielers {
+                vorname
+                name
+                rolle
+            }
+        `;
+        const bodyOhneSize: GraphQLRequest = {
+            query: `{ filme { ${selection} } }`,
+        };
+        const bodyNegativ: GraphQLRequest = {
+            query: `{ filme(size: ${sizeNegativ}) { ${selection} } }`,
+        };
+
+        // when
+        const responseOhneSize: AxiosResponse<GraphQLResponseBody> =
+            await client.post(graphqlPath, bodyOhneSize, {
+                validateStatus: () => true,
+            });
+        const responseNegativ: AxiosResponse<GraphQLResponseBody> =
+            await client.post(graphqlPath, bodyNegativ, {
+                validateStatus: () => true,
+            });
+
+        // then
+        const costOhneSize = responseOhneSize.data.extensions!.queryLimits.cost;
+        const { cost } = responseNegativ.data.extensions!.queryLimits;
+
+        expect(cost).toBeGreaterThan(0);
+        expect(cost).toBe(costOhneSize);
+    });
+
+    test('Persisted Query zu nicht registriertem Hashwert', async () => {
+        // given
+        const body: GraphQLRequest = {
+            extensions: {
+                persistedQuery: { version: 1, sha256Hash: hashNichtVorhanden },
+            },
+        };
+
+        // when
+        const response: AxiosResponse<GraphQLResponseBody> = await client.post(
+            graphqlPath,
+            body,
+        );
+
+        // then
+        const { status, data } = response;
+
+        expect(status).toBe(HttpStatus.OK);
+        expect(data.data).toBeUndefined();
+
+        const { errors } = data;
+
+        expect(errors).toHaveLength(1);
+        expect(errors![0].extensions!.code).toBe('PERSISTED_QUERY_NOT_FOUND');
+    });
+
+    test('Persisted Query registrieren und nur mit Hashwert senden', async () => {
+        // given
+        const query = `
+            {
+                film(id: "${idVorhanden}") {
+                    titel {
+                        titel
+                    }
+                }
+            }
+        `;
+        const persistedQuery = {
+            version: 1,
+            sha256Hash: createHash('sha256').update(query).digest('hex'),
+        };
+        await client.post(graphqlPath, {
+            query,
+            extensions: { persistedQuery },
+        });
+        const body: GraphQLRequest = { extensions: { persistedQuery } };
+
+        // when
+        const response: AxiosResponse<GraphQLResponseBody> = await client.post(
+            graphqlPath,
+            body,
+        );
+
+        // then
+        const { status, headers, data } = response;
+
+        expect(status).toBe(HttpStatus.OK);
+        expect(headers['content-type']).toMatch(/json/iu);
+        expect(data.errors).toBeUndefined();
+
+        const { film } = data.data!;
+
+        expect(film.titel.titel).toBe(titelVorhanden);
+    });
 });
 /* eslint-enable @typescript-eslint/no-unsafe-assignment, @typescript-eslint/no-extra-non-null-assertion */
+/* eslint-enable max-lines */
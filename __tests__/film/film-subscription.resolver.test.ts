@@ -0,0 +1,223 @@
+/*
+ * Copyright (C) 2024 - present Juergen Zimmermann, Hochschule Karlsruhe
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with this program.  If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import { type Client, type ExecutionResult, createClient } from 'graphql-ws';
+import { afterAll, beforeAll, describe, expect, test } from '@jest/globals';
+import axios, { type AxiosInstance, type AxiosResponse } from 'axios';
+import {
+    host,
+    httpsAgent,
+    port,
+    shutdownServer,
+    startServer,
+} from '../testserver.js';
+import { type GraphQLQuery } from './film-mutation.resolver.test.js';
+import { type GraphQLResponseBody } from './film-query.resolver.test.js';
+import { HttpStatus } from '@nestjs/common';
+import WebSocket from 'ws'; // eslint-disable-line @typescript-eslint/naming-convention
+import jsonwebtoken from 'jsonwebtoken';
+import { jwtConfig } from '../../src/config/jwt.js';
+import { loginGraphQL } from '../login.js';
+import { setTimeout } from 'node:timers/promises';
+
+// -----------------------------------------------------------------------------
+// T e s t d a t e n
+// -----------------------------------------------------------------------------
+const titelNeu = 'Der Abonnent';
+const subscriptionFilmDeleted = 'subscription { filmDeleted { id } }';
+
+// Code beim Schliessen der Verbindung durch graphql-ws ohne gueltigen JWT
+const codeForbidden = 4403;
+
+// Zeit fuer den Server, um nach dem Verbindungsaufbau das Abonnement einzurichten
+const wartezeitMs = 500;
+
+// selbst-signiertes Zertifikat beim Testserver
+class TestWebSocket extends WebSocket {
+    constructor(address: string, protocols?: string | string[]) {
+        super(address, protocols, { rejectUnauthorized: false });
+    }
+}
+
+const createWsClient = (connectionParams?: Record<string, string>) =>
+    createClient({
+        url: `wss://${host}:${port}/graphql`,
+        webSocketImpl: TestWebSocket,
+        connectionParams,
+        retryAttempts: 0,
+    });
+
+// das erste Ereignis einer Subscription, danach wird sie beendet
+const naechstesEreignis = async (wsClient: Client, query: string) =>
+    new Promise<ExecutionResult<Record<string, any>, unknown>>(
+        (resolve, reject) => {
+            const unsubscribe = wsClient.subscribe<Record<string, any>>(
+                { query },
+                {
+                    next: (result) => {
+                        unsubscribe();
+                        resolve(result);
+                    },
+                    error: reject,
+                    complete: () => {
+                        // nach unsubscribe()
+                    },
+                },
+            );
+        },
+    );
+
+// -----------------------------------------------------------------------------
+// T e s t s
+// -----------------------------------------------------------------------------
+// Test-Suite
+// eslint-disable-next-line max-lines-per-function
+describe('GraphQL Subscriptions', () => {
+    let client: AxiosInstance;
+    const graphqlPath = 'graphql';
+
+    // Testserver starten und dabei mit der DB verbinden
+    beforeAll(async () => {
+        await startServer();
+        const baseURL = `https://${host}:${port}/`;
+        client = axios.create({
+            baseURL,
+            httpsAgent,
+        });
+    });
+
+    afterAll(async () => {
+        await shutdownServer();
+    });
+
+    test('Subscription ohne JWT', async () => {
+        // given
+        const wsClient = createWsClient();
+        const query = subscriptionFilmDeleted;
+
+        // when
+        const ereignis = naechstesEreignis(wsClient, query);
+
+        // then
+        await expect(ereignis).rejects.toMatchObject({ code: codeForbidden });
+
+        await wsClient.dispose();
+    });
+
+    test('Subscription mit JWT eines fremden Issuers', async () => {
+        // given
+        const { privateKey, signOptions } = jwtConfig;
+        const token = jsonwebtoken.sign({ username: 'admin' }, privateKey, {
+            ...signOptions,
+            issuer: 'https://fremder.issuer',
+            subject: '1',
+        });
+        const wsClient = createWsClient({ Authorization: `Bearer ${token}` }); // eslint-disable-line @typescript-eslint/naming-convention
+        const query = subscriptionFilmDeleted;
+
+        // when
+        const ereignis = naechstesEreignis(wsClient, query);
+
+        // then
+        await expect(ereignis).rejects.toMatchObject({ code: codeForbidden });
+
+        await wsClient.dispose();
+    });
+
+    test('Subscription mit ungueltigem JWT', async () => {
+        // given
+        const wsClient = createWsClient({ Authorization: 'Bearer FALSCH' }); // eslint-disable-line @typescript-eslint/naming-convention
+        const query = subscriptionFilmDeleted;
+
+        // when
+        const ereignis = naechstesEreignis(wsClient, query);
+
+        // then
+        await expect(ereignis).rejects.toMatchObject({ code: codeForbidden });
+
+        await wsClient.dispose();
+    });
+
+    // eslint-disable-next-line max-lines-per-function
+    test('Neuer Film bei filmCreated', async () => {
+        // given
+        const token = await loginGraphQL(client);
+        const authorization = `Bearer ${token}`;
+        const wsClient = createWsClient({ Authorization: authorization }); // eslint-disable-line @typescript-eslint/naming-convention
+        const ereignis = naechstesEreignis(
+            wsClient,
+            `
+                subscription {
+                    filmCreated {
+                        id
+                        titel {
+                            titel
+                        }
+                    }
+                }
+            `,
+        );
+        await setTimeout(wartezeitMs);
+        const body: GraphQLQuery = {
+            query: `
+                mutation {
+                    create(
+                        input: {
+                            rating: 3,
+                            filmstart: "2023-03-03",
+                            dauer: 95,
+                            sprache: "Deutsch",
+                            direktor: "Nora Fink",
+                            genres: ["ACTION"],
+                            titel: {
+                                titel: "${titelNeu}",
+                            },
+                            schauspielers: [
+                                {
+                                    vorname: "Lea",
+                                    nachname: "Wolf",
+                                    email: "lea.wolf@acme.com",
+                                }
+                            ]
+                        }
+                    ) {
+                        id
+                    }
+                }
+            `,
+        };
+
+        // when
+        const response: AxiosResponse<GraphQLResponseBody> = await client.post(
+            graphqlPath,
+            body,
+            { headers: { Authorization: authorization } }, // eslint-disable-line @typescript-eslint/naming-convention
+        );
+        const { data, errors } = await ereignis;
+        await wsClient.dispose();
+
+        // then
+        expect(response.status).toBe(HttpStatus.OK);
+        expect(response.data.errors).toBeUndefined();
+        expect(errors).toBeUndefined();
+
+        const { filmCreated } = data!;
+
+        expect(filmCreated.id).toBe(response.data.data!.create.id);
+        expect(filmCreated.titel.titel).toBe(titelNeu);
+    });
+});
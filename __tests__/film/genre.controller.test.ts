@@ -0,0 +1,147 @@
+/*
+ * Copyright (C) 2016 - present Juergen Zimmermann, Hochschule Karlsruhe
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with this program.  If not, see <https://www.gnu.org/licenses/>.
+ */
+import { afterAll, beforeAll, describe, test } from '@jest/globals';
+import axios, { type AxiosInstance, type AxiosResponse } from 'axios';
+import {
+    host,
+    httpsAgent,
+    port,
+    shutdownServer,
+    startServer,
+} from '../testserver.js';
+import { type ErrorResponse } from './error-response.js';
+import { type Genre } from '../../src/film/entity/genre.entity.js';
+import { type GenreDTO } from '../../src/film/rest/genreDTO.entity.js';
+import { HttpStatus } from '@nestjs/common';
+import { loginRest } from '../login.js';
+
+// -----------------------------------------------------------------------------
+// T e s t d a t e n
+// -----------------------------------------------------------------------------
+const genreVorhanden = 'ACTION';
+const neuesGenre: GenreDTO = { name: 'WESTERN' };
+const neuesGenreInvalid: GenreDTO = { name: 'kein genre' };
+
+// -----------------------------------------------------------------------------
+// T e s t s
+// -----------------------------------------------------------------------------
+// Test-Suite
+// eslint-disable-next-line max-lines-per-function
+describe('/rest/genres', () => {
+    let client: AxiosInstance;
+    const headers: Record<string, string> = {
+        'Content-Type': 'application/json', // eslint-disable-line @typescript-eslint/naming-convention
+    };
+
+    // Testserver starten und dabei mit der DB verbinden
+    beforeAll(async () => {
+        await startServer();
+        const baseURL = `https://${host}:${port}/rest/genres`;
+        client = axios.create({
+            baseURL,
+            httpsAgent,
+            validateStatus: (status) => status < 500, // eslint-disable-line @typescript-eslint/no-magic-numbers
+        });
+        const token = await loginRest(client);
+        headers.Authorization = `Bearer ${token}`;
+    });
+
+    afterAll(async () => {
+        await shutdownServer();
+    });
+
+    test('Alle Genres im Katalog', async () => {
+        // given
+
+        // when
+        const response: AxiosResponse<Genre[]> = await client.get('', {
+            headers,
+        });
+
+        // then
+        const { status, data } = response;
+
+        expect(status).toBe(HttpStatus.OK);
+        expect(data.map((genre) => genre.name)).toContain(genreVorhanden);
+    });
+
+    test('Neues Genre', async () => {
+        // given
+
+        // when
+        const response: AxiosResponse<string> = await client.post(
+            '',
+            neuesGenre,
+            { headers },
+        );
+
+        // then
+        const { status } = response;
+
+        expect(status).toBe(HttpStatus.CREATED);
+
+        const { location } = response.headers as { location: string };
+
+        expect(location).toMatch(/\/rest\/genres\/\d+$/u);
+    });
+
+    test('Neues Genre, das bereits existiert', async () => {
+        // given
+        const genre: GenreDTO = { name: genreVorhanden };
+
+        // when
+        const response: AxiosResponse<ErrorResponse> = await client.post(
+            '',
+            genre,
+            { headers },
+        );
+
+        // then
+        const { status, data } = response;
+
+        expect(status).toBe(HttpStatus.UNPROCESSABLE_ENTITY);
+        expect(data.message).toEqual(expect.stringContaining(genreVorhanden));
+    });
+
+    test('Neues Genre mit ungueltigem Namen', async () => {
+        // given
+
+        // when
+        const response: AxiosResponse<ErrorResponse> = await client.post(
+            '',
+            neuesGenreInvalid,
+            { headers },
+        );
+
+        // then
+        const { status } = response;
+
+        expect(status).toBe(HttpStatus.UNPROCESSABLE_ENTITY);
+    });
+
+    test('Genres ohne Token', async () => {
+        // given
+
+        // when
+        const response: AxiosResponse<ErrorResponse> = await client.get('');
+
+        // then
+        const { status } = response;
+
+        expect(status).toBe(HttpStatus.UNAUTHORIZED);
+    });
+});
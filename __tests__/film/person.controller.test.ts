@@ -0,0 +1,181 @@
+/*
+ * Copyright (C) 2024 - present Juergen Zimmermann, Hochschule Karlsruhe
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with this program.  If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import {
+    type FilmografieModel,
+    type PersonModel,
+    type PersonenModel,
+} from '../../src/film/rest/person-get.controller.js';
+import { afterAll, beforeAll, describe, test } from '@jest/globals';
+import axios, { type AxiosInstance, type AxiosResponse } from 'axios';
+import {
+    host,
+    httpsAgent,
+    port,
+    shutdownServer,
+    startServer,
+} from '../testserver.js';
+import { type ErrorResponse } from './error-response.js';
+import { HttpStatus } from '@nestjs/common';
+import { type PersonDTO } from '../../src/film/rest/personDTO.entity.js';
+import { loginRest } from '../login.js';
+
+// -----------------------------------------------------------------------------
+// T e s t d a t e n
+// -----------------------------------------------------------------------------
+const personIdVorhanden = '1';
+const personIdNichtVorhanden = '999999';
+const emailVorhanden = 'alpha@acme.com';
+const neuePerson: PersonDTO = {
+    vorname: 'Neue',
+    nachname: 'Person',
+    geschlecht: 'weiblich',
+    email: 'neue.person@acme.com',
+    telefonnummer: '0155923199',
+};
+
+// -----------------------------------------------------------------------------
+// T e s t s
+// -----------------------------------------------------------------------------
+// Test-Suite
+/* eslint-disable no-underscore-dangle */
+// eslint-disable-next-line max-lines-per-function
+describe('/rest/personen', () => {
+    let client: AxiosInstance;
+    const headers: Record<string, string> = {
+        'Content-Type': 'application/json', // eslint-disable-line @typescript-eslint/naming-convention
+    };
+
+    // Testserver starten und dabei mit der DB verbinden
+    beforeAll(async () => {
+        await startServer();
+        const baseURL = `https://${host}:${port}/rest`;
+        client = axios.create({
+            baseURL,
+            httpsAgent,
+            validateStatus: (status) => status < 500, // eslint-disable-line @typescript-eslint/no-magic-numbers
+        });
+        const token = await loginRest(client);
+        headers.Authorization = `Bearer ${token}`;
+    });
+
+    afterAll(async () => {
+        await shutdownServer();
+    });
+
+    test('Alle Personen', async () => {
+        // given
+
+        // when
+        const response: AxiosResponse<PersonenModel> =
+            await client.get('/personen');
+
+        // then
+        const { status, data } = response;
+
+        expect(status).toBe(HttpStatus.OK);
+        expect(data._embedded.personen.map(({ email }) => email)).toContain(
+            emailVorhanden,
+        );
+    });
+
+    test('Person zu vorhandener ID', async () => {
+        // given
+        const url = `/personen/${personIdVorhanden}`;
+
+        // when
+        const response: AxiosResponse<PersonModel> = await client.get(url);
+
+        // then
+        const { status, data } = response;
+
+        expect(status).toBe(HttpStatus.OK);
+        expect(data.email).toBe(emailVorhanden);
+        expect(data._links.filme.href).toMatch(/\/rest\/personen\/1\/filme$/u);
+    });
+
+    test('Person zu nicht-vorhandener ID', async () => {
+        // given
+        const url = `/personen/${personIdNichtVorhanden}`;
+
+        // when
+        const response: AxiosResponse<ErrorResponse> = await client.get(url);
+
+        // then
+        const { status } = response;
+
+        expect(status).toBe(HttpStatus.NOT_FOUND);
+    });
+
+    test('Filmografie einer vorhandenen Person', async () => {
+        // given
+        const url = `/personen/${personIdVorhanden}/filme`;
+
+        // when
+        const response: AxiosResponse<FilmografieModel> = await client.get(url);
+
+        // then
+        const { status, data } = response;
+
+        expect(status).toBe(HttpStatus.OK);
+        expect(data._embedded.filme).not.toHaveLength(0);
+        expect(data._embedded.filme[0]?._links.film.href).toMatch(
+            /\/rest\/1$/u,
+        );
+    });
+
+    test('Neue Person', async () => {
+        // given
+
+        // when
+        const response: AxiosResponse<string> = await client.post(
+            '/personen',
+            neuePerson,
+            { headers },
+        );
+
+        // then
+        const { status } = response;
+
+        expect(status).toBe(HttpStatus.CREATED);
+
+        const { location } = response.headers as { location: string };
+
+        expect(location).toMatch(/\/rest\/personen\/\d+$/u);
+    });
+
+    test('Neue Person mit vorhandener Emailadresse', async () => {
+        // given
+        const person: PersonDTO = {
+            ...neuePerson,
+            email: emailVorhanden.toUpperCase(),
+        };
+
+        // when
+        const response: AxiosResponse<ErrorResponse> = await client.post(
+            '/personen',
+            person,
+            { headers },
+        );
+
+        // then
+        const { status } = response;
+
+        expect(status).toBe(HttpStatus.UNPROCESSABLE_ENTITY);
+    });
+});
+/* eslint-enable no-underscore-dangle */
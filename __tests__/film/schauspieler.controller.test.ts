@@ -0,0 +1,172 @@
+/*
+ * Copyright (C) 2024 - present Juergen Zimmermann, Hochschule Karlsruhe
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with this program.  If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import { afterAll, beforeAll, describe, test } from '@jest/globals';
+import axios, { type AxiosInstance, type AxiosResponse } from 'axios';
+import {
+    host,
+    httpsAgent,
+    port,
+    shutdownServer,
+    startServer,
+} from '../testserver.js';
+import { type ErrorResponse } from './error-response.js';
+import { HttpStatus } from '@nestjs/common';
+import { type SchauspielerDTO } from '../../src/film/rest/schauspielerDTO.entity.js';
+import { type SchauspielersModel } from '../../src/film/rest/schauspieler-get.controller.js';
+import { loginRest } from '../login.js';
+
+// -----------------------------------------------------------------------------
+// T e s t d a t e n
+// -----------------------------------------------------------------------------
+const filmIdVorhanden = '1';
+const filmIdNichtVorhanden = '999999';
+const neuerSchauspieler: SchauspielerDTO = {
+    vorname: 'Neuer',
+    nachname: 'Schauspieler',
+    geschlecht: 'Weiblich',
+    email: 'neuer.schauspieler@acme.com',
+    telefonnummer: '+49 721 1234567',
+    rolle: 'Hauptrolle',
+    reihenfolge: 1,
+};
+
+// -----------------------------------------------------------------------------
+// T e s t s
+// -----------------------------------------------------------------------------
+// Test-Suite
+/* eslint-disable no-underscore-dangle */
+// eslint-disable-next-line max-lines-per-function
+describe('/rest/:id/schauspielers', () => {
+    let client: AxiosInstance;
+    const headers: Record<string, string> = {
+        'Content-Type': 'application/json', // eslint-disable-line @typescript-eslint/naming-convention
+    };
+
+    // Testserver starten und dabei mit der DB verbinden
+    beforeAll(async () => {
+        await startServer();
+        const baseURL = `https://${host}:${port}/rest`;
+        client = axios.create({
+            baseURL,
+            httpsAgent,
+            validateStatus: (status) => status < 500, // eslint-disable-line @typescript-eslint/no-magic-numbers
+        });
+        const token = await loginRest(client);
+        headers.Authorization = `Bearer ${token}`;
+    });
+
+    afterAll(async () => {
+        await shutdownServer();
+    });
+
+    test('Schauspieler zu vorhandenem Film', async () => {
+        // given
+        const url = `/${filmIdVorhanden}/schauspielers`;
+
+        // when
+        const response: AxiosResponse<SchauspielersModel> =
+            await client.get(url);
+
+        // then
+        const { status, data } = response;
+
+        expect(status).toBe(HttpStatus.OK);
+        expect(data._embedded.schauspielers).not.toHaveLength(0);
+        expect(data._links.film.href).toMatch(/\/rest\/1$/u);
+        expect(data._embedded.schauspielers[0]?._links.person?.href).toMatch(
+            /\/rest\/personen\/1$/u,
+        );
+    });
+
+    test('Schauspieler zu nicht-vorhandenem Film', async () => {
+        // given
+        const url = `/${filmIdNichtVorhanden}/schauspielers`;
+
+        // when
+        const response: AxiosResponse<ErrorResponse> = await client.get(url);
+
+        // then
+        const { status } = response;
+
+        expect(status).toBe(HttpStatus.NOT_FOUND);
+    });
+
+    test('Neuer Schauspieler zu vorhandenem Film', async () => {
+        // given
+        const url = `/${filmIdVorhanden}/schauspielers`;
+
+        // when
+        const response: AxiosResponse<string> = await client.post(
+            url,
+            neuerSchauspieler,
+            { headers },
+        );
+
+        // then
+        const { status } = response;
+
+        expect(status).toBe(HttpStatus.CREATED);
+
+        const { location } = response.headers as { location: string };
+
+        expect(location).toMatch(/\/rest\/1\/schauspielers\/\d+$/u);
+    });
+
+    test('Neuer Schauspieler aendert den ETag des Filmes', async () => {
+        // given
+        const filmUrl = `/${filmIdVorhanden}`;
+        const params = { embed: 'schauspielers' };
+        const responseVorher = await client.get(filmUrl, { params });
+        const { etag } = responseVorher.headers as { etag: string };
+        const url = `/${filmIdVorhanden}/schauspielers`;
+        const schauspieler: SchauspielerDTO = {
+            ...neuerSchauspieler,
+            email: 'etag.schauspieler@acme.com',
+        };
+        await client.post(url, schauspieler, { headers });
+
+        // when
+        const response: AxiosResponse<string> = await client.get(filmUrl, {
+            params,
+            headers: { 'If-None-Match': etag }, // eslint-disable-line @typescript-eslint/naming-convention
+        });
+
+        // then
+        const { status } = response;
+
+        expect(status).toBe(HttpStatus.OK);
+        expect(response.headers.etag).not.toBe(etag);
+    });
+
+    test('Neuer Schauspieler ohne Token', async () => {
+        // given
+        const url = `/${filmIdVorhanden}/schauspielers`;
+
+        // when
+        const response: AxiosResponse<ErrorResponse> = await client.post(
+            url,
+            neuerSchauspieler,
+        );
+
+        // then
+        const { status } = response;
+
+        expect(status).toBe(HttpStatus.UNAUTHORIZED);
+    });
+});
+/* eslint-enable no-underscore-dangle */
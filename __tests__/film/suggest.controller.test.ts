@@ -0,0 +1,195 @@
+/*
+ * Copyright (C) 2016 - present Juergen Zimmermann, Hochschule Karlsruhe
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with this program.  If not, see <https://www.gnu.org/licenses/>.
+ */
+import { afterAll, beforeAll, describe, test } from '@jest/globals';
+import axios, { type AxiosInstance, type AxiosResponse } from 'axios';
+import {
+    host,
+    httpsAgent,
+    port,
+    shutdownServer,
+    startServer,
+} from '../testserver.js';
+import { type ErrorResponse } from './error-response.js';
+import { HttpStatus } from '@nestjs/common';
+import { type VorschlaegeModel } from '../../src/film/rest/suggest.controller.js';
+
+// -----------------------------------------------------------------------------
+// T e s t d a t e n
+// -----------------------------------------------------------------------------
+const prefixVorhanden = 'Alph';
+const prefixMitTippfehler = 'Alphx';
+const prefixNichtVorhanden = 'xyzxyz';
+const prefixPlatzhalter = '%';
+const titelVorhanden = 'Alpha';
+const idVorhanden = 1;
+
+// -----------------------------------------------------------------------------
+// T e s t s
+// -----------------------------------------------------------------------------
+// Test-Suite
+/* eslint-disable no-underscore-dangle */
+// eslint-disable-next-line max-lines-per-function
+describe('GET /rest/suggest', () => {
+    let client: AxiosInstance;
+
+    // Testserver starten und dabei mit der DB verbinden
+    beforeAll(async () => {
+        await startServer();
+        const baseURL = `https://${host}:${port}/rest/suggest`;
+        client = axios.create({
+            baseURL,
+            httpsAgent,
+            validateStatus: (status) => status < 500, // eslint-disable-line @typescript-eslint/no-magic-numbers
+        });
+    });
+
+    afterAll(async () => {
+        await shutdownServer();
+    });
+
+    test('Vorschlaege zu einem vorhandenen Praefix', async () => {
+        // given
+        const params = { prefix: prefixVorhanden };
+
+        // when
+        const response: AxiosResponse<VorschlaegeModel> = await client.get('', {
+            params,
+        });
+
+        // then
+        const { status, data } = response;
+
+        expect(status).toBe(HttpStatus.OK);
+
+        const { vorschlaege } = data._embedded;
+        const [vorschlag] = vorschlaege;
+
+        expect(vorschlag?.text).toBe(titelVorhanden);
+        expect(vorschlag?.filmId).toBe(idVorhanden);
+        expect(vorschlag?.aehnlichkeit).toBe(1);
+        expect(vorschlag?._links.film.href).toMatch(/\/rest\/1$/u);
+    });
+
+    test('Vorschlaege trotz Tippfehler', async () => {
+        // given
+        const params = { prefix: prefixMitTippfehler };
+
+        // when
+        const response: AxiosResponse<VorschlaegeModel> = await client.get('', {
+            params,
+        });
+
+        // then
+        const { status, data } = response;
+
+        expect(status).toBe(HttpStatus.OK);
+
+        const texte = data._embedded.vorschlaege.map(({ text }) => text);
+
+        expect(texte).toContain(titelVorhanden);
+    });
+
+    test('Keine Vorschlaege zu einem nicht vorhandenen Praefix', async () => {
+        // given
+        const params = { prefix: prefixNichtVorhanden };
+
+        // when
+        const response: AxiosResponse<VorschlaegeModel> = await client.get('', {
+            params,
+        });
+
+        // then
+        const { status, data } = response;
+
+        expect(status).toBe(HttpStatus.OK);
+        expect(data._embedded.vorschlaege).toHaveLength(0);
+    });
+
+    test('Vorschlaege mit Limit', async () => {
+        // given
+        const params = { prefix: prefixVorhanden, limit: '1' };
+
+        // when
+        const response: AxiosResponse<VorschlaegeModel> = await client.get('', {
+            params,
+        });
+
+        // then
+        const { status, data } = response;
+
+        expect(status).toBe(HttpStatus.OK);
+        expect(data._embedded.vorschlaege).toHaveLength(1);
+    });
+
+    test('Keine Vorschlaege zu einem Platzhalter als Praefix', async () => {
+        // given
+        const params = { prefix: prefixPlatzhalter };
+
+        // when
+        const response: AxiosResponse<VorschlaegeModel> = await client.get('', {
+            params,
+        });
+
+        // then
+        const { status, data } = response;
+
+        expect(status).toBe(HttpStatus.OK);
+        expect(data._embedded.vorschlaege).toHaveLength(0);
+    });
+
+    test('Vorschlaege mit mehrfachem Praefix', async () => {
+        // given
+        const url = `?prefix=${prefixVorhanden}&prefix=${prefixVorhanden}`;
+
+        // when
+        const response: AxiosResponse<ErrorResponse> = await client.get(url);
+
+        // then
+        const { status } = response;
+
+        expect(status).toBe(HttpStatus.BAD_REQUEST);
+    });
+
+    test('Vorschlaege ohne Praefix', async () => {
+        // given
+
+        // when
+        const response: AxiosResponse<ErrorResponse> = await client.get('');
+
+        // then
+        const { status } = response;
+
+        expect(status).toBe(HttpStatus.BAD_REQUEST);
+    });
+
+    test('Vorschlaege mit ungueltigem Limit', async () => {
+        // given
+        const params = { prefix: prefixVorhanden, limit: '0' };
+
+        // when
+        const response: AxiosResponse<ErrorResponse> = await client.get('', {
+            params,
+        });
+
+        // then
+        const { status, data } = response;
+
+        expect(status).toBe(HttpStatus.BAD_REQUEST);
+        expect(data.message).toEqual(expect.stringContaining('Limit'));
+    });
+});
+/* eslint-enable no-underscore-dangle */
@@ -142,7 +142,7 @@ describe('Login', () => {
         expect(path).toBeDefined();
         expect(path!![0]).toBe('login');
         expect(extensions).toBeDefined();
-        expect(extensions!.code).toBe('BAD_USER_INPUT');
+        expect(extensions!.code).toBe('UNAUTHENTICATED');
     });
 });
 /* eslint-enable @typescript-eslint/no-unsafe-assignment, @typescript-eslint/no-extra-non-null-assertion */
@@ -0,0 +1,80 @@
+/*
+ * Copyright (C) 2024 - present Juergen Zimmermann, Hochschule Karlsruhe
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with this program.  If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import { afterAll, beforeAll, describe, test } from '@jest/globals';
+import { mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { PersistedOperations } from '../../../src/security/graphql/persisted-operations.js';
+import { createHash } from 'node:crypto';
+import { join } from 'node:path';
+import { tmpdir } from 'node:os';
+
+// -----------------------------------------------------------------------------
+// T e s t d a t e n
+// -----------------------------------------------------------------------------
+const body = 'query Film($id: ID!) { film(id: $id) { id } }';
+const hash = createHash('sha256').update(body).digest('hex');
+const manifest = {
+    format: 'apollo-persisted-query-manifest',
+    version: 1,
+    operations: [{ id: hash, name: 'Film', type: 'query', body }],
+};
+const manifestUngueltig = ['{}', 'null', '{ "operations": [{ "id": 1 }] }'];
+
+// -----------------------------------------------------------------------------
+// T e s t s
+// -----------------------------------------------------------------------------
+// Test-Suite
+describe('PersistedOperations', () => {
+    let dir: string;
+    let manifestFile: string;
+
+    beforeAll(async () => {
+        dir = await mkdtemp(join(tmpdir(), 'manifest-'));
+        manifestFile = join(dir, 'persisted-query-manifest.json');
+    });
+
+    afterAll(async () => {
+        await rm(dir, { recursive: true, force: true });
+    });
+
+    test('Operation aus dem Manifest', async () => {
+        // given
+        await writeFile(manifestFile, JSON.stringify(manifest)); // eslint-disable-line security/detect-non-literal-fs-filename
+
+        // when
+        const operations = new PersistedOperations(manifestFile);
+
+        // then
+        expect(operations.get(hash)?.body).toBe(body);
+    });
+
+    test.each(manifestUngueltig)(
+        'Ungueltiges Manifest %s: bisherige Operationen bleiben gueltig',
+        async (inhalt) => {
+            // given
+            await writeFile(manifestFile, JSON.stringify(manifest)); // eslint-disable-line security/detect-non-literal-fs-filename
+            const operations = new PersistedOperations(manifestFile);
+            await writeFile(manifestFile, inhalt); // eslint-disable-line security/detect-non-literal-fs-filename
+
+            // when
+            operations.reload();
+
+            // then
+            expect(operations.get(hash)?.body).toBe(body);
+        },
+    );
+});
@@ -14,14 +14,11 @@
  * You should have received a copy of the GNU General Public License
  * along with this program.  If not, see <https://www.gnu.org/licenses/>.
  */
-import {
-    HttpStatus,
-    type INestApplication,
-    ValidationPipe,
-} from '@nestjs/common';
+import { HttpStatus, type INestApplication } from '@nestjs/common';
 import { Agent } from 'node:https';
 import { AppModule } from '../src/app.module.js';
 import { NestFactory } from '@nestjs/core';
+import { ValidationPipe } from '../src/validation/validation.pipe.js';
 import { v2 as compose } from 'docker-compose';
 import { config } from '../src/config/app.js';
 import { dbType } from '../src/config/dbtype.js';
@@ -14,6 +14,10 @@
  * You should have received a copy of the GNU General Public License
  * along with this program.  If not, see <https://www.gnu.org/licenses/>.
  */
+import {
+    APPLICATION_JSON_PATCH_JSON,
+    APPLICATION_MERGE_PATCH_JSON,
+} from './film/rest/patch.js';
 import {
     type MiddlewareConsumer,
     Module,
@@ -31,6 +35,7 @@ import { LoggerModule } from './logger/logger.module.js';
 import { RequestLoggerMiddleware } from './logger/request-logger.middleware.js';
 import { TypeOrmModule } from '@nestjs/typeorm';
 import { graphQlModuleOptions } from './config/graphql.js';
+import { json } from 'express';
 import { typeOrmModuleOptions } from './config/db.js';
 
 @Module({
@@ -46,6 +51,18 @@ import { typeOrmModuleOptions } from './config/db.js';
 })
 export class AppModule implements NestModule {
     configure(consumer: MiddlewareConsumer) {
+        // Request-Body bei PATCH: JSON Merge Patch und JSON Patch
+        consumer
+            .apply(
+                json({
+                    type: [
+                        APPLICATION_MERGE_PATCH_JSON,
+                        APPLICATION_JSON_PATCH_JSON,
+                    ],
+                }),
+            )
+            .forRoutes(FilmWriteController);
+
         consumer
             .apply(RequestLoggerMiddleware)
             .forRoutes(
@@ -42,7 +42,14 @@ import { resolve } from 'node:path';
  */
 @Injectable()
 export class DbPopulateService implements OnApplicationBootstrap {
-    readonly #tabellen = ['film', 'titel', 'schauspieler'];
+    readonly #tabellen = [
+        'film',
+        'titel',
+        'person',
+        'besetzung',
+        'genre',
+        'film_genre',
+    ];
 
     readonly #datasource: DataSource;
 
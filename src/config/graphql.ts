@@ -16,8 +16,25 @@
  */
 
 import { ApolloDriver, type ApolloDriverConfig } from '@nestjs/apollo';
-import { BASEDIR } from './app.js';
+import {
+    type ApolloServerPlugin,
+    type PersistedQueryOptions,
+} from '@apollo/server';
+import { BASEDIR, config } from './app.js';
+import {
+    type QueryLimits,
+    createQueryLimitsPlugin,
+} from '../security/graphql/query-limits.plugin.js';
+import {
+    createAllowListOnSubscribe,
+    createAllowListPlugin,
+} from '../security/graphql/allow-list.plugin.js';
+import { PersistedOperations } from '../security/graphql/persisted-operations.js';
+import { type ServerOptions } from 'graphql-ws';
 import { join } from 'node:path';
+import jsonwebtoken from 'jsonwebtoken';
+import { jwtConfig } from './jwt.js';
+import { loggerDefaultValue } from './logger.js';
 
 const SCHEMA_GRAPHQL = join(
     BASEDIR,
@@ -28,6 +45,109 @@ const SCHEMA_GRAPHQL = join(
 );
 console.debug('SCHEMA_GRAPHQL = %s', SCHEMA_GRAPHQL);
 
+const MANIFEST_JSON = join(
+    BASEDIR,
+    'config',
+    'resources',
+    'graphql',
+    'persisted-query-manifest.json',
+);
+
+const { graphql } = config;
+
+/**
+ * Die Grenzwerte für die Tiefe und die Kosten einer Query aus dem Abschnitt
+ * `graphql` in `app.yml`.
+ */
+export const queryLimits: QueryLimits = {
+    maxDepth: (graphql?.maxDepth as number | undefined) ?? 10, // eslint-disable-line @typescript-eslint/no-magic-numbers
+    maxCost: (graphql?.maxCost as number | undefined) ?? 5000, // eslint-disable-line @typescript-eslint/no-magic-numbers
+    fieldCosts: new Map(
+        Object.entries(
+            (graphql?.fieldCosts as Record<string, number> | undefined) ?? {},
+        ),
+    ),
+    defaultCost: (graphql?.defaultCost as number | undefined) ?? 1,
+    listSize: (graphql?.listSize as number | undefined) ?? 20, // eslint-disable-line @typescript-eslint/no-magic-numbers
+};
+if (!loggerDefaultValue) {
+    console.debug('queryLimits: %o', queryLimits);
+}
+
+const persistedQueriesConfig = graphql?.persistedQueries as
+    | Record<string, any>
+    | undefined;
+const strict = persistedQueriesConfig?.strict === true;
+const ttl = persistedQueriesConfig?.ttl as number | undefined;
+
+// Im strikten Modus nur Operationen aus dem Manifest, das bei einer Aenderung
+// ohne Neustart neu eingelesen wird, auch bei Subscriptions ueber graphql-ws;
+// sonst registrieren Clients ihre Queries selbst im Cache von Apollo Server
+const persistedQueries: PersistedQueryOptions = {};
+const plugins: ApolloServerPlugin[] = [];
+const graphqlWsOptions: Pick<ServerOptions, 'onSubscribe'> = {};
+if (strict) {
+    const persistedOperations = new PersistedOperations(MANIFEST_JSON).watch();
+    persistedQueries.cache = persistedOperations.asCache();
+    plugins.push(createAllowListPlugin(persistedOperations));
+    graphqlWsOptions.onSubscribe =
+        createAllowListOnSubscribe(persistedOperations);
+}
+if (ttl !== undefined) {
+    persistedQueries.ttl = ttl;
+}
+plugins.push(createQueryLimitsPlugin(queryLimits));
+if (!loggerDefaultValue) {
+    console.debug(
+        'persistedQueries: strict=%s, ttl=%s',
+        strict,
+        persistedQueries.ttl,
+    );
+}
+
+type ConnectionParams = Readonly<Record<string, unknown>> | undefined;
+
+// JWT im Payload von ConnectionInit bei graphql-ws, z.B.
+// { "Authorization": "Bearer eyJ..." } wie beim Header eines HTTP-Requests
+const authorization = (connectionParams: ConnectionParams) => {
+    const value =
+        connectionParams?.Authorization ?? connectionParams?.authorization;
+    return typeof value === 'string' ? value : undefined;
+};
+
+// JWT wie bei JwtStrategy mit jwtConfig.verifyOptions verifizieren: Signatur mit
+// dem Public Key, Algorithmus, Issuer und Ablaufzeitpunkt
+const isJwtValid = (value: string | undefined) => {
+    const [scheme, token] = value?.split(' ') ?? [];
+    if (scheme?.toLowerCase() !== 'bearer' || token === undefined) {
+        return false;
+    }
+    const { publicKey, verifyOptions } = jwtConfig;
+    try {
+        jsonwebtoken.verify(token, publicKey, verifyOptions);
+    } catch {
+        return false;
+    }
+    return true;
+};
+
+// Bei graphql-ws gibt es statt des Request-Objekts den Kontext der Verbindung:
+// Request-Objekt nur mit dem Header "Authorization" fuer JwtAuthGraphQlGuard
+const context = ({
+    req,
+    connectionParams,
+}: {
+    readonly req?: unknown;
+    readonly connectionParams?: ConnectionParams;
+}) => {
+    if (req !== undefined) {
+        return { req };
+    }
+    return {
+        req: { headers: { authorization: authorization(connectionParams) } },
+    };
+};
+
 /**
  * Das Konfigurationsobjekt für GraphQL (siehe src\app.module.ts).
  */
@@ -36,5 +156,18 @@ export const graphQlModuleOptions: ApolloDriverConfig = {
     // alternativ: Mercurius (statt Apollo) fuer Fastify (statt Express)
     driver: ApolloDriver,
     playground: false,
+    context,
+    persistedQueries,
+    plugins,
+    // Subscriptions ueber WebSockets mit dem Protokoll von graphql-ws
+    subscriptions: {
+        // eslint-disable-next-line @typescript-eslint/naming-convention
+        'graphql-ws': {
+            ...graphqlWsOptions,
+            // ohne gueltigen JWT wird die Verbindung mit dem Code 4403 abgelehnt
+            onConnect: ({ connectionParams }) =>
+                isJwtValid(authorization(connectionParams)),
+        },
+    },
     // TODO formatError und logger konfigurieren, damit UserInputError nicht in der Konsole protokolliert wird
 };
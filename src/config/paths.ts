@@ -17,6 +17,11 @@
 
 export const paths = {
     rest: 'rest',
+    genres: 'genres',
+    schauspielers: 'schauspielers',
+    personen: 'personen',
+    filme: 'filme',
+    suggest: 'suggest',
     auth: 'auth',
     login: 'login',
     roles: 'roles',
@@ -33,7 +33,6 @@ CREATE TABLE IF NOT EXISTS film (
     dauer         INT CHECK (dauer >= 0),
     sprache       varchar(40) NOT NULL,
     direktor      varchar(40) NOT NULL,
-    genres        VARCHAR(64),
     erzeugt       DATETIME NOT NULL DEFAULT (CURRENT_TIMESTAMP),
     aktualisiert  DATETIME NOT NULL DEFAULT (CURRENT_TIMESTAMP)
 ) TABLESPACE filmspace ROW_FORMAT=COMPACT;
@@ -48,15 +47,38 @@ CREATE TABLE IF NOT EXISTS titel (
 ) TABLESPACE filmspace ROW_FORMAT=COMPACT;
 ALTER TABLE titel AUTO_INCREMENT=1000;
 
-CREATE TABLE IF NOT EXISTS schauspieler (
+CREATE TABLE IF NOT EXISTS person (
     id              INT NOT NULL PRIMARY KEY AUTO_INCREMENT,
     vorname         VARCHAR(40) NOT NULL,
     nachname        VARCHAR(40) NOT NULL,
     geschlecht      VARCHAR(20),
-    email           VARCHAR(40),
-    telefonnummer   VARCHAR(40),
-    film_id         CHAR(36) NOT NULL references film(id),
+    email           VARCHAR(40) UNIQUE,
+    telefonnummer   VARCHAR(40)
+) TABLESPACE filmspace ROW_FORMAT=COMPACT;
+ALTER TABLE person AUTO_INCREMENT=1000;
+
+CREATE TABLE IF NOT EXISTS besetzung (
+    id              INT NOT NULL PRIMARY KEY AUTO_INCREMENT,
+    rolle           VARCHAR(40),
+    reihenfolge     INT NOT NULL DEFAULT 1 CHECK (reihenfolge > 0),
+    film_id         INT NOT NULL references film(id) ON DELETE CASCADE,
+    person_id       INT NOT NULL references person(id) ON DELETE CASCADE,
+
+    INDEX besetzung_film_id_idx(film_id),
+    INDEX besetzung_person_id_idx(person_id)
+) TABLESPACE filmspace ROW_FORMAT=COMPACT;
+ALTER TABLE besetzung AUTO_INCREMENT=1000;
+
+CREATE TABLE IF NOT EXISTS genre (
+    id          INT NOT NULL PRIMARY KEY AUTO_INCREMENT,
+    name        VARCHAR(40) UNIQUE NOT NULL
+) TABLESPACE filmspace ROW_FORMAT=COMPACT;
+ALTER TABLE genre AUTO_INCREMENT=1000;
+
+CREATE TABLE IF NOT EXISTS film_genre (
+    film_id     INT NOT NULL references film(id) ON DELETE CASCADE,
+    genre_id    INT NOT NULL references genre(id) ON DELETE CASCADE,
 
-    INDEX schauspieler_film_id_idx(film_id)
+    PRIMARY KEY (film_id, genre_id),
+    INDEX film_genre_genre_id_idx(genre_id)
 ) TABLESPACE filmspace ROW_FORMAT=COMPACT;
-ALTER TABLE schauspieler AUTO_INCREMENT=1000;
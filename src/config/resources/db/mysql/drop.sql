@@ -15,6 +15,9 @@
 
 -- https://dev.mysql.com/doc/refman/8.1/en/drop-table.html
 
-DROP TABLE IF EXISTS schauspieler;
+DROP TABLE IF EXISTS film_genre;
+DROP TABLE IF EXISTS genre;
+DROP TABLE IF EXISTS besetzung;
+DROP TABLE IF EXISTS person;
 DROP TABLE IF EXISTS titel;
 DROP TABLE IF EXISTS film;
@@ -0,0 +1,55 @@
+-- Copyright (C) 2024 - present Juergen Zimmermann, Hochschule Karlsruhe
+--
+-- This program is free software: you can redistribute it and/or modify
+-- it under the terms of the GNU General Public License as published by
+-- the Free Software Foundation, either version 3 of the License, or
+-- (at your option) any later version.
+--
+-- This program is distributed in the hope that it will be useful,
+-- but WITHOUT ANY WARRANTY; without even the implied warranty of
+-- MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+-- GNU General Public License for more details.
+--
+-- You should have received a copy of the GNU General Public License
+-- along with this program.  If not, see <https://www.gnu.org/licenses/>.
+
+-- Migration einer bestehenden DB: die Spalte film.genres ("simple-array", d.h.
+-- durch Komma getrennt) wird in den Genre-Katalog und die Join-Tabelle
+-- film_genre ueberfuehrt. Danach wird die Spalte film.genres geloescht.
+--
+-- docker compose exec db bash
+-- mysql --user=film --password=p film < /sql/migrate-genre.sql
+
+CREATE TABLE IF NOT EXISTS genre (
+    id          INT NOT NULL PRIMARY KEY AUTO_INCREMENT,
+    name        VARCHAR(40) UNIQUE NOT NULL
+) TABLESPACE filmspace ROW_FORMAT=COMPACT;
+ALTER TABLE genre AUTO_INCREMENT=1000;
+
+CREATE TABLE IF NOT EXISTS film_genre (
+    film_id     INT NOT NULL references film(id) ON DELETE CASCADE,
+    genre_id    INT NOT NULL references genre(id) ON DELETE CASCADE,
+
+    PRIMARY KEY (film_id, genre_id),
+    INDEX film_genre_genre_id_idx(genre_id)
+) TABLESPACE filmspace ROW_FORMAT=COMPACT;
+
+-- https://dev.mysql.com/doc/refman/8.1/en/with.html#common-table-expressions-recursive
+INSERT IGNORE INTO genre (name)
+    WITH RECURSIVE split (name, rest) AS (
+        SELECT SUBSTRING_INDEX(genres, ',', 1), SUBSTRING(genres, LENGTH(SUBSTRING_INDEX(genres, ',', 1)) + 2)
+        FROM film
+        WHERE genres IS NOT NULL AND genres <> ''
+        UNION ALL
+        SELECT SUBSTRING_INDEX(rest, ',', 1), SUBSTRING(rest, LENGTH(SUBSTRING_INDEX(rest, ',', 1)) + 2)
+        FROM split
+        WHERE rest <> ''
+    )
+    SELECT DISTINCT UPPER(TRIM(name)) FROM split WHERE TRIM(name) <> '';
+
+-- https://dev.mysql.com/doc/refman/8.1/en/string-functions.html#function_find-in-set
+INSERT IGNORE INTO film_genre (film_id, genre_id)
+    SELECT film.id, genre.id
+    FROM film INNER JOIN genre ON FIND_IN_SET(genre.name, UPPER(REPLACE(film.genres, ' ', ''))) > 0;
+
+ALTER TABLE film DROP COLUMN genres;
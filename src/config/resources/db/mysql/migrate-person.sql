@@ -0,0 +1,68 @@
+-- Copyright (C) 2024 - present Juergen Zimmermann, Hochschule Karlsruhe
+--
+-- This program is free software: you can redistribute it and/or modify
+-- it under the terms of the GNU General Public License as published by
+-- the Free Software Foundation, either version 3 of the License, or
+-- (at your option) any later version.
+--
+-- This program is distributed in the hope that it will be useful,
+-- but WITHOUT ANY WARRANTY; without even the implied warranty of
+-- MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+-- GNU General Public License for more details.
+--
+-- You should have received a copy of the GNU General Public License
+-- along with this program.  If not, see <https://www.gnu.org/licenses/>.
+
+-- Migration einer bestehenden DB: die Tabelle schauspieler (je Film eine Kopie
+-- der Personendaten) wird in die Tabellen person und besetzung ueberfuehrt.
+-- Schauspieler mit derselben Emailadresse (ohne Gross-/Kleinschreibung) werden
+-- zu einer Person zusammengefasst; dabei gewinnt der zuletzt angelegte
+-- Datensatz. Schauspieler ohne Emailadresse werden jeweils zu einer eigenen
+-- Person. Danach wird die Tabelle schauspieler geloescht.
+--
+-- docker compose exec db bash
+-- mysql --user=film --password=p film < /sql/migrate-person.sql
+
+CREATE TABLE IF NOT EXISTS person (
+    id              INT NOT NULL PRIMARY KEY AUTO_INCREMENT,
+    vorname         VARCHAR(40) NOT NULL,
+    nachname        VARCHAR(40) NOT NULL,
+    geschlecht      VARCHAR(20),
+    email           VARCHAR(40) UNIQUE,
+    telefonnummer   VARCHAR(40)
+) TABLESPACE filmspace ROW_FORMAT=COMPACT;
+ALTER TABLE person AUTO_INCREMENT=1000;
+
+CREATE TABLE IF NOT EXISTS besetzung (
+    id              INT NOT NULL PRIMARY KEY AUTO_INCREMENT,
+    rolle           VARCHAR(40),
+    reihenfolge     INT NOT NULL DEFAULT 1 CHECK (reihenfolge > 0),
+    film_id         INT NOT NULL references film(id) ON DELETE CASCADE,
+    person_id       INT NOT NULL references person(id) ON DELETE CASCADE,
+
+    INDEX besetzung_film_id_idx(film_id),
+    INDEX besetzung_person_id_idx(person_id)
+) TABLESPACE filmspace ROW_FORMAT=COMPACT;
+ALTER TABLE besetzung AUTO_INCREMENT=1000;
+
+-- temporaere Zuordnung zum urspruenglichen Schauspieler
+ALTER TABLE person ADD COLUMN schauspieler_id INT;
+
+INSERT INTO person (vorname, nachname, geschlecht, email, telefonnummer, schauspieler_id)
+    SELECT s.vorname, s.nachname, s.geschlecht, s.email, s.telefonnummer, s.id
+    FROM schauspieler s
+    WHERE s.id IN (SELECT MAX(id) FROM schauspieler WHERE email IS NOT NULL GROUP BY LOWER(email));
+
+INSERT INTO person (vorname, nachname, geschlecht, email, telefonnummer, schauspieler_id)
+    SELECT vorname, nachname, geschlecht, NULL, telefonnummer, id
+    FROM schauspieler
+    WHERE email IS NULL;
+
+-- https://dev.mysql.com/doc/refman/8.1/en/window-function-descriptions.html#function_row-number
+INSERT INTO besetzung (rolle, reihenfolge, film_id, person_id)
+    SELECT NULL, ROW_NUMBER() OVER (PARTITION BY s.film_id ORDER BY s.id), s.film_id, p.id
+    FROM schauspieler s INNER JOIN person p
+        ON LOWER(p.email) = LOWER(s.email) OR (s.email IS NULL AND p.schauspieler_id = s.id);
+
+ALTER TABLE person DROP COLUMN schauspieler_id;
+DROP TABLE schauspieler;
@@ -24,6 +24,11 @@ CREATE SCHEMA IF NOT EXISTS AUTHORIZATION film;
 
 ALTER ROLE film SET search_path = 'film';
 
+-- https://www.postgresql.org/docs/current/pgtrgm.html
+-- Trigramme fuer die fehlertolerante Autovervollstaendigung von Titeln
+-- "trusted extension", d.h. kein Superuser erforderlich
+CREATE EXTENSION IF NOT EXISTS pg_trgm;
+
 -- https://www.postgresql.org/docs/current/sql-createtable.html
 -- https://www.postgresql.org/docs/current/datatype.html
 CREATE TABLE IF NOT EXISTS film (
@@ -42,7 +47,6 @@ CREATE TABLE IF NOT EXISTS film (
     dauer         integer NOT NULL CHECK (dauer > 0),
     sprache       varchar(40) NOT NULL,
     direktor      varchar(40) NOT NULL,
-    genres        varchar(64),
                   -- https://www.postgresql.org/docs/current/datatype-datetime.html
     erzeugt       timestamp NOT NULL DEFAULT NOW(),
     aktualisiert  timestamp NOT NULL DEFAULT NOW()
@@ -57,13 +61,50 @@ CREATE TABLE IF NOT EXISTS titel (
 ) TABLESPACE filmspace;
 
 
-CREATE TABLE IF NOT EXISTS schauspieler (
+-- Personen unabhaengig von den Filmen: eine Emailadresse gibt es nur einmal
+CREATE TABLE IF NOT EXISTS person (
     id              integer GENERATED ALWAYS AS IDENTITY(START WITH 1000) PRIMARY KEY USING INDEX TABLESPACE filmspace,
     vorname         varchar(40) NOT NULL,
     nachname        varchar(40) NOT NULL,
     geschlecht      varchar(20),
-    email           varchar(40),
-    telefonnummer   varchar(40),
-    film_id         integer NOT NULL REFERENCES film
+    email           varchar(40) UNIQUE USING INDEX TABLESPACE filmspace,
+    telefonnummer   varchar(40)
+) TABLESPACE filmspace;
+
+-- Besetzung als m:n-Beziehung zwischen film und person mit Rolle und Reihenfolge
+CREATE TABLE IF NOT EXISTS besetzung (
+    id              integer GENERATED ALWAYS AS IDENTITY(START WITH 1000) PRIMARY KEY USING INDEX TABLESPACE filmspace,
+    rolle           varchar(40),
+    reihenfolge     integer NOT NULL DEFAULT 1 CHECK (reihenfolge > 0),
+    film_id         integer NOT NULL REFERENCES film ON DELETE CASCADE,
+    person_id       integer NOT NULL REFERENCES person ON DELETE CASCADE
+) TABLESPACE filmspace;
+CREATE INDEX IF NOT EXISTS besetzung_film_id_idx ON besetzung(film_id) TABLESPACE filmspace;
+CREATE INDEX IF NOT EXISTS besetzung_person_id_idx ON besetzung(person_id) TABLESPACE filmspace;
+
+-- Genre-Katalog mit m:n-Beziehung zu film
+CREATE TABLE IF NOT EXISTS genre (
+    id              integer GENERATED ALWAYS AS IDENTITY(START WITH 1000) PRIMARY KEY USING INDEX TABLESPACE filmspace,
+    name            varchar(40) NOT NULL UNIQUE USING INDEX TABLESPACE filmspace
+) TABLESPACE filmspace;
+
+CREATE TABLE IF NOT EXISTS film_genre (
+    film_id         integer NOT NULL REFERENCES film ON DELETE CASCADE,
+    genre_id        integer NOT NULL REFERENCES genre ON DELETE CASCADE,
+    PRIMARY KEY (film_id, genre_id) USING INDEX TABLESPACE filmspace
 ) TABLESPACE filmspace;
-CREATE INDEX IF NOT EXISTS schauspieler_film_id_idx ON schauspieler(film_id) TABLESPACE filmspace;
+CREATE INDEX IF NOT EXISTS film_genre_genre_id_idx ON film_genre(genre_id) TABLESPACE filmspace;
+
+-- https://www.postgresql.org/docs/current/textsearch-tables.html#TEXTSEARCH-TABLES-INDEX
+-- GIN-Indexe fuer die Volltextsuche mit dem Query-Parameter q
+-- CAVEAT: die Ausdruecke muessen zu src/film/service/volltext.ts passen
+CREATE INDEX IF NOT EXISTS titel_volltext_idx ON titel USING gin (
+    to_tsvector('simple', coalesce(titel, '') || ' ' || coalesce(originaltitel, '') || ' ' || coalesce(serienname, ''))
+) TABLESPACE filmspace;
+CREATE INDEX IF NOT EXISTS film_direktor_volltext_idx ON film USING gin (to_tsvector('simple', direktor)) TABLESPACE filmspace;
+CREATE INDEX IF NOT EXISTS person_volltext_idx ON person USING gin (to_tsvector('simple', vorname || ' ' || nachname)) TABLESPACE filmspace;
+
+-- https://www.postgresql.org/docs/current/pgtrgm.html#PGTRGM-INDEX
+-- GIN-Indexe fuer die Autovervollstaendigung mit word_similarity() bzw. <%
+CREATE INDEX IF NOT EXISTS titel_titel_trgm_idx ON titel USING gin (titel gin_trgm_ops) TABLESPACE filmspace;
+CREATE INDEX IF NOT EXISTS titel_originaltitel_trgm_idx ON titel USING gin (originaltitel gin_trgm_ops) TABLESPACE filmspace;
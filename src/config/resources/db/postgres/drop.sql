@@ -15,7 +15,10 @@
 
 -- https://www.postgresql.org/docs/current/sql-droptable.html
 
+DROP TABLE IF EXISTS film_genre CASCADE;
+DROP TABLE IF EXISTS genre CASCADE;
 DROP TABLE IF EXISTS titel CASCADE;
-DROP TABLE IF EXISTS schauspieler CASCADE;
+DROP TABLE IF EXISTS besetzung CASCADE;
+DROP TABLE IF EXISTS person CASCADE;
 DROP TABLE IF EXISTS film CASCADE;
 
@@ -0,0 +1,52 @@
+-- Copyright (C) 2024 - present Juergen Zimmermann, Hochschule Karlsruhe
+--
+-- This program is free software: you can redistribute it and/or modify
+-- it under the terms of the GNU General Public License as published by
+-- the Free Software Foundation, either version 3 of the License, or
+-- (at your option) any later version.
+--
+-- This program is distributed in the hope that it will be useful,
+-- but WITHOUT ANY WARRANTY; without even the implied warranty of
+-- MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+-- GNU General Public License for more details.
+--
+-- You should have received a copy of the GNU General Public License
+-- along with this program.  If not, see <https://www.gnu.org/licenses/>.
+
+-- Migration einer bestehenden DB: die Spalte film.genres ("simple-array", d.h.
+-- durch Komma getrennt) wird in den Genre-Katalog und die Join-Tabelle
+-- film_genre ueberfuehrt. Danach wird die Spalte film.genres geloescht.
+--
+-- docker compose exec db bash
+-- psql --dbname=film --username=film --file=/sql/migrate-genre.sql
+
+BEGIN;
+
+CREATE TABLE IF NOT EXISTS genre (
+    id              integer GENERATED ALWAYS AS IDENTITY(START WITH 1000) PRIMARY KEY USING INDEX TABLESPACE filmspace,
+    name            varchar(40) NOT NULL UNIQUE USING INDEX TABLESPACE filmspace
+) TABLESPACE filmspace;
+
+CREATE TABLE IF NOT EXISTS film_genre (
+    film_id         integer NOT NULL REFERENCES film ON DELETE CASCADE,
+    genre_id        integer NOT NULL REFERENCES genre ON DELETE CASCADE,
+    PRIMARY KEY (film_id, genre_id) USING INDEX TABLESPACE filmspace
+) TABLESPACE filmspace;
+CREATE INDEX IF NOT EXISTS film_genre_genre_id_idx ON film_genre(genre_id) TABLESPACE filmspace;
+
+-- https://www.postgresql.org/docs/current/functions-array.html
+INSERT INTO genre (name)
+    SELECT DISTINCT upper(trim(g.name))
+    FROM film CROSS JOIN LATERAL unnest(string_to_array(film.genres, ',')) AS g(name)
+    WHERE trim(g.name) <> ''
+ON CONFLICT (name) DO NOTHING;
+
+INSERT INTO film_genre (film_id, genre_id)
+    SELECT DISTINCT film.id, genre.id
+    FROM film CROSS JOIN LATERAL unnest(string_to_array(film.genres, ',')) AS g(name)
+    INNER JOIN genre ON genre.name = upper(trim(g.name))
+ON CONFLICT DO NOTHING;
+
+ALTER TABLE film DROP COLUMN IF EXISTS genres;
+
+COMMIT;
@@ -0,0 +1,71 @@
+-- Copyright (C) 2024 - present Juergen Zimmermann, Hochschule Karlsruhe
+--
+-- This program is free software: you can redistribute it and/or modify
+-- it under the terms of the GNU General Public License as published by
+-- the Free Software Foundation, either version 3 of the License, or
+-- (at your option) any later version.
+--
+-- This program is distributed in the hope that it will be useful,
+-- but WITHOUT ANY WARRANTY; without even the implied warranty of
+-- MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+-- GNU General Public License for more details.
+--
+-- You should have received a copy of the GNU General Public License
+-- along with this program.  If not, see <https://www.gnu.org/licenses/>.
+
+-- Migration einer bestehenden DB: die Tabelle schauspieler (je Film eine Kopie
+-- der Personendaten) wird in die Tabellen person und besetzung ueberfuehrt.
+-- Schauspieler mit derselben Emailadresse (ohne Gross-/Kleinschreibung) werden
+-- zu einer Person zusammengefasst; dabei gewinnt der zuletzt angelegte
+-- Datensatz. Schauspieler ohne Emailadresse werden jeweils zu einer eigenen
+-- Person. Danach wird die Tabelle schauspieler geloescht.
+--
+-- docker compose exec db bash
+-- psql --dbname=film --username=film --file=/sql/migrate-person.sql
+
+BEGIN;
+
+CREATE TABLE IF NOT EXISTS person (
+    id              integer GENERATED ALWAYS AS IDENTITY(START WITH 1000) PRIMARY KEY USING INDEX TABLESPACE filmspace,
+    vorname         varchar(40) NOT NULL,
+    nachname        varchar(40) NOT NULL,
+    geschlecht      varchar(20),
+    email           varchar(40) UNIQUE USING INDEX TABLESPACE filmspace,
+    telefonnummer   varchar(40)
+) TABLESPACE filmspace;
+
+CREATE TABLE IF NOT EXISTS besetzung (
+    id              integer GENERATED ALWAYS AS IDENTITY(START WITH 1000) PRIMARY KEY USING INDEX TABLESPACE filmspace,
+    rolle           varchar(40),
+    reihenfolge     integer NOT NULL DEFAULT 1 CHECK (reihenfolge > 0),
+    film_id         integer NOT NULL REFERENCES film ON DELETE CASCADE,
+    person_id       integer NOT NULL REFERENCES person ON DELETE CASCADE
+) TABLESPACE filmspace;
+CREATE INDEX IF NOT EXISTS besetzung_film_id_idx ON besetzung(film_id) TABLESPACE filmspace;
+CREATE INDEX IF NOT EXISTS besetzung_person_id_idx ON besetzung(person_id) TABLESPACE filmspace;
+
+-- temporaere Zuordnung zum urspruenglichen Schauspieler
+ALTER TABLE person ADD COLUMN schauspieler_id integer;
+
+-- https://www.postgresql.org/docs/current/sql-select.html#SQL-DISTINCT
+INSERT INTO person (vorname, nachname, geschlecht, email, telefonnummer, schauspieler_id)
+    SELECT DISTINCT ON (lower(email)) vorname, nachname, geschlecht, email, telefonnummer, id
+    FROM schauspieler
+    WHERE email IS NOT NULL
+    ORDER BY lower(email), id DESC;
+
+INSERT INTO person (vorname, nachname, geschlecht, email, telefonnummer, schauspieler_id)
+    SELECT vorname, nachname, geschlecht, NULL, telefonnummer, id
+    FROM schauspieler
+    WHERE email IS NULL;
+
+-- https://www.postgresql.org/docs/current/functions-window.html
+INSERT INTO besetzung (rolle, reihenfolge, film_id, person_id)
+    SELECT NULL, row_number() OVER (PARTITION BY s.film_id ORDER BY s.id), s.film_id, p.id
+    FROM schauspieler s INNER JOIN person p
+        ON lower(p.email) = lower(s.email) OR (s.email IS NULL AND p.schauspieler_id = s.id);
+
+ALTER TABLE person DROP COLUMN schauspieler_id;
+DROP TABLE schauspieler;
+
+COMMIT;
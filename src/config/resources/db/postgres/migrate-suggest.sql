@@ -0,0 +1,31 @@
+-- Copyright (C) 2024 - present Juergen Zimmermann, Hochschule Karlsruhe
+--
+-- This program is free software: you can redistribute it and/or modify
+-- it under the terms of the GNU General Public License as published by
+-- the Free Software Foundation, either version 3 of the License, or
+-- (at your option) any later version.
+--
+-- This program is distributed in the hope that it will be useful,
+-- but WITHOUT ANY WARRANTY; without even the implied warranty of
+-- MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+-- GNU General Public License for more details.
+--
+-- You should have received a copy of the GNU General Public License
+-- along with this program.  If not, see <https://www.gnu.org/licenses/>.
+
+-- Migration einer bestehenden DB: Extension pg_trgm und GIN-Indexe fuer die
+-- fehlertolerante Autovervollstaendigung von Titeln und Originaltiteln.
+--
+-- docker compose exec db bash
+-- psql --dbname=film --username=film --file=/sql/migrate-suggest.sql
+
+BEGIN;
+
+CREATE EXTENSION IF NOT EXISTS pg_trgm;
+
+-- https://www.postgresql.org/docs/current/pgtrgm.html#PGTRGM-INDEX
+-- GIN-Indexe fuer die Autovervollstaendigung mit word_similarity() bzw. <%
+CREATE INDEX IF NOT EXISTS titel_titel_trgm_idx ON titel USING gin (titel gin_trgm_ops) TABLESPACE filmspace;
+CREATE INDEX IF NOT EXISTS titel_originaltitel_trgm_idx ON titel USING gin (originaltitel gin_trgm_ops) TABLESPACE filmspace;
+
+COMMIT;
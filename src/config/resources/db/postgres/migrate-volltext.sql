@@ -0,0 +1,34 @@
+-- Copyright (C) 2024 - present Juergen Zimmermann, Hochschule Karlsruhe
+--
+-- This program is free software: you can redistribute it and/or modify
+-- it under the terms of the GNU General Public License as published by
+-- the Free Software Foundation, either version 3 of the License, or
+-- (at your option) any later version.
+--
+-- This program is distributed in the hope that it will be useful,
+-- but WITHOUT ANY WARRANTY; without even the implied warranty of
+-- MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+-- GNU General Public License for more details.
+--
+-- You should have received a copy of the GNU General Public License
+-- along with this program.  If not, see <https://www.gnu.org/licenses/>.
+
+-- Migration einer bestehenden DB: GIN-Indexe fuer die Volltextsuche mit dem
+-- Query-Parameter q in Titel, Originaltitel, Serienname, Direktor und den
+-- Namen der Schauspieler.
+--
+-- docker compose exec db bash
+-- psql --dbname=film --username=film --file=/sql/migrate-volltext.sql
+
+BEGIN;
+
+-- https://www.postgresql.org/docs/current/textsearch-tables.html#TEXTSEARCH-TABLES-INDEX
+-- GIN-Indexe fuer die Volltextsuche mit dem Query-Parameter q
+-- CAVEAT: die Ausdruecke muessen zu src/film/service/volltext.ts passen
+CREATE INDEX IF NOT EXISTS titel_volltext_idx ON titel USING gin (
+    to_tsvector('simple', coalesce(titel, '') || ' ' || coalesce(originaltitel, '') || ' ' || coalesce(serienname, ''))
+) TABLESPACE filmspace;
+CREATE INDEX IF NOT EXISTS film_direktor_volltext_idx ON film USING gin (to_tsvector('simple', direktor)) TABLESPACE filmspace;
+CREATE INDEX IF NOT EXISTS person_volltext_idx ON person USING gin (to_tsvector('simple', vorname || ' ' || nachname)) TABLESPACE filmspace;
+
+COMMIT;
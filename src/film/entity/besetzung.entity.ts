@@ -0,0 +1,67 @@
+/*
+ * Copyright (C) 2024 - present Juergen Zimmermann, Hochschule Karlsruhe
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with this program.  If not, see <https://www.gnu.org/licenses/>.
+ */
+
+/**
+ * Das Modul besteht aus der Entity-Klasse für die Besetzung eines Filmes.
+ * @packageDocumentation
+ */
+
+import {
+    Column,
+    Entity,
+    JoinColumn,
+    ManyToOne,
+    PrimaryGeneratedColumn,
+} from 'typeorm';
+import { Film } from './film.entity.js';
+import { Person } from './person.entity.js';
+
+/**
+ * Entity-Klasse für die m:n-Beziehung zwischen {@linkcode Film} und
+ * {@linkcode Person} mit der Rolle und der Reihenfolge im Abspann.
+ */
+@Entity()
+export class Besetzung {
+    @Column('int')
+    // https://typeorm.io/entities#primary-columns
+    // CAVEAT: zuerst @Column() und erst dann @PrimaryGeneratedColumn()
+    @PrimaryGeneratedColumn()
+    id: number | undefined;
+
+    /** Name der Figur, die die Person im Film spielt. */
+    @Column('varchar', { length: 40 })
+    readonly rolle: string | undefined;
+
+    /** Reihenfolge im Abspann ("Billing"), beginnend mit 1. */
+    @Column('int')
+    readonly reihenfolge: number | undefined;
+
+    @ManyToOne(() => Film, (film) => film.besetzung)
+    @JoinColumn({ name: 'film_id' })
+    film: Film | undefined;
+
+    @ManyToOne(() => Person, (person) => person.besetzungen)
+    @JoinColumn({ name: 'person_id' })
+    person: Person | undefined;
+
+    public toString = (): string =>
+        JSON.stringify({
+            id: this.id,
+            rolle: this.rolle,
+            reihenfolge: this.reihenfolge,
+        });
+}
@@ -15,9 +15,11 @@
  * along with this program.  If not, see <https://www.gnu.org/licenses/>.
  */
 
+import { Besetzung } from './besetzung.entity.js';
 import { Film } from './film.entity.js';
-import { Schauspieler } from './schauspieler.entity.js';
+import { Genre } from './genre.entity.js';
+import { Person } from './person.entity.js';
 import { Titel } from './titel.entity.js';
 
 // erforderlich in src/config/db.ts und src/film/film.module.ts
-export const entities = [Schauspieler, Film, Titel];
+export const entities = [Person, Besetzung, Film, Titel, Genre];
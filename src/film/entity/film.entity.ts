@@ -43,6 +43,8 @@ import {
     Column,
     CreateDateColumn,
     Entity,
+    JoinTable,
+    ManyToMany,
     OneToMany,
     OneToOne,
     PrimaryGeneratedColumn,
@@ -50,7 +52,8 @@ import {
     VersionColumn,
 } from 'typeorm';
 import { ApiProperty } from '@nestjs/swagger';
-import { Schauspieler } from './schauspieler.entity.js';
+import { Besetzung } from './besetzung.entity.js';
+import { Genre } from './genre.entity.js';
 import { Titel } from './titel.entity.js';
 import { dbType } from '../../config/dbtype.js';
 
@@ -91,22 +94,26 @@ export class Film {
     @ApiProperty({ example: 'James Cameron', type: String })
     readonly direktor: string | undefined;
 
-    @Column('simple-array')
-    readonly genres: string[] | undefined;
+    // https://typeorm.io/many-to-many-relations
+    @ManyToMany(() => Genre)
+    @JoinTable({
+        name: 'film_genre',
+        joinColumn: { name: 'film_id' },
+        inverseJoinColumn: { name: 'genre_id' },
+    })
+    readonly genres: Genre[] | undefined;
 
     @OneToOne(() => Titel, (titel: Titel) => titel.film, {
         cascade: ['insert', 'remove'],
     })
     readonly titel!: Titel;
 
-    @OneToMany(
-        () => Schauspieler,
-        (schauspieler: Schauspieler) => schauspieler.film,
-        {
-            cascade: ['insert', 'remove'],
-        },
-    )
-    readonly schauspielers!: Schauspieler[];
+    // Die Personen werden unabhaengig von den Filmen verwaltet und ueber die
+    // Besetzung mit Rolle und Reihenfolge zugeordnet
+    @OneToMany(() => Besetzung, (besetzung: Besetzung) => besetzung.film, {
+        cascade: ['insert', 'remove'],
+    })
+    readonly besetzung: Besetzung[] | undefined;
 
     // https://typeorm.io/entities#special-columns
     // https://typeorm.io/entities#column-types-for-postgres
@@ -136,6 +143,6 @@ export class Film {
             dauer: this.dauer,
             sprache: this.sprache,
             direktor: this.direktor,
-            genres: this.genres,
+            genres: this.genres?.map((genre) => genre.name),
         });
 }
@@ -0,0 +1,47 @@
+/*
+ * Copyright (C) 2024 - present Juergen Zimmermann, Hochschule Karlsruhe
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with this program.  If not, see <https://www.gnu.org/licenses/>.
+ */
+
+/**
+ * Das Modul besteht aus der Entity-Klasse für ein Genre im Genre-Katalog.
+ * @packageDocumentation
+ */
+
+import { Column, Entity, PrimaryGeneratedColumn } from 'typeorm';
+import { ApiProperty } from '@nestjs/swagger';
+
+/**
+ * Entity-Klasse für ein Genre, das von einem Administrator verwaltet und
+ * Filmen zugeordnet wird.
+ */
+@Entity()
+export class Genre {
+    @Column('int')
+    // https://typeorm.io/entities#primary-columns
+    // CAVEAT: zuerst @Column() und erst dann @PrimaryGeneratedColumn()
+    @PrimaryGeneratedColumn()
+    id: number | undefined;
+
+    @Column('varchar', { unique: true, length: 40 })
+    @ApiProperty({ example: 'HORROR', type: String })
+    readonly name!: string;
+
+    public toString = (): string =>
+        JSON.stringify({
+            id: this.id,
+            name: this.name,
+        });
+}
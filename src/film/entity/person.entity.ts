@@ -1,5 +1,5 @@
 /*
- * Copyright (C) 2023 - present Juergen Zimmermann, Florian Goebel, Hochschule Karlsruhe
+ * Copyright (C) 2024 - present Juergen Zimmermann, Hochschule Karlsruhe
  *
  * This program is free software: you can redistribute it and/or modify
  * it under the terms of the GNU General Public License as published by
@@ -15,17 +15,21 @@
  * along with this program.  If not, see <https://www.gnu.org/licenses/>.
  */
 
-import {
-    Column,
-    Entity,
-    JoinColumn,
-    ManyToOne,
-    PrimaryGeneratedColumn,
-} from 'typeorm';
-import { Film } from './film.entity.js';
+/**
+ * Das Modul besteht aus der Entity-Klasse für eine Person, die unabhängig von
+ * den Filmen verwaltet wird.
+ * @packageDocumentation
+ */
+
+import { Column, Entity, OneToMany, PrimaryGeneratedColumn } from 'typeorm';
+import { Besetzung } from './besetzung.entity.js';
 
+/**
+ * Entity-Klasse für eine Person, die über eine {@linkcode Besetzung} in
+ * beliebig vielen Filmen mitwirkt. Die Emailadresse ist eindeutig.
+ */
 @Entity()
-export class Schauspieler {
+export class Person {
     @Column('int')
     // https://typeorm.io/entities#primary-columns
     // CAVEAT: zuerst @Column() und erst dann @PrimaryGeneratedColumn()
@@ -41,15 +45,14 @@ export class Schauspieler {
     @Column('varchar', { length: 20 })
     readonly geschlecht: string | undefined;
 
-    @Column('varchar', { length: 40 })
+    @Column('varchar', { unique: true, length: 40 })
     readonly email: string | undefined;
 
     @Column('varchar', { length: 40 })
     readonly telefonnummer: string | undefined;
 
-    @ManyToOne(() => Film, (film) => film.schauspielers)
-    @JoinColumn({ name: 'film_id' })
-    film: Film | undefined;
+    @OneToMany(() => Besetzung, (besetzung: Besetzung) => besetzung.person)
+    readonly besetzungen: Besetzung[] | undefined;
 
     public toString = (): string =>
         JSON.stringify({
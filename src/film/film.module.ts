@@ -14,16 +14,30 @@
  * You should have received a copy of the GNU General Public License
  * along with this program.  If not, see <https://www.gnu.org/licenses/>.
  */
+import { FilmPubSub, InMemoryFilmPubSub } from './service/film-pubsub.js';
 import { AuthModule } from '../security/auth/auth.module.js';
 import { FilmGetController } from './rest/film-get.controller.js';
+import { FilmLoader } from './graphql/film.loader.js';
 import { FilmMutationResolver } from './graphql/film-mutation.resolver.js';
 import { FilmQueryResolver } from './graphql/film-query.resolver.js';
 import { FilmReadService } from './service/film-read.service.js';
+import { FilmSubscriptionResolver } from './graphql/film-subscription.resolver.js';
 import { FilmWriteController } from './rest/film-write.controller.js';
 import { FilmWriteService } from './service/film-write.service.js';
+import { GenreController } from './rest/genre.controller.js';
+import { GenreService } from './service/genre.service.js';
 import { MailModule } from '../mail/mail.module.js';
 import { Module } from '@nestjs/common';
+import { NodeResolver } from './graphql/node.resolver.js';
+import { PersonGetController } from './rest/person-get.controller.js';
+import { PersonService } from './service/person.service.js';
+import { PersonWriteController } from './rest/person-write.controller.js';
 import { QueryBuilder } from './service/query-builder.js';
+import { SchauspielerGetController } from './rest/schauspieler-get.controller.js';
+import { SchauspielerService } from './service/schauspieler.service.js';
+import { SchauspielerWriteController } from './rest/schauspieler-write.controller.js';
+import { SuggestController } from './rest/suggest.controller.js';
+import { SuggestService } from './service/suggest.service.js';
 import { TypeOrmModule } from '@nestjs/typeorm';
 import { entities } from './entity/entities.js';
 
@@ -39,14 +53,34 @@ import { entities } from './entity/entities.js';
  */
 @Module({
     imports: [MailModule, TypeOrmModule.forFeature(entities), AuthModule],
-    controllers: [FilmGetController, FilmWriteController],
+    // GenreController, Person-Controller und SuggestController vor
+    // FilmGetController wegen "/rest/:id"
+    controllers: [
+        GenreController,
+        PersonGetController,
+        PersonWriteController,
+        SuggestController,
+        FilmGetController,
+        FilmWriteController,
+        SchauspielerGetController,
+        SchauspielerWriteController,
+    ],
     // Provider sind z.B. Service-Klassen fuer DI
     providers: [
+        FilmLoader,
         FilmReadService,
         FilmWriteService,
         FilmQueryResolver,
         FilmMutationResolver,
+        FilmSubscriptionResolver,
+        // im Speicher fuer eine einzelne Instanz, z.B. mit Redis bei mehreren Instanzen
+        { provide: FilmPubSub, useClass: InMemoryFilmPubSub },
+        GenreService,
+        NodeResolver,
+        PersonService,
         QueryBuilder,
+        SchauspielerService,
+        SuggestService,
     ],
     // Export der Provider fuer DI in anderen Modulen
     exports: [FilmReadService, FilmWriteService],
@@ -20,8 +20,23 @@
  * @packageDocumentation
  */
 
+/* eslint-disable max-classes-per-file */
+import { type FieldError } from '../../validation/validation.pipe.js';
 import { GraphQLError } from 'graphql';
 
+/**
+ * Die Codes in `extensions` der Fehler bei GraphQL, siehe auch das Enum
+ * `ErrorCode` in `schema.graphql`.
+ */
+export type ErrorCode =
+    | 'BAD_USER_INPUT'
+    | 'CONFLICT'
+    | 'FORBIDDEN'
+    | 'NOT_FOUND'
+    | 'UNAUTHENTICATED'
+    | 'VALIDATION_FAILED'
+    | 'VERSION_MISMATCH';
+
 // https://www.apollographql.com/docs/apollo-server/data/errors
 /**
  * Error-Klasse für GraphQL, die einen Response mit `errors` und
@@ -39,3 +54,111 @@ export class BadUserInputError extends GraphQLError {
         });
     }
 }
+
+/**
+ * Error-Klasse für GraphQL, die einen Response mit `errors` und
+ * code `VERSION_MISMATCH` produziert, falls die Versionsnummer beim
+ * Aktualisieren veraltet oder ungültig ist.
+ */
+export class VersionMismatchError extends GraphQLError {
+    // eslint-disable-next-line unicorn/custom-error-definition
+    constructor(message: string, exception?: Error) {
+        super(message, {
+            originalError: exception,
+            extensions: {
+                code: 'VERSION_MISMATCH',
+            },
+        });
+    }
+}
+
+/**
+ * Error-Klasse für GraphQL, die einen Response mit `errors` und
+ * code `NOT_FOUND` produziert, z.B. zu einer nicht-vorhandenen ID.
+ */
+export class NotFoundError extends GraphQLError {
+    // eslint-disable-next-line unicorn/custom-error-definition
+    constructor(message: string, exception?: Error) {
+        super(message, {
+            originalError: exception,
+            extensions: {
+                code: 'NOT_FOUND',
+            },
+        });
+    }
+}
+
+/**
+ * Error-Klasse für GraphQL, die einen Response mit `errors` und
+ * code `UNAUTHENTICATED` produziert, falls es keinen gültigen Token gibt.
+ */
+export class UnauthenticatedError extends GraphQLError {
+    // eslint-disable-next-line unicorn/custom-error-definition
+    constructor(message: string, exception?: Error) {
+        super(message, {
+            originalError: exception,
+            extensions: {
+                // https://www.apollographql.com/docs/apollo-server/data/errors/#unauthenticated
+                code: 'UNAUTHENTICATED',
+            },
+        });
+    }
+}
+
+/**
+ * Error-Klasse für GraphQL, die einen Response mit `errors` und
+ * code `FORBIDDEN` produziert, falls die Rollen beim Token nicht ausreichen.
+ */
+export class ForbiddenError extends GraphQLError {
+    // eslint-disable-next-line unicorn/custom-error-definition
+    constructor(message: string, exception?: Error) {
+        super(message, {
+            originalError: exception,
+            extensions: {
+                // https://www.apollographql.com/docs/apollo-server/data/errors/#forbidden
+                code: 'FORBIDDEN',
+            },
+        });
+    }
+}
+
+/**
+ * Error-Klasse für GraphQL, die einen Response mit `errors` und
+ * code `CONFLICT` produziert, z.B. bei einem bereits existierenden Titel.
+ */
+export class ConflictError extends GraphQLError {
+    // eslint-disable-next-line unicorn/custom-error-definition
+    constructor(message: string, exception?: Error) {
+        super(message, {
+            originalError: exception,
+            extensions: {
+                code: 'CONFLICT',
+            },
+        });
+    }
+}
+
+/**
+ * Error-Klasse für GraphQL, die einen Response mit `errors` und
+ * code `VALIDATION_FAILED` produziert. In `extensions` sind unter
+ * `validationErrors` die verletzten Constraints je Feld enthalten.
+ */
+export class ValidationFailedError extends GraphQLError {
+    // die Regel meldet das Ende der mehrzeiligen Parameterliste
+    /* eslint-disable unicorn/custom-error-definition */
+    constructor(
+        message: string,
+        validationErrors: readonly FieldError[],
+        exception?: Error,
+    ) {
+        /* eslint-enable unicorn/custom-error-definition */
+        super(message, {
+            originalError: exception,
+            extensions: {
+                code: 'VALIDATION_FAILED',
+                validationErrors,
+            },
+        });
+    }
+}
+/* eslint-enable max-classes-per-file */
@@ -0,0 +1,202 @@
+/*
+ * Copyright (C) 2024 - present Juergen Zimmermann, Hochschule Karlsruhe
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with this program.  If not, see <https://www.gnu.org/licenses/>.
+ */
+
+/**
+ * Das Modul besteht aus den Typdefinitionen für den Input-Typ `FilmFilter`
+ * bei GraphQL und der Funktion, die daraus den Syntaxbaum eines Filters
+ * erstellt.
+ * @packageDocumentation
+ */
+
+import {
+    type FilterAusdruck,
+    type FilterOperator,
+    MAX_FILTER_TIEFE,
+    createFilterVergleich,
+} from '../service/filter.js';
+import { FilterInvalidException } from '../service/exceptions.js';
+
+/** Vergleiche für ein Feld, die mit AND verknüpft werden. */
+export interface FeldFilterInput {
+    readonly eq?: number | string | null;
+    readonly in?: readonly (number | string)[] | null;
+    readonly gte?: number | string | null;
+    readonly lte?: number | string | null;
+    /** Teilstring ohne Beachtung der Groß-/Kleinschreibung */
+    readonly contains?: string | null;
+}
+
+/** Vergleiche für die Felder von `Titel` bzw. der Schauspieler. */
+export type FelderFilterInput = Readonly<
+    Record<string, FeldFilterInput | null | undefined>
+>;
+
+/**
+ * Filter für Filme: die Felder werden mit AND verknüpft; `AND`, `OR` und
+ * `NOT` sind beliebig schachtelbar.
+ */
+export interface FilmFilterInput {
+    // eslint-disable-next-line @typescript-eslint/naming-convention
+    readonly AND?: readonly FilmFilterInput[] | null;
+    // eslint-disable-next-line @typescript-eslint/naming-convention
+    readonly OR?: readonly FilmFilterInput[] | null;
+    // eslint-disable-next-line @typescript-eslint/naming-convention
+    readonly NOT?: FilmFilterInput | null;
+    readonly id?: FeldFilterInput | null;
+    readonly rating?: FeldFilterInput | null;
+    readonly filmstart?: FeldFilterInput | null;
+    readonly dauer?: FeldFilterInput | null;
+    readonly sprache?: FeldFilterInput | null;
+    readonly direktor?: FeldFilterInput | null;
+    readonly genres?: FeldFilterInput | null;
+    readonly erzeugt?: FeldFilterInput | null;
+    readonly aktualisiert?: FeldFilterInput | null;
+    readonly titel?: FelderFilterInput | null;
+    readonly schauspieler?: FelderFilterInput | null;
+}
+
+/** Operatoren bei GraphQL und im Syntaxbaum eines Filters */
+const OPERATOREN: ReadonlyMap<string, FilterOperator> = new Map([
+    ['eq', 'eq'],
+    ['in', 'in'],
+    ['gte', 'ge'],
+    ['lte', 'le'],
+    ['contains', 'like'],
+]);
+
+/** Input-Typen mit Feldern, die im Filter z.B. `titel.titel` heißen */
+const VERSCHACHTELT: ReadonlySet<string> = new Set(['titel', 'schauspieler']);
+
+// Argumente ohne Wert bzw. mit null sind keine Vergleiche
+const mitWert = <T>(
+    eintraege: readonly [string, T | null | undefined][],
+): [string, T][] =>
+    eintraege.filter(
+        (eintrag): eintrag is [string, T] =>
+            eintrag[1] !== null && eintrag[1] !== undefined,
+    );
+
+const feldVergleiche = (feld: string, input: FeldFilterInput) =>
+    mitWert(Object.entries(input)).map(([name, wert]) => {
+        const operator = OPERATOREN.get(name);
+        if (operator === undefined) {
+            throw new FilterInvalidException(
+                `Unbekannter Operator "${name}" bei "${feld}"`,
+            );
+        }
+        const werte = (operator === 'in' ? wert : [wert]) as readonly (
+            | number
+            | string
+        )[];
+        return createFilterVergleich(
+            feld,
+            operator,
+            operator === 'like' ? werte.map((w) => `*${w}*`) : werte,
+        );
+    });
+
+const vorhanden = (
+    operanden: readonly (FilterAusdruck | undefined)[],
+): FilterAusdruck[] =>
+    operanden.filter(
+        (operand): operand is FilterAusdruck => operand !== undefined,
+    );
+
+const oder = (
+    operanden: readonly (FilterAusdruck | undefined)[],
+): FilterAusdruck[] => {
+    // ein leerer Filter ist immer erfuellt und damit auch die Verknuepfung mit OR
+    if (operanden.length === 0 || operanden.includes(undefined)) {
+        return [];
+    }
+    return [{ typ: 'or', operanden: vorhanden(operanden) }];
+};
+
+const nicht = (operand: FilterAusdruck | undefined): FilterAusdruck => {
+    if (operand === undefined) {
+        throw new FilterInvalidException(
+            'NOT erfordert mindestens einen Vergleich',
+        );
+    }
+    return { typ: 'not', operand };
+};
+
+const felder = (name: string, wert: unknown) => {
+    if (!VERSCHACHTELT.has(name)) {
+        return feldVergleiche(name, wert as FeldFilterInput);
+    }
+    return mitWert(Object.entries(wert as FelderFilterInput)).flatMap(
+        ([feld, feldInput]) => feldVergleiche(`${name}.${feld}`, feldInput),
+    );
+};
+
+const toFilterAusdruck = (
+    input: FilmFilterInput,
+    tiefe: number,
+): FilterAusdruck | undefined => {
+    if (tiefe > MAX_FILTER_TIEFE) {
+        throw new FilterInvalidException(
+            `Maximal ${MAX_FILTER_TIEFE} geschachtelte Filter sind erlaubt`,
+        );
+    }
+    const kinder = (wert: unknown) =>
+        (wert as FilmFilterInput[]).map((filter) =>
+            toFilterAusdruck(filter, tiefe + 1),
+        );
+    const operanden = mitWert(Object.entries(input)).flatMap(
+        ([name, wert]): FilterAusdruck[] => {
+            switch (name) {
+                case 'AND': {
+                    return vorhanden(kinder(wert));
+                }
+                case 'OR': {
+                    return oder(kinder(wert));
+                }
+                case 'NOT': {
+                    return [
+                        nicht(
+                            toFilterAusdruck(
+                                wert as FilmFilterInput,
+                                tiefe + 1,
+                            ),
+                        ),
+                    ];
+                }
+                default: {
+                    return felder(name, wert);
+                }
+            }
+        },
+    );
+    return operanden.length > 1 ? { typ: 'and', operanden } : operanden[0];
+};
+
+/**
+ * Den Syntaxbaum zum Argument `filter` bei der Query `filme` erstellen.
+ * @param filter Der Input-Typ `FilmFilter`
+ * @returns Der Syntaxbaum oder `undefined`, falls der Filter keine
+ *  Vergleiche enthält
+ * @throws FilterInvalidException falls der Filter ungültig ist
+ */
+export const createFilmFilter = (
+    filter: FilmFilterInput | null | undefined,
+): FilterAusdruck | undefined => {
+    if (filter === null || filter === undefined) {
+        return undefined;
+    }
+    return toFilterAusdruck(filter, 0);
+};
@@ -14,19 +14,27 @@
  * You should have received a copy of the GNU General Public License
  * along with this program.  If not, see <https://www.gnu.org/licenses/>.
  */
+// eslint-disable-next-line max-classes-per-file
 import { Args, Mutation, Resolver } from '@nestjs/graphql';
+import { FilmDTO, FilmDtoOhneRef } from '../rest/filmDTO.entity.js';
+import {
+    type FilmUpdate,
+    FilmWriteService,
+} from '../service/film-write.service.js';
+import { IsInt, IsNotEmpty, Min } from 'class-validator';
 import { UseFilters, UseGuards, UseInterceptors } from '@nestjs/common';
+import { ApiProperty } from '@nestjs/swagger';
+import { type Besetzung } from '../entity/besetzung.entity.js';
 import { type Film } from '../entity/film.entity.js';
-import { FilmDTO } from '../rest/filmDTO.entity.js';
-import { FilmWriteService } from '../service/film-write.service.js';
+import { type GlobalIdInput } from './film-query.resolver.js';
 import { HttpExceptionFilter } from './http-exception.filter.js';
 import { JwtAuthGraphQlGuard } from '../../security/auth/jwt/jwt-auth-graphql.guard.js';
 import { ResponseTimeInterceptor } from '../../logger/response-time.interceptor.js';
 import { RolesAllowed } from '../../security/auth/roles/roles-allowed.decorator.js';
 import { RolesGraphQlGuard } from '../../security/auth/roles/roles-graphql.guard.js';
-import { type Schauspieler } from '../entity/schauspieler.entity.js';
 import { type Titel } from '../entity/titel.entity.js';
 import { getLogger } from '../../logger/logger.js';
+import { toFilmId } from './global-id.js';
 
 // Authentifizierung und Autorisierung durch
 //  GraphQL Shield
@@ -41,6 +49,21 @@ import { getLogger } from '../../logger/logger.js';
 export interface CreatePayload {
     readonly id: number;
 }
+
+export interface UpdatePayload {
+    readonly version: number;
+}
+
+export class FilmUpdateDTO extends FilmDtoOhneRef {
+    // ID als String mit Ziffern oder globale ID, z.B. aus Film.globalId
+    @IsNotEmpty()
+    readonly id!: string;
+
+    @IsInt()
+    @Min(0)
+    @ApiProperty({ example: 0, type: Number })
+    readonly version!: number;
+}
 @Resolver()
 // alternativ: globale Aktivierung der Guards https://docs.nestjs.com/security/authorization#basic-rbac-implementation
 @UseGuards(JwtAuthGraphQlGuard, RolesGraphQlGuard)
@@ -67,6 +90,34 @@ export class FilmMutationResolver {
         return payload;
     }
 
+    @Mutation()
+    @RolesAllowed('admin', 'fachabteilung')
+    async update(@Args('input') filmDTO: FilmUpdateDTO) {
+        this.#logger.debug('update: filmDTO=%o', filmDTO);
+
+        const film = this.#filmUpdateDtoToFilm(filmDTO);
+        const versionStr = `"${filmDTO.version.toString()}"`;
+
+        const versionResult = await this.#service.update({
+            id: toFilmId(filmDTO.id),
+            film,
+            version: versionStr,
+        });
+        this.#logger.debug('update: versionResult=%d', versionResult);
+        const payload: UpdatePayload = { version: versionResult };
+        return payload;
+    }
+
+    @Mutation()
+    @RolesAllowed('admin')
+    async delete(@Args() id: GlobalIdInput) {
+        const idStr = id.id;
+        this.#logger.debug('delete: id=%s', idStr);
+        const deletePerformed = await this.#service.delete(toFilmId(idStr));
+        this.#logger.debug('delete: deletePerformed=%s', deletePerformed);
+        return deletePerformed;
+    }
+
     #filmDtoToFilm(filmDTO: FilmDTO): Film {
         const titelDTO = filmDTO.titel;
         const titel: Titel = {
@@ -76,18 +127,27 @@ export class FilmMutationResolver {
             serienname: titelDTO.serienname,
             film: undefined,
         };
-        const schauspielers = filmDTO.schauspielers.map((schauspielerDTO) => {
-            const schauspieler: Schauspieler = {
-                id: undefined,
-                vorname: schauspielerDTO.vorname,
-                nachname: schauspielerDTO.nachname,
-                geschlecht: schauspielerDTO.geschlecht,
-                email: schauspielerDTO.email,
-                telefonnummer: schauspielerDTO.telefonnummer,
-                film: undefined,
-            };
-            return schauspieler;
-        });
+        // Reihenfolge im Abspann gemaess Array, falls nicht explizit angegeben
+        const besetzung = filmDTO.schauspielers.map(
+            (schauspielerDTO, index) => {
+                const schauspieler: Besetzung = {
+                    id: undefined,
+                    rolle: schauspielerDTO.rolle,
+                    reihenfolge: schauspielerDTO.reihenfolge ?? index + 1,
+                    film: undefined,
+                    person: {
+                        id: undefined,
+                        vorname: schauspielerDTO.vorname,
+                        nachname: schauspielerDTO.nachname,
+                        geschlecht: schauspielerDTO.geschlecht,
+                        email: schauspielerDTO.email,
+                        telefonnummer: schauspielerDTO.telefonnummer,
+                        besetzungen: undefined,
+                    },
+                };
+                return schauspieler;
+            },
+        );
         const film: Film = {
             id: undefined,
             version: undefined,
@@ -96,9 +156,9 @@ export class FilmMutationResolver {
             dauer: filmDTO.dauer,
             sprache: filmDTO.sprache,
             direktor: filmDTO.direktor,
-            genres: filmDTO.genres,
+            genres: filmDTO.genres?.map((name) => ({ id: undefined, name })),
             titel,
-            schauspielers,
+            besetzung,
             erzeugt: undefined,
             aktualisiert: undefined,
         };
@@ -107,4 +167,19 @@ export class FilmMutationResolver {
         film.titel.film = film;
         return film;
     }
+
+    #filmUpdateDtoToFilm(filmDTO: FilmUpdateDTO): FilmUpdate {
+        return {
+            id: undefined,
+            version: undefined,
+            rating: filmDTO.rating,
+            filmstart: filmDTO.filmstart,
+            dauer: filmDTO.dauer,
+            sprache: filmDTO.sprache,
+            direktor: filmDTO.direktor,
+            genres: filmDTO.genres?.map((name) => ({ id: undefined, name })),
+            erzeugt: undefined,
+            aktualisiert: new Date(),
+        };
+    }
 }
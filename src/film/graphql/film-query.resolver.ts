@@ -14,36 +14,89 @@
  * You should have received a copy of the GNU General Public License
  * along with this program.  If not, see <https://www.gnu.org/licenses/>.
  */
-import { Args, Query, Resolver } from '@nestjs/graphql';
+import { Args, Parent, Query, ResolveField, Resolver } from '@nestjs/graphql';
+import { type FilmFilterInput, createFilmFilter } from './film-filter.js';
 import { UseFilters, UseInterceptors } from '@nestjs/common';
+import { createKeyset, toCursor } from '../service/keyset.js';
+import { toFilmId, toGlobalId } from './global-id.js';
 import { Film } from '../entity/film.entity.js';
+import { FilmLoader } from './film.loader.js';
 import { FilmReadService } from '../service/film-read.service.js';
 import { HttpExceptionFilter } from './http-exception.filter.js';
 import { ResponseTimeInterceptor } from '../../logger/response-time.interceptor.js';
+import { SuggestService } from '../service/suggest.service.js';
+import { type Titel } from '../entity/titel.entity.js';
+import { createPageable } from '../service/pageable.js';
+import { createSortOrder } from '../service/sort.js';
 import { getLogger } from '../../logger/logger.js';
 
 export interface IdInput {
     readonly id: number;
 }
 
+export interface GlobalIdInput {
+    /** ID als Zahl bzw. String mit Ziffern oder globale ID */
+    readonly id: string;
+}
+
+export interface FilmOrderInput {
+    readonly field: string;
+    readonly direction?: string | null;
+}
+
+export interface SuchkriterienInput {
+    readonly titel?: string | null;
+    readonly schauspieler?: string | null;
+    readonly schauspielerEmail?: string | null;
+    readonly q?: string | null;
+    readonly filter?: FilmFilterInput | null;
+    readonly page?: number | null;
+    readonly size?: number | null;
+    readonly orderBy?: FilmOrderInput[];
+}
+
+export interface ConnectionInput {
+    readonly first?: number | null;
+    readonly after?: string | null;
+    readonly last?: number | null;
+    readonly before?: string | null;
+    readonly filter?: FilmFilterInput | null;
+    readonly orderBy?: FilmOrderInput | null;
+}
+
+export interface SuggestInput {
+    readonly prefix: string;
+    readonly limit?: number | null;
+}
+
 @Resolver((_: any) => Film)
 @UseFilters(HttpExceptionFilter)
 @UseInterceptors(ResponseTimeInterceptor)
 export class FilmQueryResolver {
     readonly #service: FilmReadService;
 
+    readonly #suggestService: SuggestService;
+
+    readonly #loader: FilmLoader;
+
     readonly #logger = getLogger(FilmQueryResolver.name);
 
-    constructor(service: FilmReadService) {
+    constructor(
+        service: FilmReadService,
+        suggestService: SuggestService,
+        loader: FilmLoader,
+    ) {
         this.#service = service;
+        this.#suggestService = suggestService;
+        this.#loader = loader;
     }
 
     @Query('film')
-    async findById(@Args() idInput: IdInput) {
-        const { id } = idInput;
-        this.#logger.debug('findById: id=%d', id);
+    async findById(@Args() idInput: GlobalIdInput) {
+        this.#logger.debug('findById: id=%s', idInput.id);
+        const id = toFilmId(idInput.id);
 
-        const film = await this.#service.findById({ id });
+        const film = await this.#service.findById({ id, mitBesetzung: true });
 
         if (this.#logger.isLevelEnabled('debug')) {
             this.#logger.debug(
@@ -56,14 +109,131 @@ export class FilmQueryResolver {
     }
 
     @Query('filme')
-    async find(@Args() titel: { titel: string } | undefined) {
-        const titelStr = titel?.titel;
-        this.#logger.debug('find: Suchkriterium titel=%s', titelStr);
-        const suchkriterium = titelStr === undefined ? {} : { titel: titelStr };
+    async find(@Args() input: SuchkriterienInput | undefined) {
+        const { page, size, orderBy, filter, ...suchkriterien } = input ?? {};
+        this.#logger.debug(
+            'find: suchkriterien=%o, filter=%o',
+            suchkriterien,
+            filter,
+        );
+        // Argumente ohne Wert bzw. mit null sind keine Suchkriterien
+        const suchkriterium = Object.fromEntries(
+            Object.entries(suchkriterien).filter(([, value]) => value !== null),
+        );
+        // page: null bzw. size: null ist wie ohne Argument
+        const pageable = createPageable({
+            number: page ?? undefined,
+            size: size ?? undefined,
+        });
+
+        // direction: null ist wie ohne Sortierrichtung aufsteigend
+        const sort = (orderBy ?? []).map(({ field, direction }) =>
+            createSortOrder(field, direction ?? 'asc'),
+        );
+
+        const { content } = await this.#service.find(suchkriterium, pageable, {
+            sort,
+            filter: createFilmFilter(filter),
+        });
 
-        const filme = await this.#service.find(suchkriterium);
+        this.#logger.debug('find: filme=%o', content);
+        return content;
+    }
+
+    @Query('filmeConnection')
+    async findConnection(@Args() input: ConnectionInput) {
+        const { first, after, last, before, filter, orderBy } = input;
+        this.#logger.debug(
+            'findConnection: first=%s, after=%s, last=%s, before=%s, orderBy=%o',
+            first,
+            after,
+            last,
+            before,
+            orderBy,
+        );
+        const keyset = createKeyset({
+            first,
+            after,
+            last,
+            before,
+            property: orderBy?.field,
+            direction: orderBy?.direction,
+        });
+
+        const { content, hasMore } = await this.#service.findKeyset(
+            keyset,
+            createFilmFilter(filter),
+        );
+
+        const edges = content.map((film) => ({
+            cursor: toCursor(film, keyset.sort.property),
+            node: film,
+        }));
+        // in Leserichtung gibt es weitere Filme, falls die Abfrage einen Film
+        // mehr geliefert hat; entgegen der Leserichtung, falls es einen
+        // Cursor als Ausgangspunkt gibt
+        const pageInfo = {
+            hasNextPage: keyset.rueckwaerts
+                ? keyset.before !== undefined
+                : hasMore,
+            hasPreviousPage: keyset.rueckwaerts
+                ? hasMore
+                : keyset.after !== undefined,
+            startCursor: edges.at(0)?.cursor,
+            endCursor: edges.at(-1)?.cursor,
+        };
+
+        this.#logger.debug(
+            'findConnection: anzahl=%d, pageInfo=%o',
+            edges.length,
+            pageInfo,
+        );
+        return { edges, pageInfo };
+    }
+
+    @Query('suggest')
+    async suggest(@Args() input: SuggestInput) {
+        const { prefix, limit } = input;
+        this.#logger.debug('suggest: prefix=%s, limit=%s', prefix, limit);
+        return this.#suggestService.suggest({
+            prefix,
+            limit: limit ?? undefined,
+        });
+    }
+
+    @ResolveField('globalId')
+    globalId(@Parent() film: Film) {
+        // globale ID gemaess Relay zusaetzlich zur ID als Zahl
+        return toGlobalId('Film', film.id);
+    }
+
+    @ResolveField('genres')
+    genres(@Parent() film: Film) {
+        // im Schema sind die Genres nur die Namen aus dem Genre-Katalog
+        return film.genres?.map((genre) => genre.name);
+    }
+
+    @ResolveField('titel')
+    async titel(@Parent() film: Film) {
+        // bei der Suche i.a. bereits mit einem Join gelesen, sonst gebuendelt
+        // fuer alle Filme des Requests
+        return (
+            (film.titel as Titel | undefined) ??
+            this.#loader.titel.load(film.id!)
+        );
+    }
 
-        this.#logger.debug('find: filme=%o', filme);
-        return filme;
+    @ResolveField('schauspielers')
+    async schauspielers(@Parent() film: Film) {
+        // bei einer Liste von Filmen gebuendelt fuer alle Filme des Requests
+        const besetzung = await (film.besetzung ??
+            this.#loader.besetzung.load(film.id!));
+        // im Schema sind die Schauspieler die Personen aus der Besetzung
+        return besetzung.map(({ rolle, reihenfolge, person }) => ({
+            ...person,
+            name: person?.nachname,
+            rolle,
+            reihenfolge,
+        }));
     }
 }
@@ -0,0 +1,84 @@
+/*
+ * Copyright (C) 2024 - present Juergen Zimmermann, Hochschule Karlsruhe
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with this program.  If not, see <https://www.gnu.org/licenses/>.
+ */
+
+/**
+ * Das Modul besteht aus der Klasse {@linkcode FilmSubscriptionResolver} für
+ * die Subscriptions zu neuen, geänderten und gelöschten Filmen.
+ * @packageDocumentation
+ */
+
+import {
+    type FilmGeloescht,
+    type FilmGespeichert,
+    FilmPubSub,
+} from '../service/film-pubsub.js';
+import { Resolver, Subscription } from '@nestjs/graphql';
+import { UseFilters, UseGuards } from '@nestjs/common';
+import { HttpExceptionFilter } from './http-exception.filter.js';
+import { JwtAuthGraphQlGuard } from '../../security/auth/jwt/jwt-auth-graphql.guard.js';
+import { RolesAllowed } from '../../security/auth/roles/roles-allowed.decorator.js';
+import { RolesGraphQlGuard } from '../../security/auth/roles/roles-graphql.guard.js';
+import { getLogger } from '../../logger/logger.js';
+import { toGlobalId } from './global-id.js';
+
+/** Typdefinition für das Ergebnis von `filmDeleted`. */
+export interface FilmDeletedPayload {
+    readonly id: number;
+    readonly globalId: string;
+}
+
+// Die Ereignisse sind jeweils 1-elementige Arrays, siehe FilmPubSub
+const gespeichert = ([{ film }]: [FilmGespeichert]) => film;
+
+const geloescht = ([{ id }]: [FilmGeloescht]): FilmDeletedPayload => ({
+    id,
+    globalId: toGlobalId('Film', id),
+});
+
+// Der JWT stammt aus dem Payload von ConnectionInit bei graphql-ws, siehe
+// src/config/graphql.ts, und wird wie bei den Mutations geprueft
+@Resolver()
+@UseGuards(JwtAuthGraphQlGuard, RolesGraphQlGuard)
+@UseFilters(HttpExceptionFilter)
+@RolesAllowed('admin', 'fachabteilung', 'kunde')
+export class FilmSubscriptionResolver {
+    readonly #pubSub: FilmPubSub;
+
+    readonly #logger = getLogger(FilmSubscriptionResolver.name);
+
+    constructor(pubSub: FilmPubSub) {
+        this.#pubSub = pubSub;
+    }
+
+    @Subscription('filmCreated', { resolve: gespeichert })
+    filmCreated() {
+        this.#logger.debug('filmCreated');
+        return this.#pubSub.subscribe('filmCreated');
+    }
+
+    @Subscription('filmUpdated', { resolve: gespeichert })
+    filmUpdated() {
+        this.#logger.debug('filmUpdated');
+        return this.#pubSub.subscribe('filmUpdated');
+    }
+
+    @Subscription('filmDeleted', { resolve: geloescht })
+    filmDeleted() {
+        this.#logger.debug('filmDeleted');
+        return this.#pubSub.subscribe('filmDeleted');
+    }
+}
@@ -0,0 +1,72 @@
+/*
+ * Copyright (C) 2024 - present Juergen Zimmermann, Hochschule Karlsruhe
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with this program.  If not, see <https://www.gnu.org/licenses/>.
+ */
+
+/**
+ * Das Modul besteht aus der Klasse {@linkcode FilmLoader} mit den DataLoadern
+ * für die Relationen eines Filmes bei GraphQL.
+ * @packageDocumentation
+ */
+
+import { Injectable, Scope } from '@nestjs/common';
+import { type Besetzung } from '../entity/besetzung.entity.js';
+import DataLoader from 'dataloader'; // eslint-disable-line @typescript-eslint/naming-convention
+import { FilmReadService } from '../service/film-read.service.js';
+import { type Titel } from '../entity/titel.entity.js';
+import { getLogger } from '../../logger/logger.js';
+
+/**
+ * Die Klasse `FilmLoader` bündelt das Laden der Titel und der Besetzung für
+ * alle Filme eines GraphQL-Requests zu jeweils einer Abfrage mit `IN (...)`,
+ * statt je Film eine eigene Abfrage abzusetzen ("N+1-Problem"). Je Request
+ * gibt es ein eigenes Objekt, damit der Cache der DataLoader nicht über
+ * Requests hinweg veraltete Daten liefert.
+ */
+@Injectable({ scope: Scope.REQUEST })
+export class FilmLoader {
+    /** Titel je ID eines Filmes */
+    readonly titel: DataLoader<number, Titel | undefined>;
+
+    /** Besetzung je ID eines Filmes in der Reihenfolge des Abspanns */
+    readonly besetzung: DataLoader<number, Besetzung[]>;
+
+    readonly #service: FilmReadService;
+
+    readonly #logger = getLogger(FilmLoader.name);
+
+    constructor(service: FilmReadService) {
+        this.#service = service;
+        this.titel = new DataLoader((ids) => this.#loadTitel(ids));
+        this.besetzung = new DataLoader((ids) => this.#loadBesetzung(ids));
+    }
+
+    // Die Werte muessen dieselbe Reihenfolge wie die IDs haben
+    async #loadTitel(ids: readonly number[]) {
+        this.#logger.debug('loadTitel: ids=%o', ids);
+        const filme = await this.#service.findTitel(ids);
+        const titelMap = new Map(filme.map(({ id, titel }) => [id, titel]));
+        return ids.map((id) => titelMap.get(id));
+    }
+
+    async #loadBesetzung(ids: readonly number[]) {
+        this.#logger.debug('loadBesetzung: ids=%o', ids);
+        const filme = await this.#service.findBesetzung(ids);
+        const besetzungMap = new Map(
+            filme.map(({ id, besetzung }) => [id, besetzung ?? []]),
+        );
+        return ids.map((id) => besetzungMap.get(id) ?? []);
+    }
+}
@@ -0,0 +1,83 @@
+/*
+ * Copyright (C) 2024 - present Juergen Zimmermann, Hochschule Karlsruhe
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with this program.  If not, see <https://www.gnu.org/licenses/>.
+ */
+
+/**
+ * Das Modul besteht aus den Funktionen für die globalen IDs gemäß der
+ * _Global Object Identification_ von Relay: der Typname und die ID des
+ * Datensatzes als Base64-String.
+ * @packageDocumentation
+ */
+
+import { FilmReadService } from '../service/film-read.service.js';
+import { GlobalIdInvalidException } from '../service/exceptions.js';
+
+/** Typnamen bei GraphQL, die das Interface `Node` implementieren. */
+export const NODE_TYPEN = ['Film'] as const;
+
+export type NodeTyp = (typeof NODE_TYPEN)[number];
+
+/** Typdefinition für eine dekodierte globale ID. */
+export interface GlobalId {
+    readonly typ: NodeTyp;
+    readonly id: number;
+}
+
+const nodeTypen: readonly string[] = NODE_TYPEN;
+
+/**
+ * Die globale ID zu einem Datensatz erstellen.
+ * @param typ Der Typname bei GraphQL
+ * @param id Die ID des Datensatzes
+ * @returns Die globale ID als Base64-String, z.B. `RmlsbTox` für `Film:1`
+ */
+export const toGlobalId = (typ: NodeTyp, id: number | undefined) =>
+    Buffer.from(`${typ}:${id}`).toString('base64');
+
+/**
+ * Eine globale ID dekodieren.
+ * @param globalId Die globale ID als Base64-String
+ * @returns Der Typname und die ID des Datensatzes
+ * @throws GlobalIdInvalidException falls die globale ID ungültig ist
+ */
+export const fromGlobalId = (globalId: string): GlobalId => {
+    const [typ, id, ...rest] = Buffer.from(globalId, 'base64')
+        .toString()
+        .split(':');
+    if (
+        typ === undefined ||
+        id === undefined ||
+        rest.length > 0 ||
+        !nodeTypen.includes(typ) ||
+        !FilmReadService.ID_PATTERN.test(id)
+    ) {
+        throw new GlobalIdInvalidException(globalId);
+    }
+    return { typ: typ as NodeTyp, id: Number(id) };
+};
+
+/**
+ * Die ID eines Filmes als Zahl oder als globale ID ermitteln.
+ * @param id Die ID als Zahl bzw. als String mit Ziffern oder die globale ID
+ * @returns Die ID des Filmes als Zahl
+ * @throws GlobalIdInvalidException falls die globale ID ungültig ist
+ */
+export const toFilmId = (id: number | string) => {
+    if (typeof id === 'number' || FilmReadService.ID_PATTERN.test(id)) {
+        return Number(id);
+    }
+    return fromGlobalId(id).id;
+};
@@ -24,14 +24,79 @@ import {
     Catch,
     type ExceptionFilter,
     HttpException,
+    HttpStatus,
 } from '@nestjs/common';
-import { BadUserInputError } from './errors.js';
+import {
+    BadUserInputError,
+    ConflictError,
+    ForbiddenError,
+    NotFoundError,
+    UnauthenticatedError,
+    ValidationFailedError,
+    VersionMismatchError,
+} from './errors.js';
+import {
+    GenreExistsException,
+    PersonEmailExistsException,
+    TitelExistsException,
+    VersionInvalidException,
+    VersionOutdatedException,
+} from '../service/exceptions.js';
+import { ValidationFailedException } from '../../validation/validation.pipe.js';
 
+/**
+ * Exception-Filter für GraphQL, der eine `HttpException` z.B. aus der
+ * Service-Schicht, von einem Guard oder vom `ValidationPipe` in einen
+ * `GraphQLError` mit einem eigenen Code in `extensions` umwandelt.
+ */
 @Catch(HttpException)
 export class HttpExceptionFilter implements ExceptionFilter {
     catch(exception: HttpException, _host: ArgumentsHost) {
-        // eslint-disable-next-line @typescript-eslint/no-unsafe-assignment
-        const { message }: { message: string } = exception.getResponse() as any;
-        throw new BadUserInputError(message, exception);
+        const response = exception.getResponse();
+        // z.B. TitelExistsException mit einem String statt einem JSON-Objekt
+        const { message }: { message: string } =
+            typeof response === 'string'
+                ? { message: response }
+                : (response as { message: string });
+        if (exception instanceof ValidationFailedException) {
+            // beim ValidationPipe ein Array mit den Meldungen je Constraint
+            const messages = message as string[] | string;
+            throw new ValidationFailedError(
+                Array.isArray(messages) ? messages.join(',') : messages,
+                exception.fieldErrors,
+                exception,
+            );
+        }
+        if (
+            exception instanceof VersionOutdatedException ||
+            exception instanceof VersionInvalidException
+        ) {
+            throw new VersionMismatchError(message, exception);
+        }
+        if (
+            exception instanceof TitelExistsException ||
+            exception instanceof GenreExistsException ||
+            exception instanceof PersonEmailExistsException
+        ) {
+            throw new ConflictError(message, exception);
+        }
+
+        switch (exception.getStatus() as HttpStatus) {
+            case HttpStatus.NOT_FOUND: {
+                throw new NotFoundError(message, exception);
+            }
+            case HttpStatus.UNAUTHORIZED: {
+                throw new UnauthenticatedError(message, exception);
+            }
+            case HttpStatus.FORBIDDEN: {
+                throw new ForbiddenError(message, exception);
+            }
+            case HttpStatus.CONFLICT: {
+                throw new ConflictError(message, exception);
+            }
+            default: {
+                throw new BadUserInputError(message, exception);
+            }
+        }
     }
 }
@@ -0,0 +1,69 @@
+/*
+ * Copyright (C) 2024 - present Juergen Zimmermann, Hochschule Karlsruhe
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with this program.  If not, see <https://www.gnu.org/licenses/>.
+ */
+
+/**
+ * Das Modul besteht aus der Klasse {@linkcode NodeResolver} für das Interface
+ * `Node` gemäß der _Global Object Identification_ von Relay.
+ * @packageDocumentation
+ */
+
+import { Args, Parent, Query, ResolveField, Resolver } from '@nestjs/graphql';
+import { type NodeTyp, fromGlobalId } from './global-id.js';
+import { NotFoundException, UseFilters, UseInterceptors } from '@nestjs/common';
+import { type Film } from '../entity/film.entity.js';
+import { FilmReadService } from '../service/film-read.service.js';
+import { type GlobalIdInput } from './film-query.resolver.js';
+import { HttpExceptionFilter } from './http-exception.filter.js';
+import { ResponseTimeInterceptor } from '../../logger/response-time.interceptor.js';
+import { getLogger } from '../../logger/logger.js';
+
+@Resolver('Node')
+@UseFilters(HttpExceptionFilter)
+@UseInterceptors(ResponseTimeInterceptor)
+export class NodeResolver {
+    readonly #service: FilmReadService;
+
+    readonly #logger = getLogger(NodeResolver.name);
+
+    constructor(service: FilmReadService) {
+        this.#service = service;
+    }
+
+    @Query('node')
+    async findNode(@Args() input: GlobalIdInput) {
+        this.#logger.debug('findNode: id=%s', input.id);
+        const { id } = fromGlobalId(input.id);
+
+        // bei Relay ist null das Ergebnis, falls es keinen Datensatz gibt
+        let film: Film | undefined;
+        try {
+            film = await this.#service.findById({ id, mitBesetzung: true });
+        } catch (err) {
+            if (!(err instanceof NotFoundException)) {
+                throw err;
+            }
+            this.#logger.debug('findNode: kein Film mit id=%d', id);
+        }
+        return film;
+    }
+
+    @ResolveField('__resolveType')
+    resolveType(@Parent() _node: Film): NodeTyp {
+        // bislang implementiert nur Film das Interface Node
+        return 'Film';
+    }
+}
@@ -23,16 +23,19 @@
 
 // eslint-disable-next-line max-classes-per-file
 import {
+    ApiBadRequestResponse,
     ApiHeader,
     ApiNotFoundResponse,
     ApiOkResponse,
     ApiOperation,
     ApiParam,
     ApiProperty,
+    ApiQuery,
     ApiResponse,
     ApiTags,
 } from '@nestjs/swagger';
 import {
+    BadRequestException,
     Controller,
     Get,
     Headers,
@@ -41,16 +44,30 @@ import {
     Query,
     Req,
     Res,
+    UseGuards,
     UseInterceptors,
 } from '@nestjs/common';
+import { type Facets, createFacets } from '../service/facets.js';
+import { type Field, createFields } from '../service/fields.js';
 import {
     FilmReadService,
     type Suchkriterien,
 } from '../service/film-read.service.js';
+import { MAX_FILTER_LAENGE, createFilter } from '../service/filter.js';
+import { type Pageable, createPageable } from '../service/pageable.js';
 import { Request, Response } from 'express';
+import {
+    type SchauspielerModel,
+    toSchauspielerModel,
+} from './schauspieler-get.controller.js';
 import { type Film } from '../entity/film.entity.js';
+import { OptionalJwtAuthGuard } from '../../security/auth/jwt/optional-jwt-auth.guard.js';
+import { type RequestWithUser } from '../../security/auth/jwt/jwt-auth.guard.js';
 import { ResponseTimeInterceptor } from '../../logger/response-time.interceptor.js';
+import { type Role } from '../../security/auth/service/role.js';
 import { type Titel } from '../entity/titel.entity.js';
+import { UserService } from '../../security/auth/service/user.service.js';
+import { createSort } from '../service/sort.js';
 import { getBaseUri } from './getBaseUri.js';
 import { getLogger } from '../../logger/logger.js';
 import { paths } from '../../config/paths.js';
@@ -69,6 +86,38 @@ export interface Links {
     readonly list?: Link;
     /** Optionaler Linke für add */
     readonly add?: Link;
+    /** Link für die Schauspieler als Sub-Ressource */
+    readonly schauspielers: Link;
+    /** Optionaler Link für update, falls die Rollen es erlauben */
+    readonly update?: Link | undefined;
+    /** Optionaler Link für remove, falls die Rollen es erlauben */
+    readonly remove?: Link | undefined;
+}
+
+/** Links für HATEOAS beim Blättern in einer Liste mit Filmen */
+export interface PageLinks {
+    /** self-Link für die aktuelle Seite */
+    readonly self: Link;
+    /** Link für die erste Seite */
+    readonly first: Link;
+    /** Optionaler Link für die vorherige Seite */
+    readonly prev?: Link | undefined;
+    /** Optionaler Link für die nächste Seite */
+    readonly next?: Link | undefined;
+    /** Link für die letzte Seite */
+    readonly last: Link;
+}
+
+/** Metadaten zu einer Seite mit Filmen */
+export interface PageModel {
+    /** Anzahl der Filme pro Seite */
+    readonly size: number;
+    /** Gesamtanzahl der Filme zu den Suchkriterien */
+    readonly totalElements: number;
+    /** Gesamtanzahl der Seiten */
+    readonly totalPages: number;
+    /** Nummer der aktuellen Seite, beginnend bei 0 */
+    readonly number: number;
 }
 
 /** Typedefinition für ein Titel-Objekt ohne Rückwärtsverweis zum Film */
@@ -77,19 +126,45 @@ export type TitelModel = Omit<Titel, 'film' | 'id'>;
 /** Film-Objekt mit HATEOAS-Links */
 export type FilmModel = Omit<
     Film,
-    'schauspielers' | 'aktualisiert' | 'erzeugt' | 'id' | 'titel' | 'version'
+    | 'besetzung'
+    | 'aktualisiert'
+    | 'erzeugt'
+    | 'genres'
+    | 'id'
+    | 'titel'
+    | 'version'
 > & {
     titel: TitelModel;
+    genres: string[] | undefined;
+    // eslint-disable-next-line @typescript-eslint/naming-convention
+    _links: Links;
+    /** Optional eingebettete Schauspieler bei `embed=schauspielers` */
+    // eslint-disable-next-line @typescript-eslint/naming-convention
+    _embedded?:
+        | {
+              schauspielers: SchauspielerModel[];
+          }
+        | undefined;
+};
+
+/** Film-Objekt mit den ausgewählten Feldern bei `fields` und HATEOAS-Links */
+export type FilmFieldsModel = Partial<Omit<FilmModel, '_links' | 'titel'>> & {
+    titel?: Partial<TitelModel> | undefined;
     // eslint-disable-next-line @typescript-eslint/naming-convention
     _links: Links;
 };
 
 /** Film-Objekte mit HATEOAS-Links in einem JSON-Array. */
-export interface FilmenModel {
+export interface FilmenModel<T extends FilmFieldsModel = FilmModel> {
     // eslint-disable-next-line @typescript-eslint/naming-convention
     _embedded: {
-        filmen: FilmModel[];
+        filmen: T[];
     };
+    // eslint-disable-next-line @typescript-eslint/naming-convention
+    _links: PageLinks;
+    page: PageModel;
+    /** Optionale Facetten bei `facets`, z.B. die Anzahl der Filme je Genre */
+    facets?: Facets | undefined;
 }
 
 /**
@@ -106,18 +181,57 @@ export class FilmQuery implements Suchkriterien {
     @ApiProperty({ required: false })
     declare readonly rating: number;
 
+    @ApiProperty({ required: false, description: 'Mindestens dieses Rating' })
+    declare readonly ratingMin: number;
+
+    @ApiProperty({ required: false, description: 'Höchstens dieses Rating' })
+    declare readonly ratingMax: number;
+
     @ApiProperty({ required: false })
     declare readonly filmstart: string;
 
+    @ApiProperty({
+        required: false,
+        description: 'Filmstart an oder nach diesem Datum, z.B. 2020-01-01',
+    })
+    declare readonly filmstartVon: string;
+
+    @ApiProperty({
+        required: false,
+        description: 'Filmstart an oder vor diesem Datum, z.B. 2022-12-31',
+    })
+    declare readonly filmstartBis: string;
+
     @ApiProperty({ required: false })
     declare readonly dauer: number;
 
+    @ApiProperty({ required: false, description: 'Mindestdauer in Minuten' })
+    declare readonly dauerMin: number;
+
+    @ApiProperty({ required: false, description: 'Höchstdauer in Minuten' })
+    declare readonly dauerMax: number;
+
     @ApiProperty({ required: false })
     declare readonly sprache: string;
 
     @ApiProperty({ required: false })
     declare readonly direktor: string;
 
+    @ApiProperty({
+        required: false,
+        type: [String],
+        description: 'Genre, z.B. ACTION; mehrfach angebbar',
+    })
+    declare readonly genre: string | string[];
+
+    @ApiProperty({
+        required: false,
+        enum: ['any', 'all'],
+        description:
+            'Mind. ein Genre (any, voreingestellt) oder alle Genres (all)',
+    })
+    declare readonly genreMatch: string;
+
     @ApiProperty({ required: false })
     declare readonly action: string;
 
@@ -129,10 +243,150 @@ export class FilmQuery implements Suchkriterien {
 
     @ApiProperty({ required: false })
     declare readonly titel: string;
+
+    @ApiProperty({
+        required: false,
+        description: 'Teilstring im Vor- oder Nachnamen eines Schauspielers',
+    })
+    declare readonly schauspieler: string;
+
+    @ApiProperty({
+        required: false,
+        description: 'Emailadresse eines Schauspielers',
+    })
+    declare readonly schauspielerEmail: string;
+
+    @ApiProperty({
+        required: false,
+        description:
+            'Volltextsuche in Titel, Originaltitel, Serienname, Direktor und Schauspielern',
+    })
+    declare readonly q: string;
+
+    @ApiProperty({ required: false, description: 'Seitennummer ab 0' })
+    declare readonly page: string;
+
+    @ApiProperty({
+        required: false,
+        description: 'Anzahl Filme pro Seite ab 1, maximal 100',
+    })
+    declare readonly size: string;
+
+    @ApiProperty({
+        required: false,
+        type: [String],
+        description:
+            'Sortierkriterien im Format property[,asc|desc], z.B. rating,desc',
+    })
+    declare readonly sort: string | string[];
+
+    @ApiProperty({
+        required: false,
+        description:
+            'Kommaseparierte Felder von Film und Titel, z.B. titel,rating,filmstart',
+    })
+    declare readonly fields: string;
+
+    @ApiProperty({
+        required: false,
+        description:
+            'Kommaseparierte Facetten genres, sprache, rating und filmstart (Jahrzehnt)',
+    })
+    declare readonly facets: string;
+
+    @ApiProperty({
+        required: false,
+        maxLength: MAX_FILTER_LAENGE,
+        description:
+            'Filter im Stil von RSQL/FIQL, z.B. rating=ge=4;(sprache==ENGLISCH,sprache==DEUTSCH);titel.titel=like=*Avatar*',
+    })
+    declare readonly filter: string;
 }
 
 const APPLICATION_HAL_JSON = 'application/hal+json';
 
+/**
+ * Nur die Properties eines Objekts, die bei `fields` ausgewählt sind.
+ */
+const pickFields = <T extends object>(
+    obj: T | undefined,
+    fields: readonly string[],
+) =>
+    Object.fromEntries(
+        Object.entries(obj ?? {}).filter(([key]) => fields.includes(key)),
+    ) as Partial<T>;
+
+/**
+ * Ein Film-Objekt mit den ausgewählten Feldern, die beim Lesen bereits auf die
+ * entsprechenden Spalten beschränkt wurden.
+ */
+const toFieldsModel = (
+    film: Film,
+    fields: readonly Field[],
+    links: Links,
+): FilmFieldsModel => {
+    const { rating, filmstart, dauer, sprache, direktor, genres, titel } =
+        film as Partial<Film>;
+    const filmFields = pickFields(
+        {
+            rating,
+            filmstart,
+            dauer,
+            sprache,
+            direktor,
+            genres: genres?.map((genre) => genre.name),
+        },
+        fields,
+    );
+    const titelModel = pickFields<TitelModel>(titel, fields);
+    return {
+        ...filmFields,
+        titel: Object.keys(titelModel).length > 0 ? titelModel : undefined,
+        _links: links,
+    };
+};
+
+/** Erlaubte schreibende Zugriffe gemäß den Rollen im JWT */
+interface RoleLinks {
+    readonly update: boolean;
+    readonly remove: boolean;
+}
+
+/** Optionen für `#toModel` */
+interface ToModelParams {
+    /** Sollen auch die Links list und add erzeugt werden? */
+    readonly all?: boolean;
+    /** Links für update und remove gemäß den Rollen */
+    readonly roleLinks?: RoleLinks;
+    /** Sollen die Schauspieler unter `_embedded` eingebettet werden? */
+    readonly mitBesetzung?: boolean;
+    /** Optionale Auswahl der Felder; ohne Auswahl werden alle Felder geliefert */
+    readonly fields?: readonly Field[] | undefined;
+}
+
+/** Werte für den Query-Parameter `embed` beim Suchen mit der ID */
+const EMBED_WERTE: readonly string[] = [paths.schauspielers];
+
+/**
+ * Ein mehrfach angegebener Query-Parameter, z.B. `?embed=a&embed=b`, ist bei
+ * Express ein Array statt eines Strings.
+ * @throws BadRequestException falls der Wert kein einzelner String ist
+ */
+export const checkEinzelwert: (
+    name: string,
+    wert: unknown,
+) => asserts wert is string | undefined = (name, wert) => {
+    if (wert !== undefined && typeof wert !== 'string') {
+        throw new BadRequestException(
+            `Der Query-Parameter ${name} ist nur einmal erlaubt`,
+        );
+    }
+};
+
+// dieselben Rollen wie bei @RolesAllowed() in FilmWriteController
+const ROLES_UPDATE: readonly Role[] = ['admin', 'fachabteilung'];
+const ROLES_REMOVE: readonly Role[] = ['admin'];
+
 /**
  * Die Controller-Klasse für die Verwaltung von Filmen.
  */
@@ -150,13 +404,16 @@ export class FilmGetController {
     // private ab ES 2019
     readonly #service: FilmReadService;
 
+    readonly #userService: UserService;
+
     readonly #logger = getLogger(FilmGetController.name);
 
     // Dependency Injection (DI) bzw. Constructor Injection
     // constructor(private readonly service: FilmReadService) {}
     // https://github.com/tc39/proposal-type-annotations#omitted-typescript-specific-features-that-generate-code
-    constructor(service: FilmReadService) {
+    constructor(service: FilmReadService, userService: UserService) {
         this.#service = service;
+        this.#userService = userService;
     }
 
     /**
@@ -172,27 +429,43 @@ export class FilmGetController {
      * Falls es keinen Film zur angegebenen ID gibt, wird der Statuscode `404`
      * (`Not Found`) zurückgeliefert.
      *
+     * Mit dem Query-Parameter `embed=schauspielers` werden die Schauspieler
+     * unter `_embedded` mitgeliefert. Unter `_links` gibt es `update` und
+     * `remove` nur dann, wenn der mitgeschickte JWT die erforderlichen Rollen
+     * hat. Der ETag enthält deshalb neben der Version auch `schauspielers`,
+     * `update` und `remove`, z.B. `"1-schauspielers-update"`, und der Response
+     * hat den Header `Vary: Authorization`. Bei `If-Match` wird nur die Version
+     * am Anfang des ETags ausgewertet.
+     *
      * @param id Pfad-Parameter `id`
      * @param req Request-Objekt von Express mit Pfadparameter, Query-String,
      *            Request-Header und Request-Body.
      * @param version Versionsnummer im Request-Header bei `If-None-Match`
-     * @param accept Content-Type bzw. MIME-Type
+     * @param embed Query-Parameter `embed`, z.B. `schauspielers`
      * @param res Leeres Response-Objekt von Express.
      * @returns Leeres Promise-Objekt.
      */
-    // eslint-disable-next-line max-params
+    // eslint-disable-next-line max-params, max-lines-per-function
     @Get(':id')
+    @UseGuards(OptionalJwtAuthGuard)
     @ApiOperation({ summary: 'Suche mit der Film-ID' })
     @ApiParam({
         name: 'id',
         description: 'Z.B. 1',
     })
+    @ApiQuery({
+        name: 'embed',
+        required: false,
+        enum: EMBED_WERTE,
+        description: 'Eingebettete Sub-Ressourcen, z.B. schauspielers',
+    })
     @ApiHeader({
         name: 'If-None-Match',
         description: 'Header für bedingte GET-Requests, z.B. "0"',
         required: false,
     })
     @ApiOkResponse({ description: 'Der Film wurde gefunden' })
+    @ApiBadRequestResponse({ description: 'Ungueltiger Wert fuer embed' })
     @ApiNotFoundResponse({ description: 'Kein Film zur ID gefunden' })
     @ApiResponse({
         status: HttpStatus.NOT_MODIFIED,
@@ -200,8 +473,9 @@ export class FilmGetController {
     })
     async getById(
         @Param('id') idStr: string,
-        @Req() req: Request,
+        @Req() req: RequestWithUser,
         @Headers('If-None-Match') version: string | undefined,
+        @Query('embed') embed: string | string[] | undefined,
         @Res() res: Response,
     ): Promise<Response<FilmModel | undefined>> {
         this.#logger.debug('getById: idStr=%s, version=%s"', idStr, version);
@@ -216,23 +490,27 @@ export class FilmGetController {
             return res.sendStatus(HttpStatus.NOT_ACCEPTABLE);
         }
 
-        const film = await this.#service.findById({ id });
+        const mitBesetzung = this.#checkEmbed(embed);
+        const film = await this.#service.findById({ id, mitBesetzung });
         if (this.#logger.isLevelEnabled('debug')) {
             this.#logger.debug('getById(): film=%s', film.toString());
             this.#logger.debug('getById(): titel=%o', film.titel);
         }
 
-        // ETags
-        const versionDb = film.version;
-        if (version === `"${versionDb}"`) {
+        // ETags: die Links zu den Rollen im JWT und die eingebetteten
+        // Schauspieler gehoeren zur Repraesentation
+        const roleLinks = await this.#toRoleLinks(req);
+        const etag = this.#toETag(film.version, mitBesetzung, roleLinks);
+        res.header('Vary', 'Authorization');
+        if (version === etag) {
             this.#logger.debug('getById: NOT_MODIFIED');
             return res.sendStatus(HttpStatus.NOT_MODIFIED);
         }
-        this.#logger.debug('getById: versionDb=%s', versionDb);
-        res.header('ETag', `"${versionDb}"`);
+        this.#logger.debug('getById: etag=%s', etag);
+        res.header('ETag', etag);
 
         // HATEOAS mit Atom Links und HAL (= Hypertext Application Language)
-        const filmModel = this.#toModel(film, req);
+        const filmModel = this.#toModel(film, req, { roleLinks, mitBesetzung });
         this.#logger.debug('getById: filmModel=%o', filmModel);
         return res.contentType(APPLICATION_HAL_JSON).json(filmModel);
     }
@@ -248,19 +526,63 @@ export class FilmGetController {
      *
      * Falls es keine Query-Parameter gibt, werden alle Filmen ermittelt.
      *
+     * Mit den Query-Parametern `page` (ab 0) und `size` (ab 1) wird eine Seite
+     * ausgewählt, bei ungültigen Werten gibt es den Statuscode `400`. Im Rumpf des Response sind dann unter `page` die Metadaten
+     * und unter `_links` die Links für die erste, vorherige, nächste und letzte
+     * Seite.
+     *
+     * Mit dem wiederholbaren Query-Parameter `genre` und `genreMatch=any` bzw.
+     * `genreMatch=all` wird nach Filmen mit mind. einem bzw. allen Genres
+     * gesucht.
+     *
+     * Bereiche mit inklusiven Grenzen werden mit `ratingMin`, `ratingMax`,
+     * `dauerMin`, `dauerMax`, `filmstartVon` und `filmstartBis` gesucht.
+     *
+     * Mit dem wiederholbaren Query-Parameter `sort`, z.B.
+     * `sort=rating,desc&sort=titel,asc`, wird das Suchergebnis sortiert. Bei
+     * einer unbekannten Property gibt es den Statuscode `400`.
+     *
+     * Mit dem Query-Parameter `q` gibt es eine Volltextsuche in Titel,
+     * Originaltitel, Serienname, Direktor und den Namen der Schauspieler. Die
+     * Filme sind dann absteigend nach ihrer Relevanz sortiert, sofern es keine
+     * expliziten Sortierkriterien gibt.
+     *
+     * Mit dem Query-Parameter `facets`, z.B. `facets=genres,sprache,rating`,
+     * gibt es im Rumpf des Response unter `facets` die Anzahl der Filme zu den
+     * Suchkriterien je Genre, Sprache, Rating bzw. Jahrzehnt des Filmstarts.
+     *
+     * Mit dem Query-Parameter `fields`, z.B. `fields=titel,rating,filmstart`,
+     * werden nur die ausgewählten Felder gelesen und geliefert. Die Links
+     * unter `_links` sind immer vorhanden. Bei einem unbekannten Feld gibt es
+     * den Statuscode `400`.
+     *
+     * Mit dem Query-Parameter `filter` gibt es einen Filter im Stil von
+     * RSQL/FIQL, z.B. `filter=rating=ge=4;(sprache==ENGLISCH,sprache==DEUTSCH)`.
+     * Dabei verknüpft `;` mit "and" und `,` mit "or". Vergleiche gibt es mit
+     * `==`, `!=`, `=gt=`, `=ge=`, `=lt=`, `=le=`, `=like=` (mit `*` als
+     * Platzhalter), `=in=` und `=out=` für Felder von Film, Titel (z.B.
+     * `titel.titel`) und Schauspielern (z.B. `schauspieler.nachname`). Bei
+     * einem ungültigen Filter gibt es den Statuscode `400` mit der Position
+     * des Fehlers.
+     *
      * @param query Query-Parameter von Express.
      * @param req Request-Objekt von Express.
      * @param res Leeres Response-Objekt von Express.
      * @returns Leeres Promise-Objekt.
      */
+    // eslint-disable-next-line max-lines-per-function
     @Get()
     @ApiOperation({ summary: 'Suche mit Suchkriterien' })
     @ApiOkResponse({ description: 'Eine evtl. leere Liste mit Filmen' })
+    @ApiBadRequestResponse({
+        description:
+            'Ungueltige Seite, ungueltiges Sortierkriterium, ungueltiger Bereich, ungueltiges Feld, ungueltige Facette oder ungueltiger Filter',
+    })
     async get(
         @Query() query: FilmQuery,
         @Req() req: Request,
         @Res() res: Response,
-    ): Promise<Response<FilmenModel | undefined>> {
+    ): Promise<Response<FilmenModel<FilmFieldsModel> | undefined>> {
         this.#logger.debug('get: query=%o', query);
 
         if (req.accepts([APPLICATION_HAL_JSON, 'json', 'html']) === false) {
@@ -268,32 +590,165 @@ export class FilmGetController {
             return res.sendStatus(HttpStatus.NOT_ACCEPTABLE);
         }
 
-        const filmen: Film[] = await this.#service.find(query);
-        this.#logger.debug('get: %o', filmen);
+        checkEinzelwert('q', query.q);
+        checkEinzelwert('fields', query.fields);
+        checkEinzelwert('facets', query.facets);
+        checkEinzelwert('filter', query.filter);
+        checkEinzelwert('page', query.page);
+        checkEinzelwert('size', query.size);
+        const { page, size, sort, fields, facets, filter, ...suchkriterien } =
+            query;
+        const pageable = createPageable({ number: page, size });
+        const sortOrders = createSort(sort);
+        const fieldsArray = createFields(fields);
+        const facetsArray = createFacets(facets);
+        const filterAusdruck = createFilter(filter);
+        const slice = await this.#service.find(suchkriterien, pageable, {
+            sort: sortOrders,
+            fields: fieldsArray,
+            filter: filterAusdruck,
+        });
+        const { content, totalElements } = slice;
+        this.#logger.debug('get: %o', content);
 
         // HATEOAS: Atom Links je Film
-        const filmenModel = filmen.map((film) =>
-            this.#toModel(film, req, false),
+        const filmenModel = content.map((film) =>
+            this.#toModel(film, req, { all: false, fields: fieldsArray }),
         );
         this.#logger.debug('get: filmenModel=%o', filmenModel);
 
-        const result: FilmenModel = { _embedded: { filmen: filmenModel } };
+        const facetsModel =
+            facetsArray === undefined
+                ? undefined
+                : await this.#service.facets(
+                      suchkriterien,
+                      facetsArray,
+                      filterAusdruck,
+                  );
+
+        const totalPages = Math.ceil(totalElements / pageable.size);
+        const result: FilmenModel<FilmFieldsModel> = {
+            _embedded: { filmen: filmenModel },
+            _links: this.#toPageLinks(req, pageable, totalPages),
+            page: {
+                size: pageable.size,
+                totalElements,
+                totalPages,
+                number: pageable.number,
+            },
+            facets: facetsModel,
+        };
         return res.contentType(APPLICATION_HAL_JSON).json(result).send();
     }
 
-    #toModel(film: Film, req: Request, all = true) {
+    #checkEmbed(embed: string | string[] | undefined) {
+        this.#logger.debug('#checkEmbed: embed=%s', embed);
+        checkEinzelwert('embed', embed);
+        if (embed === undefined) {
+            return false;
+        }
+        const werte = embed.split(',').map((wert) => wert.trim());
+        const ungueltig = werte.filter((wert) => !EMBED_WERTE.includes(wert));
+        if (ungueltig.length > 0) {
+            throw new BadRequestException(
+                `Ungueltiger Wert fuer embed: ${ungueltig.join(
+                    ', ',
+                )}. Erlaubt: ${EMBED_WERTE.join(', ')}`,
+            );
+        }
+        return werte.includes(paths.schauspielers);
+    }
+
+    // z.B. "1" ohne JWT und ohne Schauspieler oder "1-schauspielers-update"
+    #toETag(
+        version: number | undefined,
+        mitBesetzung: boolean,
+        { update, remove }: RoleLinks,
+    ) {
+        const varianten = [
+            mitBesetzung ? '-schauspielers' : '',
+            update ? '-update' : '',
+            remove ? '-remove' : '',
+        ].join('');
+        return `"${version}${varianten}"`;
+    }
+
+    async #toRoleLinks(req: RequestWithUser): Promise<RoleLinks> {
+        // ohne gueltigen JWT gibt es keine Links fuer schreibende Zugriffe
+        const user = await this.#userService.findById(req.user?.userId);
+        if (user === undefined) {
+            return { update: false, remove: false };
+        }
+        const hasRole = (roles: readonly Role[]) =>
+            roles.some((role) => user.roles.includes(role));
+        return { update: hasRole(ROLES_UPDATE), remove: hasRole(ROLES_REMOVE) };
+    }
+
+    #toPageLinks(
+        req: Request,
+        { number, size }: Pageable,
+        totalPages: number,
+    ): PageLinks {
+        const baseUri = getBaseUri(req);
+        // die anderen Query-Parameter bleiben bei den Links erhalten
+        const params = new URLSearchParams();
+        Object.entries(req.query)
+            .filter(([key]) => key !== 'page' && key !== 'size')
+            .forEach(([key, value]) => {
+                const values = Array.isArray(value) ? value : [value];
+                values
+                    .filter((v): v is string => typeof v === 'string')
+                    .forEach((v) => params.append(key, v));
+            });
+        const toLink = (pageNumber: number): Link => {
+            params.set('page', pageNumber.toString());
+            params.set('size', size.toString());
+            return { href: `${baseUri}?${params.toString()}` };
+        };
+
+        const lastPage = Math.max(totalPages - 1, 0);
+        return {
+            self: toLink(number),
+            first: toLink(0),
+            prev: number > 0 ? toLink(number - 1) : undefined,
+            next: number < lastPage ? toLink(number + 1) : undefined,
+            last: toLink(lastPage),
+        };
+    }
+
+    #toModel(
+        film: Film,
+        req: Request,
+        {
+            all = true,
+            roleLinks,
+            mitBesetzung = false,
+            fields,
+        }: ToModelParams = {},
+    ): FilmModel | FilmFieldsModel {
         const baseUri = getBaseUri(req);
         this.#logger.debug('#toModel: baseUri=%s', baseUri);
         const { id } = film;
-        const links = all
+        const self = { href: `${baseUri}/${id}` };
+        const schauspielers = {
+            href: `${baseUri}/${id}/${paths.schauspielers}`,
+        };
+        const links: Links = all
             ? {
-                  self: { href: `${baseUri}/${id}` },
+                  self,
                   list: { href: `${baseUri}` },
                   add: { href: `${baseUri}` },
+                  schauspielers,
+                  update: roleLinks?.update === true ? self : undefined,
+                  remove: roleLinks?.remove === true ? self : undefined,
               }
-            : { self: { href: `${baseUri}/${id}` } };
+            : { self, schauspielers };
 
         this.#logger.debug('#toModel: film=%o, links=%o', film, links);
+        if (fields !== undefined) {
+            return toFieldsModel(film, fields, links);
+        }
+
         const titelModel: TitelModel = {
             titel: film.titel.titel, // eslint-disable-line unicorn/consistent-destructuring
             originaltitel: film.titel.originaltitel ?? 'N/A', // eslint-disable-line unicorn/consistent-destructuring
@@ -306,9 +761,16 @@ export class FilmGetController {
             dauer: film.dauer,
             sprache: film.sprache,
             direktor: film.direktor,
-            genres: film.genres,
+            genres: film.genres?.map((genre) => genre.name),
             titel: titelModel,
             _links: links,
+            _embedded: mitBesetzung
+                ? {
+                      schauspielers: (film.besetzung ?? []).map((besetzung) =>
+                          toSchauspielerModel(besetzung, schauspielers.href),
+                      ),
+                  }
+                : undefined,
         };
         /* eslint-enable unicorn/consistent-destructuring */
 
@@ -1,3 +1,4 @@
+/* eslint-disable max-lines */
 /*
  * Copyright (C) 2021 - present Juergen Zimmermann, Hochschule Karlsruhe
  *
@@ -20,39 +21,75 @@
  * @packageDocumentation
  */
 
+import {
+    APPLICATION_JSON_PATCH_JSON,
+    APPLICATION_MERGE_PATCH_JSON,
+    applyJsonPatch,
+    applyMergePatch,
+} from './patch.js';
 import {
     ApiBadRequestResponse,
     ApiBearerAuth,
+    ApiConsumes,
     ApiCreatedResponse,
     ApiForbiddenResponse,
+    ApiHeader,
+    ApiNoContentResponse,
     ApiOperation,
+    ApiPreconditionFailedResponse,
+    ApiResponse,
     ApiTags,
+    ApiUnsupportedMediaTypeResponse,
 } from '@nestjs/swagger';
 import {
     Body,
     Controller,
+    Delete,
+    Headers,
+    HttpCode,
+    HttpStatus,
+    Param,
+    ParseIntPipe,
+    Patch,
     Post,
+    Put,
     Req,
     Res,
     UseGuards,
     UseInterceptors,
 } from '@nestjs/common';
+import { FilmDTO, FilmDtoOhneRef } from './filmDTO.entity.js';
+import {
+    type FilmUpdate,
+    FilmWriteService,
+} from '../service/film-write.service.js';
+import { ApplicationConfig } from '@nestjs/core';
+import { type Besetzung } from '../entity/besetzung.entity.js';
 import { type Film } from '../entity/film.entity.js';
-import { FilmDTO } from './filmDTO.entity.js';
-import { FilmWriteService } from '../service/film-write.service.js';
+import { FilmReadService } from '../service/film-read.service.js';
 // eslint-disable-next-line sort-imports
 import { Request, Response } from 'express';
 import { JwtAuthGuard } from '../../security/auth/jwt/jwt-auth.guard.js';
 import { ResponseTimeInterceptor } from '../../logger/response-time.interceptor.js';
 import { RolesAllowed } from '../../security/auth/roles/roles-allowed.decorator.js';
 import { RolesGuard } from '../../security/auth/roles/roles.guard.js';
-import { type Schauspieler } from '../entity/schauspieler.entity.js';
 import { type Titel } from '../entity/titel.entity.js';
+import { ValidationPipe } from '../../validation/validation.pipe.js';
 import { getBaseUri } from './getBaseUri.js';
 import { getLogger } from '../../logger/logger.js';
 import { paths } from '../../config/paths.js';
 
 const MSG_FORBIDDEN = 'Kein Token mit ausreichender Berechtigung vorhanden';
+const MSG_PRECONDITION_REQUIRED = 'Header "If-Match" fehlt';
+
+/** Funktionen, um einen Patch je nach Content-Type anzuwenden. */
+const patchFunctions: Record<
+    string,
+    (target: unknown, patch: unknown) => unknown
+> = {
+    [APPLICATION_MERGE_PATCH_JSON]: applyMergePatch,
+    [APPLICATION_JSON_PATCH_JSON]: applyJsonPatch,
+};
 /**
  * Die Controller-Klasse für die Verwaltung von Filmen.
  */
@@ -64,10 +101,20 @@ const MSG_FORBIDDEN = 'Kein Token mit ausreichender Berechtigung vorhanden';
 export class FilmWriteController {
     readonly #service: FilmWriteService;
 
+    readonly #readService: FilmReadService;
+
+    readonly #applicationConfig: ApplicationConfig;
+
     readonly #logger = getLogger(FilmWriteController.name);
 
-    constructor(service: FilmWriteService) {
+    constructor(
+        service: FilmWriteService,
+        readService: FilmReadService,
+        applicationConfig: ApplicationConfig,
+    ) {
         this.#service = service;
+        this.#readService = readService;
+        this.#applicationConfig = applicationConfig;
     }
 
     /**
@@ -106,6 +153,254 @@ export class FilmWriteController {
         return res.location(location).send();
     }
 
+    /**
+     * Ein vorhandener Film wird asynchron aktualisiert.
+     *
+     * Im Request-Objekt von Express muss die ID des zu aktualisierenden Filmes
+     * als Pfad-Parameter enthalten sein. Außerdem muss im Rumpf der zu
+     * aktualisierende Film als JSON-Datensatz enthalten sein. Damit die
+     * Aktualisierung überhaupt durchgeführt werden kann, muss im Header
+     * `If-Match` auf die korrekte Version für optimistische Synchronisation
+     * gesetzt sein.
+     *
+     * Bei erfolgreicher Aktualisierung wird der Statuscode `204` (`No Content`)
+     * gesetzt und im Header auch `ETag` mit der neuen Version mitgeliefert.
+     *
+     * Falls die Versionsnummer fehlt, wird der Statuscode `428` (`Precondition
+     * required`) gesetzt; und falls sie nicht korrekt ist, der Statuscode `412`
+     * (`Precondition failed`). Falls Constraints verletzt sind, wird der
+     * Statuscode `400` (`Bad Request`) gesetzt.
+     *
+     * @param filmDTO Filmdaten im Body des Request-Objekts.
+     * @param id Pfad-Paramater für die ID.
+     * @param version Versionsnummer aus dem Header _If-Match_.
+     * @param res Leeres Response-Objekt von Express.
+     * @returns Leeres Promise-Objekt.
+     */
+    // eslint-disable-next-line max-params
+    @Put(':id')
+    @RolesAllowed('admin', 'fachabteilung')
+    @HttpCode(HttpStatus.NO_CONTENT)
+    @ApiOperation({ summary: 'Ein vorhandener Film aktualisieren' })
+    @ApiHeader({
+        name: 'If-Match',
+        description: 'Header für optimistische Synchronisation',
+        required: false,
+    })
+    @ApiNoContentResponse({ description: 'Erfolgreich aktualisiert' })
+    @ApiBadRequestResponse({ description: 'Fehlerhafte Filmdaten' })
+    @ApiPreconditionFailedResponse({
+        description: 'Falsche Version im Header "If-Match"',
+    })
+    @ApiResponse({
+        status: HttpStatus.PRECONDITION_REQUIRED,
+        description: MSG_PRECONDITION_REQUIRED,
+    })
+    @ApiForbiddenResponse({ description: MSG_FORBIDDEN })
+    async put(
+        @Body() filmDTO: FilmDtoOhneRef,
+        @Param('id', ParseIntPipe) id: number,
+        @Headers('If-Match') version: string | undefined,
+        @Res() res: Response,
+    ): Promise<Response> {
+        this.#logger.debug(
+            'put: id=%s, filmDTO=%o, version=%s',
+            id,
+            filmDTO,
+            version,
+        );
+
+        if (version === undefined) {
+            return this.#sendPreconditionRequired(res);
+        }
+
+        const film = this.#filmDtoOhneRefToFilm(filmDTO);
+        const neueVersion = await this.#service.update({ id, film, version });
+        this.#logger.debug('put: version=%d', neueVersion);
+        return res.header('ETag', `"${neueVersion}"`).send();
+    }
+
+    /**
+     * Ein vorhandener Film wird asynchron teilweise aktualisiert. Im Request-Body
+     * ist entweder ein _JSON Merge Patch_ gemäß RFC 7396 mit dem Content-Type
+     * `application/merge-patch+json` oder ein _JSON Patch_ gemäß RFC 6902 mit
+     * dem Content-Type `application/json-patch+json`. Der Patch bezieht sich
+     * auf die Darstellung als `FilmDTO`, d.h. auch auf `titel` und das Array
+     * `schauspielers`.
+     *
+     * Der geänderte Film wird mit denselben Regeln wie bei `POST` validiert.
+     * Für `If-Match` und die Statuscodes gilt dasselbe wie bei `PUT`. Falls der
+     * Patch nicht angewendet werden kann, wird der Statuscode `400`
+     * (`Bad Request`) gesetzt und bei einem anderen Content-Type der Statuscode
+     * `415` (`Unsupported Media Type`).
+     *
+     * @param patch Merge Patch oder JSON Patch im Body des Request-Objekts.
+     * @param id Pfad-Paramater für die ID.
+     * @param version Versionsnummer aus dem Header _If-Match_.
+     * @param req Request-Objekt von Express für den Content-Type.
+     * @param res Leeres Response-Objekt von Express.
+     * @returns Leeres Promise-Objekt.
+     */
+    // eslint-disable-next-line max-params
+    @Patch(':id')
+    @RolesAllowed('admin', 'fachabteilung')
+    @HttpCode(HttpStatus.NO_CONTENT)
+    @ApiOperation({ summary: 'Ein vorhandener Film teilweise aktualisieren' })
+    @ApiConsumes(APPLICATION_MERGE_PATCH_JSON, APPLICATION_JSON_PATCH_JSON)
+    @ApiHeader({
+        name: 'If-Match',
+        description: 'Header für optimistische Synchronisation',
+        required: false,
+    })
+    @ApiNoContentResponse({ description: 'Erfolgreich aktualisiert' })
+    @ApiBadRequestResponse({ description: 'Fehlerhafter Patch' })
+    @ApiPreconditionFailedResponse({
+        description: 'Falsche Version im Header "If-Match"',
+    })
+    @ApiResponse({
+        status: HttpStatus.PRECONDITION_REQUIRED,
+        description: MSG_PRECONDITION_REQUIRED,
+    })
+    @ApiUnsupportedMediaTypeResponse({
+        description: 'Kein Merge Patch und kein JSON Patch',
+    })
+    @ApiForbiddenResponse({ description: MSG_FORBIDDEN })
+    async patch(
+        @Body() patch: unknown,
+        @Param('id', ParseIntPipe) id: number,
+        @Headers('If-Match') version: string | undefined,
+        @Req() req: Request,
+        @Res() res: Response,
+    ): Promise<Response> {
+        this.#logger.debug(
+            'patch: id=%s, patch=%o, version=%s',
+            id,
+            patch,
+            version,
+        );
+
+        const applyPatch = this.#getApplyPatch(req);
+        if (applyPatch === undefined) {
+            this.#logger.debug(
+                'patch: content-type=%s',
+                req.get('Content-Type'),
+            );
+            return res.sendStatus(HttpStatus.UNSUPPORTED_MEDIA_TYPE);
+        }
+
+        if (version === undefined) {
+            return this.#sendPreconditionRequired(res);
+        }
+
+        const film = await this.#patchFilm(id, patch, applyPatch);
+        const neueVersion = await this.#service.update({
+            id,
+            film: { ...film, aktualisiert: new Date() },
+            version,
+        });
+        this.#logger.debug('patch: version=%d', neueVersion);
+        return res.header('ETag', `"${neueVersion}"`).send();
+    }
+
+    /**
+     * Ein Film wird anhand seiner ID-gelöscht, die als Pfad-Parameter angegeben
+     * ist. Der zurückgelieferte Statuscode ist `204` (`No Content`), auch
+     * dann, wenn es keinen Film zur ID gab.
+     *
+     * @param id Pfad-Paramater für die ID.
+     * @returns Leeres Promise-Objekt.
+     */
+    @Delete(':id')
+    @RolesAllowed('admin')
+    @HttpCode(HttpStatus.NO_CONTENT)
+    @ApiOperation({ summary: 'Film mit der ID löschen' })
+    @ApiNoContentResponse({
+        description: 'Der Film wurde gelöscht oder war nicht vorhanden',
+    })
+    @ApiForbiddenResponse({ description: MSG_FORBIDDEN })
+    async delete(@Param('id', ParseIntPipe) id: number) {
+        this.#logger.debug('delete: id=%s', id);
+        await this.#service.delete(id);
+    }
+
+    async #patchFilm(
+        id: number,
+        patch: unknown,
+        applyPatch: (target: unknown, patch: unknown) => unknown,
+    ) {
+        const filmDb = await this.#readService.findById({
+            id,
+            mitBesetzung: true,
+        });
+        const patched = applyPatch(this.#filmToFilmDto(filmDb), patch);
+        this.#logger.debug('#patchFilm: patched=%o', patched);
+
+        // dieselben Constraints wie bei POST bzw. beim globalen ValidationPipe
+        const filmDTO = (await this.#getValidationPipe().transform(patched, {
+            type: 'body',
+            metatype: FilmDTO,
+        })) as FilmDTO;
+        return this.#filmDtoToFilm(filmDTO);
+    }
+
+    // der globale ValidationPipe aus main.ts bzw. vom Testserver, damit z.B.
+    // der Statuscode bei ungueltigen Daten derselbe ist wie bei POST und PUT
+    #getValidationPipe() {
+        return (
+            this.#applicationConfig
+                .getGlobalPipes()
+                .find(
+                    (pipe): pipe is ValidationPipe =>
+                        pipe instanceof ValidationPipe,
+                ) ?? new ValidationPipe()
+        );
+    }
+
+    #getApplyPatch(req: Request) {
+        const contentType = req.is(Object.keys(patchFunctions));
+        return typeof contentType === 'string'
+            ? patchFunctions[contentType] // eslint-disable-line security/detect-object-injection
+            : undefined;
+    }
+
+    #sendPreconditionRequired(res: Response) {
+        this.#logger.debug(
+            '#sendPreconditionRequired: msg=%s',
+            MSG_PRECONDITION_REQUIRED,
+        );
+        return res
+            .status(HttpStatus.PRECONDITION_REQUIRED)
+            .set('Content-Type', 'application/json')
+            .send(MSG_PRECONDITION_REQUIRED);
+    }
+
+    #filmToFilmDto(film: Film) {
+        return {
+            rating: film.rating,
+            filmstart: film.filmstart,
+            dauer: film.dauer,
+            sprache: film.sprache,
+            direktor: film.direktor,
+            genres: film.genres?.map((genre) => genre.name),
+            titel: {
+                titel: film.titel.titel,
+                originaltitel: film.titel.originaltitel,
+                serienname: film.titel.serienname,
+            },
+            schauspielers: (film.besetzung ?? []).map(
+                ({ rolle, reihenfolge, person }) => ({
+                    vorname: person!.vorname,
+                    nachname: person!.nachname,
+                    geschlecht: person!.geschlecht,
+                    email: person!.email,
+                    telefonnummer: person!.telefonnummer,
+                    rolle,
+                    reihenfolge,
+                }),
+            ),
+        };
+    }
+
     #filmDtoToFilm(filmDTO: FilmDTO): Film {
         const titelDTO = filmDTO.titel;
         const titel: Titel = {
@@ -115,18 +410,27 @@ export class FilmWriteController {
             serienname: titelDTO.serienname,
             film: undefined,
         };
-        const schauspielers = filmDTO.schauspielers.map((schauspielerDTO) => {
-            const schauspieler: Schauspieler = {
-                id: undefined,
-                vorname: schauspielerDTO.vorname,
-                nachname: schauspielerDTO.nachname,
-                geschlecht: schauspielerDTO.geschlecht,
-                email: schauspielerDTO.email,
-                telefonnummer: schauspielerDTO.telefonnummer,
-                film: undefined,
-            };
-            return schauspieler;
-        });
+        // Reihenfolge im Abspann gemaess Array, falls nicht explizit angegeben
+        const besetzung = filmDTO.schauspielers.map(
+            (schauspielerDTO, index) => {
+                const schauspieler: Besetzung = {
+                    id: undefined,
+                    rolle: schauspielerDTO.rolle,
+                    reihenfolge: schauspielerDTO.reihenfolge ?? index + 1,
+                    film: undefined,
+                    person: {
+                        id: undefined,
+                        vorname: schauspielerDTO.vorname,
+                        nachname: schauspielerDTO.nachname,
+                        geschlecht: schauspielerDTO.geschlecht,
+                        email: schauspielerDTO.email,
+                        telefonnummer: schauspielerDTO.telefonnummer,
+                        besetzungen: undefined,
+                    },
+                };
+                return schauspieler;
+            },
+        );
         const film = {
             id: undefined,
             version: undefined,
@@ -135,18 +439,35 @@ export class FilmWriteController {
             dauer: filmDTO.dauer,
             sprache: filmDTO.sprache,
             direktor: filmDTO.direktor,
-            genres: filmDTO.genres,
+            genres: filmDTO.genres?.map((name) => ({ id: undefined, name })),
             titel,
-            schauspielers,
+            besetzung,
             erzeugt: undefined,
             aktualisiert: undefined,
         };
 
         // Rueckwaertsverweise
         film.titel.film = film;
-        film.schauspielers.forEach((schauspieler: Schauspieler) => {
+        film.besetzung.forEach((schauspieler: Besetzung) => {
             schauspieler.film = film;
         });
         return film;
     }
+
+    #filmDtoOhneRefToFilm(filmDTO: FilmDtoOhneRef): FilmUpdate {
+        // ohne Titel und Schauspieler, die beim Aktualisieren unveraendert bleiben
+        return {
+            id: undefined,
+            version: undefined,
+            rating: filmDTO.rating,
+            filmstart: filmDTO.filmstart,
+            dauer: filmDTO.dauer,
+            sprache: filmDTO.sprache,
+            direktor: filmDTO.direktor,
+            genres: filmDTO.genres?.map((name) => ({ id: undefined, name })),
+            erzeugt: undefined,
+            aktualisiert: new Date(),
+        };
+    }
 }
+/* eslint-enable max-lines */
@@ -72,9 +72,10 @@ export class FilmDtoOhneRef {
     @ApiProperty({ example: 'James Cameron', type: String })
     readonly direktor: string | undefined;
 
+    // nur Genres aus dem Genre-Katalog, was beim Speichern ueberprueft wird
     @IsOptional()
     @ArrayUnique()
-    @ApiProperty({ example: 'HORROR', type: String })
+    @ApiProperty({ example: ['HORROR'], type: [String] })
     readonly genres: string[] | undefined;
 }
 
@@ -0,0 +1,183 @@
+/*
+ * Copyright (C) 2024 - present Juergen Zimmermann, Hochschule Karlsruhe
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with this program.  If not, see <https://www.gnu.org/licenses/>.
+ */
+
+/**
+ * Das Modul besteht aus der Controller-Klasse für den Genre-Katalog an der
+ * REST-Schnittstelle.
+ * @packageDocumentation
+ */
+
+import {
+    ApiBadRequestResponse,
+    ApiBearerAuth,
+    ApiCreatedResponse,
+    ApiForbiddenResponse,
+    ApiNoContentResponse,
+    ApiNotFoundResponse,
+    ApiOkResponse,
+    ApiOperation,
+    ApiTags,
+    ApiUnprocessableEntityResponse,
+} from '@nestjs/swagger';
+import {
+    Body,
+    Controller,
+    Delete,
+    Get,
+    HttpCode,
+    HttpStatus,
+    Param,
+    ParseIntPipe,
+    Post,
+    Put,
+    Req,
+    Res,
+    UseGuards,
+    UseInterceptors,
+} from '@nestjs/common';
+import { Request, Response } from 'express';
+import { type Genre } from '../entity/genre.entity.js';
+import { GenreDTO } from './genreDTO.entity.js';
+import { GenreService } from '../service/genre.service.js';
+import { JwtAuthGuard } from '../../security/auth/jwt/jwt-auth.guard.js';
+import { ResponseTimeInterceptor } from '../../logger/response-time.interceptor.js';
+import { RolesAllowed } from '../../security/auth/roles/roles-allowed.decorator.js';
+import { RolesGuard } from '../../security/auth/roles/roles.guard.js';
+import { getBaseUri } from './getBaseUri.js';
+import { getLogger } from '../../logger/logger.js';
+import { paths } from '../../config/paths.js';
+
+const MSG_FORBIDDEN = 'Kein Token mit ausreichender Berechtigung vorhanden';
+
+/**
+ * Die Controller-Klasse für die Verwaltung des Genre-Katalogs. Alle
+ * Operationen sind Administratoren vorbehalten.
+ */
+@Controller(`${paths.rest}/${paths.genres}`)
+@UseGuards(JwtAuthGuard, RolesGuard)
+@UseInterceptors(ResponseTimeInterceptor)
+@ApiTags('Genre REST-API')
+@ApiBearerAuth()
+export class GenreController {
+    readonly #service: GenreService;
+
+    readonly #logger = getLogger(GenreController.name);
+
+    constructor(service: GenreService) {
+        this.#service = service;
+    }
+
+    /**
+     * Alle Genres im Katalog werden alphabetisch sortiert ermittelt.
+     * @returns Ein JSON-Array mit den Genres.
+     */
+    @Get()
+    @RolesAllowed('admin')
+    @ApiOperation({ summary: 'Alle Genres im Katalog' })
+    @ApiOkResponse({ description: 'Eine evtl. leere Liste mit Genres' })
+    @ApiForbiddenResponse({ description: MSG_FORBIDDEN })
+    async get(): Promise<Genre[]> {
+        this.#logger.debug('get');
+        return this.#service.find();
+    }
+
+    /**
+     * Ein Genre wird anhand seiner ID gesucht.
+     * @param id Pfad-Parameter `id`
+     * @returns Das gefundene Genre.
+     */
+    @Get(':id')
+    @RolesAllowed('admin')
+    @ApiOperation({ summary: 'Suche mit der Genre-ID' })
+    @ApiOkResponse({ description: 'Das Genre wurde gefunden' })
+    @ApiNotFoundResponse({ description: 'Kein Genre zur ID gefunden' })
+    @ApiForbiddenResponse({ description: MSG_FORBIDDEN })
+    async getById(@Param('id', ParseIntPipe) id: number): Promise<Genre> {
+        this.#logger.debug('getById: id=%d', id);
+        return this.#service.findById(id);
+    }
+
+    /**
+     * Ein neues Genre wird in den Katalog aufgenommen. Im Response-Header
+     * wird `Location` auf die URI des neuen Genres gesetzt. Falls das Genre
+     * bereits existiert, wird der Statuscode `422` gesetzt.
+     * @param genreDTO JSON-Daten für ein Genre im Request-Body.
+     * @param req Request-Objekt von Express.
+     * @param res Leeres Response-Objekt von Express.
+     * @returns Leeres Promise-Objekt.
+     */
+    @Post()
+    @RolesAllowed('admin')
+    @ApiOperation({ summary: 'Ein neues Genre anlegen' })
+    @ApiCreatedResponse({ description: 'Erfolgreich neu angelegt' })
+    @ApiBadRequestResponse({ description: 'Fehlerhafter Name' })
+    @ApiUnprocessableEntityResponse({ description: 'Das Genre existiert' })
+    @ApiForbiddenResponse({ description: MSG_FORBIDDEN })
+    async post(
+        @Body() genreDTO: GenreDTO,
+        @Req() req: Request,
+        @Res() res: Response,
+    ): Promise<Response> {
+        this.#logger.debug('post: genreDTO=%o', genreDTO);
+
+        const id = await this.#service.create(genreDTO.name);
+
+        const location = `${getBaseUri(req)}/${id}`;
+        this.#logger.debug('post: location=%s', location);
+        return res.location(location).send();
+    }
+
+    /**
+     * Ein vorhandenes Genre wird umbenannt. Die Zuordnungen zu den Filmen
+     * bleiben erhalten.
+     * @param id Pfad-Paramater für die ID.
+     * @param genreDTO Der neue Name im Request-Body.
+     */
+    @Put(':id')
+    @RolesAllowed('admin')
+    @HttpCode(HttpStatus.NO_CONTENT)
+    @ApiOperation({ summary: 'Ein vorhandenes Genre umbenennen' })
+    @ApiNoContentResponse({ description: 'Erfolgreich aktualisiert' })
+    @ApiNotFoundResponse({ description: 'Kein Genre zur ID gefunden' })
+    @ApiUnprocessableEntityResponse({ description: 'Das Genre existiert' })
+    @ApiForbiddenResponse({ description: MSG_FORBIDDEN })
+    async put(
+        @Param('id', ParseIntPipe) id: number,
+        @Body() genreDTO: GenreDTO,
+    ) {
+        this.#logger.debug('put: id=%d, genreDTO=%o', id, genreDTO);
+        await this.#service.update({ id, name: genreDTO.name });
+    }
+
+    /**
+     * Ein Genre wird aus dem Katalog und bei allen Filmen gelöscht. Der
+     * Statuscode ist `204` (`No Content`), auch wenn es kein Genre zur ID gab.
+     * @param id Pfad-Paramater für die ID.
+     */
+    @Delete(':id')
+    @RolesAllowed('admin')
+    @HttpCode(HttpStatus.NO_CONTENT)
+    @ApiOperation({ summary: 'Genre mit der ID löschen' })
+    @ApiNoContentResponse({
+        description: 'Das Genre wurde gelöscht oder war nicht vorhanden',
+    })
+    @ApiForbiddenResponse({ description: MSG_FORBIDDEN })
+    async delete(@Param('id', ParseIntPipe) id: number) {
+        this.#logger.debug('delete: id=%d', id);
+        await this.#service.delete(id);
+    }
+}
@@ -0,0 +1,37 @@
+/*
+ * Copyright (C) 2024 - present Juergen Zimmermann, Hochschule Karlsruhe
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with this program.  If not, see <https://www.gnu.org/licenses/>.
+ */
+/* eslint-disable @typescript-eslint/no-magic-numbers */
+
+/**
+ * Das Modul besteht aus der Entity-Klasse.
+ * @packageDocumentation
+ */
+
+import { Matches, MaxLength } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+
+/**
+ * Entity-Klasse für ein Genre ohne TypeORM.
+ */
+export class GenreDTO {
+    // Grossbuchstaben wie bei den bisherigen Genres, z.B. ACTION oder SCIENCE_FICTION
+    @Matches('^[A-Z][A-Z\\d_]*$')
+    @MaxLength(40)
+    @ApiProperty({ example: 'HORROR', type: String })
+    readonly name!: string;
+}
+/* eslint-enable @typescript-eslint/no-magic-numbers */
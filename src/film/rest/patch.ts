@@ -0,0 +1,89 @@
+/*
+ * Copyright (C) 2021 - present Juergen Zimmermann, Hochschule Karlsruhe
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with this program.  If not, see <https://www.gnu.org/licenses/>.
+ */
+
+/**
+ * Das Modul besteht aus den Funktionen für _JSON Merge Patch_ (RFC 7396) und
+ * _JSON Patch_ (RFC 6902) an der REST-Schnittstelle.
+ * @packageDocumentation
+ */
+
+import jsonpatch, { type Operation } from 'fast-json-patch';
+import { BadRequestException } from '@nestjs/common';
+
+/** MIME-Type für _JSON Merge Patch_ gemäß RFC 7396. */
+export const APPLICATION_MERGE_PATCH_JSON = 'application/merge-patch+json';
+
+/** MIME-Type für _JSON Patch_ gemäß RFC 6902. */
+export const APPLICATION_JSON_PATCH_JSON = 'application/json-patch+json';
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+    typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * Ein _JSON Merge Patch_ gemäß RFC 7396 wird auf ein JSON-Objekt angewendet.
+ * Properties mit dem Wert `null` werden entfernt, JSON-Objekte werden rekursiv
+ * zusammengeführt und alle anderen Werte, insbesondere Arrays, ersetzt.
+ * @param target Das zu ändernde JSON-Objekt, das nicht verändert wird
+ * @param patch Der Merge Patch aus dem Request-Body
+ * @returns Das geänderte JSON-Objekt
+ */
+export const applyMergePatch = (target: unknown, patch: unknown): unknown => {
+    if (!isPlainObject(patch)) {
+        return patch;
+    }
+
+    const result: Record<string, unknown> = isPlainObject(target)
+        ? { ...target }
+        : {};
+    Object.entries(patch).forEach(([key, value]) => {
+        if (value === null) {
+            delete result[key]; // eslint-disable-line @typescript-eslint/no-dynamic-delete, security/detect-object-injection
+        } else {
+            result[key] = applyMergePatch(result[key], value); // eslint-disable-line security/detect-object-injection
+        }
+    });
+    return result;
+};
+
+/**
+ * Ein _JSON Patch_ gemäß RFC 6902 wird auf ein JSON-Objekt angewendet.
+ * @param target Das zu ändernde JSON-Objekt, das nicht verändert wird
+ * @param patch Das Array mit den Patch-Operationen aus dem Request-Body
+ * @returns Das geänderte JSON-Objekt
+ * @throws BadRequestException falls die Operationen ungültig sind oder nicht
+ *         angewendet werden können, z.B. bei einem fehlgeschlagenen `test`
+ */
+export const applyJsonPatch = (target: unknown, patch: unknown): unknown => {
+    if (!Array.isArray(patch)) {
+        throw new BadRequestException(
+            'Der JSON Patch muss ein Array mit Operationen sein.',
+        );
+    }
+
+    const operations = patch as Operation[];
+    try {
+        return jsonpatch.applyPatch(target, operations, true, false)
+            .newDocument;
+    } catch (err) {
+        if (err instanceof jsonpatch.JsonPatchError) {
+            throw new BadRequestException(
+                `Ungueltiger JSON Patch: ${err.name} bei Operation ${err.index}`,
+            );
+        }
+        throw err;
+    }
+};
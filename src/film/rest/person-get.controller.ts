@@ -0,0 +1,242 @@
+/*
+ * Copyright (C) 2024 - present Juergen Zimmermann, Hochschule Karlsruhe
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with this program.  If not, see <https://www.gnu.org/licenses/>.
+ */
+
+/**
+ * Das Modul besteht aus der Controller-Klasse für das Lesen der Personen und
+ * ihrer Filmografie an der REST-Schnittstelle.
+ * @packageDocumentation
+ */
+
+import {
+    ApiNotFoundResponse,
+    ApiOkResponse,
+    ApiOperation,
+    ApiParam,
+    ApiTags,
+} from '@nestjs/swagger';
+import {
+    Controller,
+    Get,
+    Param,
+    ParseIntPipe,
+    Req,
+    Res,
+    UseInterceptors,
+} from '@nestjs/common';
+import { Request, Response } from 'express';
+import { type Besetzung } from '../entity/besetzung.entity.js';
+import { type Link } from './film-get.controller.js';
+import { type Person } from '../entity/person.entity.js';
+import { PersonService } from '../service/person.service.js';
+import { ResponseTimeInterceptor } from '../../logger/response-time.interceptor.js';
+import { getBaseUri } from './getBaseUri.js';
+import { getLogger } from '../../logger/logger.js';
+import { paths } from '../../config/paths.js';
+
+/** Links für HATEOAS zu einer Person */
+export interface PersonLinks {
+    /** self-Link */
+    readonly self: Link;
+    /** Link zur Filmografie */
+    readonly filme: Link;
+}
+
+/** Person-Objekt mit HATEOAS-Links */
+export type PersonModel = Omit<Person, 'besetzungen' | 'id'> & {
+    // eslint-disable-next-line @typescript-eslint/naming-convention
+    _links: PersonLinks;
+};
+
+/** Person-Objekte mit HATEOAS-Links in einem JSON-Array. */
+export interface PersonenModel {
+    // eslint-disable-next-line @typescript-eslint/naming-convention
+    _embedded: {
+        personen: PersonModel[];
+    };
+    // eslint-disable-next-line @typescript-eslint/naming-convention
+    _links: { self: Link };
+}
+
+/** Ein Film in der Filmografie einer Person mit Rolle und Reihenfolge. */
+export interface FilmografieEintragModel {
+    readonly titel: string | undefined;
+    readonly filmstart: Date | string | undefined;
+    readonly rolle: string | undefined;
+    readonly reihenfolge: number | undefined;
+    // eslint-disable-next-line @typescript-eslint/naming-convention
+    _links: { film: Link };
+}
+
+/** Die Filmografie einer Person mit HATEOAS-Links. */
+export interface FilmografieModel {
+    // eslint-disable-next-line @typescript-eslint/naming-convention
+    _embedded: {
+        filme: FilmografieEintragModel[];
+    };
+    // eslint-disable-next-line @typescript-eslint/naming-convention
+    _links: { self: Link; person: Link };
+}
+
+const APPLICATION_HAL_JSON = 'application/hal+json';
+
+const ID_PERSON = 'Person-ID, z.B. 1';
+
+/**
+ * Die Controller-Klasse für das Lesen der Personen, die unabhängig von den
+ * Filmen verwaltet werden.
+ */
+@Controller(`${paths.rest}/${paths.personen}`)
+@UseInterceptors(ResponseTimeInterceptor)
+@ApiTags('Person REST-API')
+export class PersonGetController {
+    readonly #service: PersonService;
+
+    readonly #logger = getLogger(PersonGetController.name);
+
+    constructor(service: PersonService) {
+        this.#service = service;
+    }
+
+    /**
+     * Alle Personen werden nach Nach- und Vornamen sortiert ermittelt.
+     *
+     * @param req Request-Objekt von Express.
+     * @param res Leeres Response-Objekt von Express.
+     * @returns Leeres Promise-Objekt.
+     */
+    @Get()
+    @ApiOperation({ summary: 'Alle Personen' })
+    @ApiOkResponse({ description: 'Eine evtl. leere Liste mit Personen' })
+    async get(
+        @Req() req: Request,
+        @Res() res: Response,
+    ): Promise<Response<PersonenModel>> {
+        this.#logger.debug('get');
+
+        const personen = await this.#service.find();
+        const baseUri = getBaseUri(req);
+        const result: PersonenModel = {
+            _embedded: {
+                personen: personen.map((person) =>
+                    this.#toModel(person, baseUri),
+                ),
+            },
+            _links: { self: { href: baseUri } },
+        };
+        return res.contentType(APPLICATION_HAL_JSON).json(result);
+    }
+
+    /**
+     * Eine Person wird anhand ihrer ID gesucht.
+     *
+     * @param id Pfad-Parameter `id`
+     * @param req Request-Objekt von Express.
+     * @param res Leeres Response-Objekt von Express.
+     * @returns Leeres Promise-Objekt.
+     */
+    @Get(':id')
+    @ApiOperation({ summary: 'Suche mit der Person-ID' })
+    @ApiParam({ name: 'id', description: ID_PERSON })
+    @ApiOkResponse({ description: 'Die Person wurde gefunden' })
+    @ApiNotFoundResponse({ description: 'Keine Person zur ID gefunden' })
+    async getById(
+        @Param('id', ParseIntPipe) id: number,
+        @Req() req: Request,
+        @Res() res: Response,
+    ): Promise<Response<PersonModel>> {
+        this.#logger.debug('getById: id=%d', id);
+
+        const person = await this.#service.findById(id);
+        const model = this.#toModel(person, getBaseUri(req));
+        this.#logger.debug('getById: model=%o', model);
+        return res.contentType(APPLICATION_HAL_JSON).json(model);
+    }
+
+    /**
+     * Die Filmografie einer Person wird ermittelt, d.h. die Filme mit der
+     * jeweiligen Rolle, sortiert nach dem Filmstart.
+     *
+     * @param id Pfad-Parameter `id`
+     * @param req Request-Objekt von Express.
+     * @param res Leeres Response-Objekt von Express.
+     * @returns Leeres Promise-Objekt.
+     */
+    @Get(`:id/${paths.filme}`)
+    @ApiOperation({ summary: 'Die Filmografie einer Person' })
+    @ApiParam({ name: 'id', description: ID_PERSON })
+    @ApiOkResponse({ description: 'Eine evtl. leere Liste mit Filmen' })
+    @ApiNotFoundResponse({ description: 'Keine Person zur ID gefunden' })
+    async getFilmografie(
+        @Param('id', ParseIntPipe) id: number,
+        @Req() req: Request,
+        @Res() res: Response,
+    ): Promise<Response<FilmografieModel>> {
+        this.#logger.debug('getFilmografie: id=%d', id);
+
+        const besetzungen = await this.#service.findFilmografie(id);
+        // ".../rest/personen/1/filme" => ".../rest/personen/1"
+        const selfUri = getBaseUri(req);
+        const personUri = selfUri.slice(0, selfUri.lastIndexOf('/'));
+        const restUri = personUri.slice(
+            0,
+            personUri.lastIndexOf(`/${paths.personen}/`),
+        );
+        const result: FilmografieModel = {
+            _embedded: {
+                filme: besetzungen.map((besetzung) =>
+                    this.#toFilmografieEintrag(besetzung, restUri),
+                ),
+            },
+            _links: {
+                self: { href: selfUri },
+                person: { href: personUri },
+            },
+        };
+        this.#logger.debug('getFilmografie: result=%o', result);
+        return res.contentType(APPLICATION_HAL_JSON).json(result);
+    }
+
+    #toModel(person: Person, baseUri: string): PersonModel {
+        const { id, vorname, nachname, geschlecht, email, telefonnummer } =
+            person;
+        return {
+            vorname,
+            nachname,
+            geschlecht,
+            email,
+            telefonnummer,
+            _links: {
+                self: { href: `${baseUri}/${id}` },
+                filme: { href: `${baseUri}/${id}/${paths.filme}` },
+            },
+        };
+    }
+
+    #toFilmografieEintrag(
+        besetzung: Besetzung,
+        restUri: string,
+    ): FilmografieEintragModel {
+        const { rolle, reihenfolge, film } = besetzung;
+        return {
+            titel: film?.titel.titel,
+            filmstart: film?.filmstart,
+            rolle,
+            reihenfolge,
+            _links: { film: { href: `${restUri}/${film?.id}` } },
+        };
+    }
+}
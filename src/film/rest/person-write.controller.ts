@@ -0,0 +1,175 @@
+/*
+ * Copyright (C) 2024 - present Juergen Zimmermann, Hochschule Karlsruhe
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with this program.  If not, see <https://www.gnu.org/licenses/>.
+ */
+
+/**
+ * Das Modul besteht aus der Controller-Klasse für das Schreiben der Personen
+ * an der REST-Schnittstelle.
+ * @packageDocumentation
+ */
+
+import {
+    ApiBadRequestResponse,
+    ApiBearerAuth,
+    ApiCreatedResponse,
+    ApiForbiddenResponse,
+    ApiNoContentResponse,
+    ApiNotFoundResponse,
+    ApiOperation,
+    ApiParam,
+    ApiTags,
+    ApiUnprocessableEntityResponse,
+} from '@nestjs/swagger';
+import {
+    Body,
+    Controller,
+    Delete,
+    HttpCode,
+    HttpStatus,
+    Param,
+    ParseIntPipe,
+    Post,
+    Put,
+    Req,
+    Res,
+    UseGuards,
+    UseInterceptors,
+} from '@nestjs/common';
+import { Request, Response } from 'express';
+import { JwtAuthGuard } from '../../security/auth/jwt/jwt-auth.guard.js';
+import { type Person } from '../entity/person.entity.js';
+import { PersonDTO } from './personDTO.entity.js';
+import { PersonService } from '../service/person.service.js';
+import { ResponseTimeInterceptor } from '../../logger/response-time.interceptor.js';
+import { RolesAllowed } from '../../security/auth/roles/roles-allowed.decorator.js';
+import { RolesGuard } from '../../security/auth/roles/roles.guard.js';
+import { getBaseUri } from './getBaseUri.js';
+import { getLogger } from '../../logger/logger.js';
+import { paths } from '../../config/paths.js';
+
+const ID_PERSON = 'Person-ID, z.B. 1';
+
+const MSG_FORBIDDEN = 'Kein Token mit ausreichender Berechtigung vorhanden';
+
+const MSG_EMAIL_EXISTS = 'Die Emailadresse existiert bereits';
+
+/**
+ * Die Controller-Klasse für das Anlegen, Ändern und Löschen der Personen.
+ */
+@Controller(`${paths.rest}/${paths.personen}`)
+@UseGuards(JwtAuthGuard, RolesGuard)
+@UseInterceptors(ResponseTimeInterceptor)
+@ApiTags('Person REST-API')
+@ApiBearerAuth()
+export class PersonWriteController {
+    readonly #service: PersonService;
+
+    readonly #logger = getLogger(PersonWriteController.name);
+
+    constructor(service: PersonService) {
+        this.#service = service;
+    }
+
+    /**
+     * Eine neue Person wird angelegt. Im Response-Header wird `Location` auf
+     * die URI der neuen Person gesetzt.
+     *
+     * @param personDTO JSON-Daten für eine Person im Request-Body.
+     * @param req Request-Objekt von Express.
+     * @param res Leeres Response-Objekt von Express.
+     * @returns Leeres Promise-Objekt.
+     */
+    @Post()
+    @RolesAllowed('admin', 'fachabteilung')
+    @ApiOperation({ summary: 'Eine neue Person anlegen' })
+    @ApiCreatedResponse({ description: 'Erfolgreich neu angelegt' })
+    @ApiBadRequestResponse({ description: 'Fehlerhafte Personendaten' })
+    @ApiUnprocessableEntityResponse({ description: MSG_EMAIL_EXISTS })
+    @ApiForbiddenResponse({ description: MSG_FORBIDDEN })
+    async post(
+        @Body() personDTO: PersonDTO,
+        @Req() req: Request,
+        @Res() res: Response,
+    ): Promise<Response> {
+        this.#logger.debug('post: personDTO=%o', personDTO);
+
+        const id = await this.#service.create(this.#dtoToPerson(personDTO));
+
+        const location = `${getBaseUri(req)}/${id}`;
+        this.#logger.debug('post: location=%s', location);
+        return res.location(location).send();
+    }
+
+    /**
+     * Eine vorhandene Person wird aktualisiert. Die Änderungen sind in allen
+     * Filmen mit dieser Person sichtbar.
+     *
+     * @param id Pfad-Parameter `id`
+     * @param personDTO Personendaten im Body des Request-Objekts.
+     */
+    @Put(':id')
+    @RolesAllowed('admin', 'fachabteilung')
+    @HttpCode(HttpStatus.NO_CONTENT)
+    @ApiOperation({ summary: 'Eine vorhandene Person aktualisieren' })
+    @ApiParam({ name: 'id', description: ID_PERSON })
+    @ApiNoContentResponse({ description: 'Erfolgreich aktualisiert' })
+    @ApiBadRequestResponse({ description: 'Fehlerhafte Personendaten' })
+    @ApiNotFoundResponse({ description: 'Keine Person zur ID gefunden' })
+    @ApiUnprocessableEntityResponse({ description: MSG_EMAIL_EXISTS })
+    @ApiForbiddenResponse({ description: MSG_FORBIDDEN })
+    async put(
+        @Param('id', ParseIntPipe) id: number,
+        @Body() personDTO: PersonDTO,
+    ) {
+        this.#logger.debug('put: id=%d, personDTO=%o', id, personDTO);
+        await this.#service.update({
+            id,
+            person: this.#dtoToPerson(personDTO),
+        });
+    }
+
+    /**
+     * Eine Person wird einschließlich ihrer Besetzungen gelöscht. Der
+     * Statuscode ist `204` (`No Content`), auch wenn es die Person nicht gab.
+     *
+     * @param id Pfad-Parameter `id`
+     */
+    @Delete(':id')
+    @RolesAllowed('admin')
+    @HttpCode(HttpStatus.NO_CONTENT)
+    @ApiOperation({ summary: 'Person mit der ID löschen' })
+    @ApiParam({ name: 'id', description: ID_PERSON })
+    @ApiNoContentResponse({
+        description: 'Die Person wurde gelöscht oder war nicht vorhanden',
+    })
+    @ApiForbiddenResponse({ description: MSG_FORBIDDEN })
+    async delete(@Param('id', ParseIntPipe) id: number) {
+        this.#logger.debug('delete: id=%d', id);
+        await this.#service.delete(id);
+    }
+
+    #dtoToPerson(personDTO: PersonDTO): Person {
+        return {
+            id: undefined,
+            vorname: personDTO.vorname,
+            nachname: personDTO.nachname,
+            geschlecht: personDTO.geschlecht,
+            email: personDTO.email,
+            telefonnummer: personDTO.telefonnummer,
+            besetzungen: undefined,
+        };
+    }
+}
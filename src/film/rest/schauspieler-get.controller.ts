@@ -0,0 +1,205 @@
+/*
+ * Copyright (C) 2024 - present Juergen Zimmermann, Hochschule Karlsruhe
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with this program.  If not, see <https://www.gnu.org/licenses/>.
+ */
+
+/**
+ * Das Modul besteht aus der Controller-Klasse für das Lesen der Schauspieler
+ * eines Filmes an der REST-Schnittstelle.
+ * @packageDocumentation
+ */
+
+import {
+    ApiNotFoundResponse,
+    ApiOkResponse,
+    ApiOperation,
+    ApiParam,
+    ApiTags,
+} from '@nestjs/swagger';
+import {
+    Controller,
+    Get,
+    Param,
+    ParseIntPipe,
+    Req,
+    Res,
+    UseInterceptors,
+} from '@nestjs/common';
+import { Request, Response } from 'express';
+import { type Besetzung } from '../entity/besetzung.entity.js';
+import { type Link } from './film-get.controller.js';
+import { type Person } from '../entity/person.entity.js';
+import { ResponseTimeInterceptor } from '../../logger/response-time.interceptor.js';
+import { SchauspielerService } from '../service/schauspieler.service.js';
+import { getBaseUri } from './getBaseUri.js';
+import { getLogger } from '../../logger/logger.js';
+import { paths } from '../../config/paths.js';
+
+/** Links für HATEOAS zu den Schauspielern eines Filmes */
+export interface SchauspielerLinks {
+    /** self-Link */
+    readonly self: Link;
+    /** Link zum Film */
+    readonly film: Link;
+    /** Link zur Person, falls es ein einzelner Schauspieler ist */
+    readonly person?: Link;
+}
+
+/**
+ * Schauspieler-Objekt mit HATEOAS-Links: die Daten der Person mit Rolle und
+ * Reihenfolge aus der Besetzung.
+ */
+export type SchauspielerModel = Omit<Person, 'besetzungen' | 'id'> &
+    Pick<Besetzung, 'reihenfolge' | 'rolle'> & {
+        // eslint-disable-next-line @typescript-eslint/naming-convention
+        _links: SchauspielerLinks;
+    };
+
+/** Schauspieler-Objekte mit HATEOAS-Links in einem JSON-Array. */
+export interface SchauspielersModel {
+    // eslint-disable-next-line @typescript-eslint/naming-convention
+    _embedded: {
+        schauspielers: SchauspielerModel[];
+    };
+    // eslint-disable-next-line @typescript-eslint/naming-convention
+    _links: SchauspielerLinks;
+}
+
+const APPLICATION_HAL_JSON = 'application/hal+json';
+
+// ".../rest/1/schauspielers" => ".../rest/1"
+const filmUri = (schauspielersUri: string) =>
+    schauspielersUri.slice(0, schauspielersUri.lastIndexOf('/'));
+
+// ".../rest/1/schauspielers" => ".../rest/personen/1"
+const personUri = (schauspielersUri: string, personId: number | undefined) => {
+    const uri = filmUri(schauspielersUri);
+    const restUri = uri.slice(0, uri.lastIndexOf('/'));
+    return `${restUri}/${paths.personen}/${personId}`;
+};
+
+/**
+ * Einen Schauspieler aus der Besetzung eines Filmes mit HATEOAS-Links
+ * versehen, z.B. auch für `_embedded` beim Film.
+ * @param besetzung Die Besetzung mit der Person
+ * @param schauspielersUri URI der Schauspieler, z.B. `.../rest/1/schauspielers`
+ * @returns Der Schauspieler mit HATEOAS-Links
+ */
+export const toSchauspielerModel = (
+    besetzung: Besetzung,
+    schauspielersUri: string,
+): SchauspielerModel => {
+    const { id, rolle, reihenfolge, person } = besetzung;
+    const { vorname, nachname, geschlecht, email, telefonnummer } = person!;
+    return {
+        vorname,
+        nachname,
+        geschlecht,
+        email,
+        telefonnummer,
+        rolle,
+        reihenfolge,
+        _links: {
+            self: { href: `${schauspielersUri}/${id}` },
+            film: { href: filmUri(schauspielersUri) },
+            person: { href: personUri(schauspielersUri, person!.id) },
+        },
+    };
+};
+
+/**
+ * Die Controller-Klasse für das Lesen der Schauspieler eines Filmes als
+ * Sub-Ressource unterhalb von `/rest/:id`.
+ */
+@Controller(`${paths.rest}/:id/${paths.schauspielers}`)
+@UseInterceptors(ResponseTimeInterceptor)
+@ApiTags('Film REST-API')
+export class SchauspielerGetController {
+    readonly #service: SchauspielerService;
+
+    readonly #logger = getLogger(SchauspielerGetController.name);
+
+    constructor(service: SchauspielerService) {
+        this.#service = service;
+    }
+
+    /**
+     * Die Schauspieler zu einem Film werden ermittelt. Falls es keinen Film
+     * zur ID gibt, wird der Statuscode `404` (`Not Found`) zurückgeliefert.
+     *
+     * @param filmId Pfad-Parameter `id` für den Film
+     * @param req Request-Objekt von Express.
+     * @param res Leeres Response-Objekt von Express.
+     * @returns Leeres Promise-Objekt.
+     */
+    @Get()
+    @ApiOperation({ summary: 'Die Schauspieler zu einem Film' })
+    @ApiParam({ name: 'id', description: 'Film-ID, z.B. 1' })
+    @ApiOkResponse({ description: 'Eine evtl. leere Liste mit Schauspielern' })
+    @ApiNotFoundResponse({ description: 'Kein Film zur ID gefunden' })
+    async get(
+        @Param('id', ParseIntPipe) filmId: number,
+        @Req() req: Request,
+        @Res() res: Response,
+    ): Promise<Response<SchauspielersModel>> {
+        this.#logger.debug('get: filmId=%d', filmId);
+
+        const besetzung = await this.#service.find(filmId);
+        const baseUri = getBaseUri(req);
+        const result: SchauspielersModel = {
+            _embedded: {
+                schauspielers: besetzung.map((schauspieler) =>
+                    toSchauspielerModel(schauspieler, baseUri),
+                ),
+            },
+            _links: {
+                self: { href: baseUri },
+                film: { href: filmUri(baseUri) },
+            },
+        };
+        this.#logger.debug('get: result=%o', result);
+        return res.contentType(APPLICATION_HAL_JSON).json(result);
+    }
+
+    /**
+     * Ein Schauspieler zu einem Film wird anhand seiner ID gesucht.
+     *
+     * @param filmId Pfad-Parameter `id` für den Film
+     * @param id Pfad-Parameter `sid` für den Schauspieler
+     * @param req Request-Objekt von Express.
+     * @param res Leeres Response-Objekt von Express.
+     * @returns Leeres Promise-Objekt.
+     */
+    // eslint-disable-next-line max-params
+    @Get(':sid')
+    @ApiOperation({ summary: 'Suche mit der Schauspieler-ID' })
+    @ApiParam({ name: 'id', description: 'Film-ID, z.B. 1' })
+    @ApiParam({ name: 'sid', description: 'Schauspieler-ID, z.B. 1' })
+    @ApiOkResponse({ description: 'Der Schauspieler wurde gefunden' })
+    @ApiNotFoundResponse({ description: 'Kein Schauspieler zur ID gefunden' })
+    async getById(
+        @Param('id', ParseIntPipe) filmId: number,
+        @Param('sid', ParseIntPipe) id: number,
+        @Req() req: Request,
+        @Res() res: Response,
+    ): Promise<Response<SchauspielerModel>> {
+        this.#logger.debug('getById: filmId=%d, id=%d', filmId, id);
+
+        const schauspieler = await this.#service.findById({ filmId, id });
+        const model = toSchauspielerModel(schauspieler, getBaseUri(req));
+        this.#logger.debug('getById: model=%o', model);
+        return res.contentType(APPLICATION_HAL_JSON).json(model);
+    }
+}
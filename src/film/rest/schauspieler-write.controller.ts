@@ -0,0 +1,203 @@
+/*
+ * Copyright (C) 2024 - present Juergen Zimmermann, Hochschule Karlsruhe
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with this program.  If not, see <https://www.gnu.org/licenses/>.
+ */
+
+/**
+ * Das Modul besteht aus der Controller-Klasse für das Schreiben der
+ * Schauspieler eines Filmes an der REST-Schnittstelle.
+ * @packageDocumentation
+ */
+
+import {
+    ApiBadRequestResponse,
+    ApiBearerAuth,
+    ApiCreatedResponse,
+    ApiForbiddenResponse,
+    ApiNoContentResponse,
+    ApiNotFoundResponse,
+    ApiOperation,
+    ApiParam,
+    ApiTags,
+} from '@nestjs/swagger';
+import {
+    Body,
+    Controller,
+    Delete,
+    HttpCode,
+    HttpStatus,
+    Param,
+    ParseIntPipe,
+    Post,
+    Put,
+    Req,
+    Res,
+    UseGuards,
+    UseInterceptors,
+} from '@nestjs/common';
+import { Request, Response } from 'express';
+import { type Besetzung } from '../entity/besetzung.entity.js';
+import { JwtAuthGuard } from '../../security/auth/jwt/jwt-auth.guard.js';
+import { ResponseTimeInterceptor } from '../../logger/response-time.interceptor.js';
+import { RolesAllowed } from '../../security/auth/roles/roles-allowed.decorator.js';
+import { RolesGuard } from '../../security/auth/roles/roles.guard.js';
+import { SchauspielerDTO } from './schauspielerDTO.entity.js';
+import { SchauspielerService } from '../service/schauspieler.service.js';
+import { getBaseUri } from './getBaseUri.js';
+import { getLogger } from '../../logger/logger.js';
+import { paths } from '../../config/paths.js';
+
+const ID_FILM = 'Film-ID, z.B. 1';
+const ID_SCHAUSPIELER = 'Schauspieler-ID, z.B. 1';
+
+const MSG_FORBIDDEN = 'Kein Token mit ausreichender Berechtigung vorhanden';
+
+/**
+ * Die Controller-Klasse für das Anlegen, Ändern und Löschen der Schauspieler
+ * eines Filmes als Sub-Ressource unterhalb von `/rest/:id`.
+ */
+@Controller(`${paths.rest}/:id/${paths.schauspielers}`)
+@UseGuards(JwtAuthGuard, RolesGuard)
+@UseInterceptors(ResponseTimeInterceptor)
+@ApiTags('Film REST-API')
+@ApiBearerAuth()
+export class SchauspielerWriteController {
+    readonly #service: SchauspielerService;
+
+    readonly #logger = getLogger(SchauspielerWriteController.name);
+
+    constructor(service: SchauspielerService) {
+        this.#service = service;
+    }
+
+    /**
+     * Ein neuer Schauspieler wird zu einem Film angelegt. Im Response-Header
+     * wird `Location` auf die URI des neuen Schauspielers gesetzt.
+     *
+     * @param filmId Pfad-Parameter `id` für den Film
+     * @param schauspielerDTO JSON-Daten für einen Schauspieler im Request-Body.
+     * @param req Request-Objekt von Express.
+     * @param res Leeres Response-Objekt von Express.
+     * @returns Leeres Promise-Objekt.
+     */
+    // eslint-disable-next-line max-params
+    @Post()
+    @RolesAllowed('admin', 'fachabteilung')
+    @ApiOperation({ summary: 'Ein neuer Schauspieler zu einem Film' })
+    @ApiParam({ name: 'id', description: ID_FILM })
+    @ApiCreatedResponse({ description: 'Erfolgreich neu angelegt' })
+    @ApiBadRequestResponse({ description: 'Fehlerhafte Schauspielerdaten' })
+    @ApiNotFoundResponse({ description: 'Kein Film zur ID gefunden' })
+    @ApiForbiddenResponse({ description: MSG_FORBIDDEN })
+    async post(
+        @Param('id', ParseIntPipe) filmId: number,
+        @Body() schauspielerDTO: SchauspielerDTO,
+        @Req() req: Request,
+        @Res() res: Response,
+    ): Promise<Response> {
+        this.#logger.debug(
+            'post: filmId=%d, schauspielerDTO=%o',
+            filmId,
+            schauspielerDTO,
+        );
+
+        const id = await this.#service.create(
+            filmId,
+            this.#dtoToBesetzung(schauspielerDTO),
+        );
+
+        const location = `${getBaseUri(req)}/${id}`;
+        this.#logger.debug('post: location=%s', location);
+        return res.location(location).send();
+    }
+
+    /**
+     * Ein vorhandener Schauspieler eines Filmes wird aktualisiert.
+     *
+     * @param filmId Pfad-Parameter `id` für den Film
+     * @param id Pfad-Parameter `sid` für den Schauspieler
+     * @param schauspielerDTO Schauspielerdaten im Body des Request-Objekts.
+     */
+    @Put(':sid')
+    @RolesAllowed('admin', 'fachabteilung')
+    @HttpCode(HttpStatus.NO_CONTENT)
+    @ApiOperation({ summary: 'Ein vorhandener Schauspieler aktualisieren' })
+    @ApiParam({ name: 'id', description: ID_FILM })
+    @ApiParam({ name: 'sid', description: ID_SCHAUSPIELER })
+    @ApiNoContentResponse({ description: 'Erfolgreich aktualisiert' })
+    @ApiBadRequestResponse({ description: 'Fehlerhafte Schauspielerdaten' })
+    @ApiNotFoundResponse({ description: 'Kein Schauspieler zur ID gefunden' })
+    @ApiForbiddenResponse({ description: MSG_FORBIDDEN })
+    async put(
+        @Param('id', ParseIntPipe) filmId: number,
+        @Param('sid', ParseIntPipe) id: number,
+        @Body() schauspielerDTO: SchauspielerDTO,
+    ) {
+        this.#logger.debug(
+            'put: filmId=%d, id=%d, schauspielerDTO=%o',
+            filmId,
+            id,
+            schauspielerDTO,
+        );
+        await this.#service.update({
+            filmId,
+            id,
+            besetzung: this.#dtoToBesetzung(schauspielerDTO),
+        });
+    }
+
+    /**
+     * Ein Schauspieler eines Filmes wird gelöscht. Der Statuscode ist `204`
+     * (`No Content`), auch wenn es den Schauspieler zum Film nicht gab.
+     *
+     * @param filmId Pfad-Parameter `id` für den Film
+     * @param id Pfad-Parameter `sid` für den Schauspieler
+     */
+    @Delete(':sid')
+    @RolesAllowed('admin')
+    @HttpCode(HttpStatus.NO_CONTENT)
+    @ApiOperation({ summary: 'Schauspieler mit der ID löschen' })
+    @ApiParam({ name: 'id', description: ID_FILM })
+    @ApiParam({ name: 'sid', description: ID_SCHAUSPIELER })
+    @ApiNoContentResponse({
+        description: 'Der Schauspieler wurde gelöscht oder war nicht vorhanden',
+    })
+    @ApiForbiddenResponse({ description: MSG_FORBIDDEN })
+    async delete(
+        @Param('id', ParseIntPipe) filmId: number,
+        @Param('sid', ParseIntPipe) id: number,
+    ) {
+        this.#logger.debug('delete: filmId=%d, id=%d', filmId, id);
+        await this.#service.delete({ filmId, id });
+    }
+
+    #dtoToBesetzung(schauspielerDTO: SchauspielerDTO): Besetzung {
+        return {
+            id: undefined,
+            rolle: schauspielerDTO.rolle,
+            reihenfolge: schauspielerDTO.reihenfolge,
+            film: undefined,
+            person: {
+                id: undefined,
+                vorname: schauspielerDTO.vorname,
+                nachname: schauspielerDTO.nachname,
+                geschlecht: schauspielerDTO.geschlecht,
+                email: schauspielerDTO.email,
+                telefonnummer: schauspielerDTO.telefonnummer,
+                besetzungen: undefined,
+            },
+        };
+    }
+}
@@ -1,6 +1,5 @@
-/* eslint-disable @typescript-eslint/no-magic-numbers */
 /*
- * Copyright (C) 2023 - present Juergen Zimmermann, Florian Goebel, Hochschule Karlsruhe
+ * Copyright (C) 2024 - present Juergen Zimmermann, Hochschule Karlsruhe
  *
  * This program is free software: you can redistribute it and/or modify
  * it under the terms of the GNU General Public License as published by
@@ -21,33 +20,25 @@
  * @packageDocumentation
  */
 
-import { IsEmail, Matches, MaxLength } from 'class-validator';
+import { IsInt, IsOptional, IsPositive, MaxLength } from 'class-validator';
 import { ApiProperty } from '@nestjs/swagger';
+import { PersonDTO } from './personDTO.entity.js';
 
 /**
- * Entity-Klasse für Schauspieler ohne TypeORM.
+ * Entity-Klasse für einen Schauspieler in der Besetzung eines Filmes ohne
+ * TypeORM: die Daten der Person mit Rolle und Reihenfolge im Abspann. Die
+ * Person wird anhand der Emailadresse wiederverwendet, falls es sie bereits
+ * gibt.
  */
-export class SchauspielerDTO {
-    @MaxLength(40)
-    @ApiProperty({ example: 'Der Vorname', type: String })
-    readonly vorname!: string;
+export class SchauspielerDTO extends PersonDTO {
+    @IsOptional()
+    @MaxLength(40) // eslint-disable-line @typescript-eslint/no-magic-numbers
+    @ApiProperty({ example: 'Jake Sully', type: String })
+    readonly rolle: string | undefined;
 
-    @MaxLength(40)
-    @ApiProperty({ example: 'Der Nachname', type: String })
-    readonly nachname!: string;
-
-    @MaxLength(20)
-    @ApiProperty({ example: 'Männlich', type: String })
-    readonly geschlecht!: string;
-
-    @IsEmail()
-    @MaxLength(40)
-    @ApiProperty({ example: 'example@gmail.com', type: String })
-    readonly email!: string;
-
-    @Matches(/^\+?\(?\d{3}\)?[\s.-]?\d{3}[\s.-]?\d{4,6}$/mu)
-    @MaxLength(40)
-    @ApiProperty({ example: 'Die Telefonnummer', type: String })
-    readonly telefonnummer!: string;
+    @IsOptional()
+    @IsInt()
+    @IsPositive()
+    @ApiProperty({ example: 1, type: Number })
+    readonly reihenfolge: number | undefined;
 }
-/* eslint-enable @typescript-eslint/no-magic-numbers */
@@ -0,0 +1,140 @@
+/*
+ * Copyright (C) 2024 - present Juergen Zimmermann, Hochschule Karlsruhe
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with this program.  If not, see <https://www.gnu.org/licenses/>.
+ */
+
+/**
+ * Das Modul besteht aus der Controller-Klasse für die Autovervollständigung
+ * von Titeln an der REST-Schnittstelle.
+ * @packageDocumentation
+ */
+
+import {
+    ApiBadRequestResponse,
+    ApiOkResponse,
+    ApiOperation,
+    ApiQuery,
+    ApiTags,
+} from '@nestjs/swagger';
+import {
+    Controller,
+    Get,
+    Query,
+    Req,
+    Res,
+    UseInterceptors,
+} from '@nestjs/common';
+import {
+    DEFAULT_LIMIT,
+    MAX_LIMIT,
+    SuggestService,
+    type Vorschlag,
+} from '../service/suggest.service.js';
+import { type Link, checkEinzelwert } from './film-get.controller.js';
+import { Request, Response } from 'express';
+import { ResponseTimeInterceptor } from '../../logger/response-time.interceptor.js';
+import { getBaseUri } from './getBaseUri.js';
+import { getLogger } from '../../logger/logger.js';
+import { paths } from '../../config/paths.js';
+
+/** Vorschlag mit HATEOAS-Link zum Film */
+export type VorschlagModel = Vorschlag & {
+    // eslint-disable-next-line @typescript-eslint/naming-convention
+    _links: { film: Link };
+};
+
+/** Vorschläge mit HATEOAS-Links in einem JSON-Array. */
+export interface VorschlaegeModel {
+    // eslint-disable-next-line @typescript-eslint/naming-convention
+    _embedded: {
+        vorschlaege: VorschlagModel[];
+    };
+    // eslint-disable-next-line @typescript-eslint/naming-convention
+    _links: { self: Link };
+}
+
+const APPLICATION_HAL_JSON = 'application/hal+json';
+
+/**
+ * Die Controller-Klasse für die fehlertolerante Autovervollständigung von
+ * Titeln und Originaltiteln.
+ */
+@Controller(`${paths.rest}/${paths.suggest}`)
+@UseInterceptors(ResponseTimeInterceptor)
+@ApiTags('Film REST-API')
+export class SuggestController {
+    readonly #service: SuggestService;
+
+    readonly #logger = getLogger(SuggestController.name);
+
+    constructor(service: SuggestService) {
+        this.#service = service;
+    }
+
+    /**
+     * Vorschläge zu einem evtl. unvollständigen oder falsch geschriebenen
+     * Titel werden absteigend nach der Ähnlichkeit ermittelt. Falls es keine
+     * Vorschläge gibt, ist die Liste leer.
+     *
+     * Falls der Präfix fehlt oder das Limit ungültig ist, wird der Statuscode
+     * `400` (`Bad Request`) gesetzt.
+     *
+     * @param prefix Query-Parameter `prefix`, z.B. `Avtar`
+     * @param limit Query-Parameter `limit` für die maximale Anzahl
+     * @param req Request-Objekt von Express.
+     * @param res Leeres Response-Objekt von Express.
+     * @returns Leeres Promise-Objekt.
+     */
+    // eslint-disable-next-line max-params
+    @Get()
+    @ApiOperation({ summary: 'Vorschläge für Titel und Originaltitel' })
+    @ApiQuery({ name: 'prefix', description: 'Z.B. Avtar' })
+    @ApiQuery({
+        name: 'limit',
+        required: false,
+        description: `Maximale Anzahl: ${DEFAULT_LIMIT} (voreingestellt) bis ${MAX_LIMIT}`,
+    })
+    @ApiOkResponse({ description: 'Eine evtl. leere Liste mit Vorschlägen' })
+    @ApiBadRequestResponse({
+        description: 'Fehlender Praefix oder ungueltiges Limit',
+    })
+    async get(
+        @Query('prefix') prefix: string | string[] | undefined,
+        @Query('limit') limit: string | string[] | undefined,
+        @Req() req: Request,
+        @Res() res: Response,
+    ): Promise<Response<VorschlaegeModel>> {
+        this.#logger.debug('get: prefix=%s, limit=%s', prefix, limit);
+        checkEinzelwert('prefix', prefix);
+        checkEinzelwert('limit', limit);
+
+        const vorschlaege = await this.#service.suggest({ prefix, limit });
+        // ".../rest/suggest" => ".../rest"
+        const baseUri = getBaseUri(req);
+        const restUri = baseUri.slice(0, baseUri.lastIndexOf('/'));
+        const result: VorschlaegeModel = {
+            _embedded: {
+                vorschlaege: vorschlaege.map((vorschlag) => ({
+                    ...vorschlag,
+                    _links: {
+                        film: { href: `${restUri}/${vorschlag.filmId}` },
+                    },
+                })),
+            },
+            _links: { self: { href: baseUri } },
+        };
+        return res.contentType(APPLICATION_HAL_JSON).json(result);
+    }
+}
@@ -1,3 +1,4 @@
+/* eslint-disable max-classes-per-file */
 /*
  * Copyright (C) 2016 - present Juergen Zimmermann, Hochschule Karlsruhe
  *
@@ -35,3 +36,169 @@ export class TitelExistsException extends HttpException {
         );
     }
 }
+
+/**
+ * Exception-Klasse für Genres, die es im Genre-Katalog nicht gibt.
+ */
+export class GenreInvalidException extends HttpException {
+    constructor(readonly namen: readonly string[]) {
+        super(
+            `Unbekannte Genres: ${namen.join(', ')}`,
+            HttpStatus.UNPROCESSABLE_ENTITY,
+        );
+    }
+}
+
+/**
+ * Exception-Klasse für ein bereits existierendes Genre im Genre-Katalog.
+ */
+export class GenreExistsException extends HttpException {
+    constructor(readonly genre: string) {
+        super(
+            `Das Genre ${genre} existiert bereits.`,
+            HttpStatus.UNPROCESSABLE_ENTITY,
+        );
+    }
+}
+
+/**
+ * Exception-Klasse für eine Emailadresse, die bereits einer anderen Person
+ * zugeordnet ist.
+ */
+export class PersonEmailExistsException extends HttpException {
+    constructor(readonly email: string) {
+        super(
+            `Die Emailadresse ${email} existiert bereits.`,
+            HttpStatus.UNPROCESSABLE_ENTITY,
+        );
+    }
+}
+
+/**
+ * Exception-Klasse für eine ungültige Versionsnummer beim Ändern.
+ */
+export class VersionInvalidException extends HttpException {
+    constructor(readonly version: string | undefined) {
+        super(
+            `Die Versionsnummer ${version} ist ungueltig.`,
+            HttpStatus.PRECONDITION_FAILED,
+        );
+    }
+}
+
+/**
+ * Exception-Klasse für eine veraltete Versionsnummer beim Ändern.
+ */
+export class VersionOutdatedException extends HttpException {
+    constructor(readonly version: number) {
+        super(
+            `Die Versionsnummer ${version} ist nicht aktuell.`,
+            HttpStatus.PRECONDITION_FAILED,
+        );
+    }
+}
+
+/**
+ * Exception-Klasse für ein ungültiges Sortierkriterium.
+ */
+export class SortInvalidException extends HttpException {
+    constructor(
+        readonly value: string,
+        readonly allowed: readonly string[],
+    ) {
+        super(
+            `Ungueltiges Sortierkriterium "${value}". Erlaubt: ${allowed.join(
+                ', ',
+            )}`,
+            HttpStatus.BAD_REQUEST,
+        );
+    }
+}
+
+/**
+ * Exception-Klasse für ein ungültiges Feld bei `fields`.
+ */
+export class FieldsInvalidException extends HttpException {
+    constructor(
+        readonly value: string,
+        readonly allowed: readonly string[],
+    ) {
+        super(
+            `Ungueltiges Feld "${value}". Erlaubt: ${allowed.join(', ')}`,
+            HttpStatus.BAD_REQUEST,
+        );
+    }
+}
+
+/**
+ * Exception-Klasse für eine ungültige Facette bei `facets`.
+ */
+export class FacetInvalidException extends HttpException {
+    constructor(
+        readonly value: string,
+        readonly allowed: readonly string[],
+    ) {
+        super(
+            `Ungueltige Facette "${value}". Erlaubt: ${allowed.join(', ')}`,
+            HttpStatus.BAD_REQUEST,
+        );
+    }
+}
+
+/**
+ * Exception-Klasse für einen ungültigen Filter, beim Query-Parameter `filter`
+ * mit der Position des Fehlers.
+ */
+export class FilterInvalidException extends HttpException {
+    constructor(
+        readonly detail: string,
+        readonly position?: number,
+    ) {
+        super(
+            position === undefined
+                ? `Ungueltiger Filter: ${detail}`
+                : `Ungueltiger Filter an Position ${position}: ${detail}`,
+            HttpStatus.BAD_REQUEST,
+        );
+    }
+}
+
+/**
+ * Exception-Klasse für eine ungültige Seitennummer oder Seitengröße, d.h.
+ * keine ganze Zahl bzw. kleiner als der Mindestwert.
+ */
+export class PageableInvalidException extends HttpException {
+    constructor(
+        readonly parameter: string,
+        readonly value: number | string,
+        readonly min: number,
+    ) {
+        super(
+            `Ungueltiger Wert "${value}" fuer ${parameter}: erlaubt ist eine ganze Zahl ab ${min}`,
+            HttpStatus.BAD_REQUEST,
+        );
+    }
+}
+
+/**
+ * Exception-Klasse für ungültige Argumente bei der Keyset-Paginierung, z.B.
+ * einen Cursor, der nicht zur Sortierung passt.
+ */
+export class KeysetInvalidException extends HttpException {
+    constructor(readonly detail: string) {
+        super(
+            `Ungueltige Keyset-Paginierung: ${detail}`,
+            HttpStatus.BAD_REQUEST,
+        );
+    }
+}
+
+/**
+ * Exception-Klasse für eine ungültige globale ID bei GraphQL.
+ */
+export class GlobalIdInvalidException extends HttpException {
+    constructor(readonly globalId: string) {
+        super(`Ungueltige globale ID: ${globalId}`, HttpStatus.BAD_REQUEST);
+    }
+}
+/* eslint-enable max-classes-per-file */
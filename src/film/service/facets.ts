@@ -0,0 +1,72 @@
+/*
+ * Copyright (C) 2024 - present Juergen Zimmermann, Hochschule Karlsruhe
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with this program.  If not, see <https://www.gnu.org/licenses/>.
+ */
+
+/**
+ * Das Modul besteht aus den Typdefinitionen und Funktionen für die Facetten,
+ * d.h. die Anzahl der Filme je Wert einer Property bei der Suche.
+ * @packageDocumentation
+ */
+
+import { FacetInvalidException } from './exceptions.js';
+
+/**
+ * Properties von `Film`, zu denen es Facetten gibt. Bei `filmstart` wird
+ * nach Jahrzehnten gruppiert, z.B. `2020` für 2020 bis 2029.
+ */
+export const FACETS = ['genres', 'sprache', 'rating', 'filmstart'] as const;
+
+/** Typdefinition für eine Facette. */
+export type Facet = (typeof FACETS)[number];
+
+/** Typdefinition für die Anzahl der Filme zu einem Wert einer Facette. */
+export interface FacetCount {
+    /** Wert der Property, z.B. `ACTION` oder `2020` */
+    readonly wert: number | string;
+    /** Anzahl der Filme mit diesem Wert */
+    readonly anzahl: number;
+}
+
+/** Typdefinition für die Facetten, jeweils absteigend nach der Anzahl. */
+export type Facets = Partial<Record<Facet, FacetCount[]>>;
+
+const facetNames: readonly string[] = FACETS;
+
+/**
+ * Die Facetten aus dem Query-Parameter `facets`, z.B.
+ * `facets=genres,sprache,rating`, erstellen.
+ * @param facets Kommaseparierte Liste der Facetten
+ * @returns Die Facetten ohne Duplikate oder `undefined`, falls keine
+ *  Facetten angefordert sind
+ * @throws FacetInvalidException falls eine Facette ungültig ist
+ */
+export const createFacets = (
+    facets: string | undefined,
+): Facet[] | undefined => {
+    if (facets === undefined) {
+        return undefined;
+    }
+    const facetArray = facets
+        .split(',')
+        .map((facet) => facet.trim())
+        .filter((facet) => facet !== '');
+    facetArray.forEach((facet) => {
+        if (!facetNames.includes(facet)) {
+            throw new FacetInvalidException(facet, facetNames);
+        }
+    });
+    return [...new Set(facetArray as Facet[])];
+};
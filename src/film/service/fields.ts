@@ -0,0 +1,74 @@
+/*
+ * Copyright (C) 2024 - present Juergen Zimmermann, Hochschule Karlsruhe
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with this program.  If not, see <https://www.gnu.org/licenses/>.
+ */
+
+/**
+ * Das Modul besteht aus den Typdefinitionen und Funktionen für die Auswahl
+ * einzelner Felder ("Sparse Fieldsets") bei der Suche nach Filmen.
+ * @packageDocumentation
+ */
+
+import { FieldsInvalidException } from './exceptions.js';
+
+/** Properties der Entity-Klasse `Film`, die ausgewählt werden dürfen. */
+export const FILM_FIELDS = [
+    'rating',
+    'filmstart',
+    'dauer',
+    'sprache',
+    'direktor',
+    'genres',
+] as const;
+
+/** Properties der Entity-Klasse `Titel`, die ausgewählt werden dürfen. */
+export const TITEL_FIELDS = ['titel', 'originaltitel', 'serienname'] as const;
+
+/** Typdefinition für die Properties von `Film`. */
+export type FilmField = (typeof FILM_FIELDS)[number];
+
+/** Typdefinition für die Properties von `Titel`. */
+export type TitelField = (typeof TITEL_FIELDS)[number];
+
+/** Typdefinition für ein auswählbares Feld. */
+export type Field = FilmField | TitelField;
+
+const fieldNames: readonly string[] = [...FILM_FIELDS, ...TITEL_FIELDS];
+
+/**
+ * Die ausgewählten Felder aus dem Query-Parameter `fields`, z.B.
+ * `fields=titel,rating,filmstart`, erstellen.
+ * @param fields Kommaseparierte Liste der Felder
+ * @returns Die Felder ohne Duplikate oder `undefined`, falls es keine Auswahl
+ *  gibt, d.h. alle Felder sollen geliefert werden
+ * @throws FieldsInvalidException falls ein Feld ungültig ist
+ */
+export const createFields = (
+    fields: string | undefined,
+): Field[] | undefined => {
+    if (fields === undefined) {
+        return undefined;
+    }
+    const fieldArray = fields
+        .split(',')
+        .map((field) => field.trim())
+        .filter((field) => field !== '');
+    fieldArray.forEach((field) => {
+        if (!fieldNames.includes(field)) {
+            throw new FieldsInvalidException(field, fieldNames);
+        }
+    });
+    return [...new Set(fieldArray as Field[])];
+};
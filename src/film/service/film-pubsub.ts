@@ -0,0 +1,109 @@
+/*
+ * Copyright (C) 2024 - present Juergen Zimmermann, Hochschule Karlsruhe
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with this program.  If not, see <https://www.gnu.org/licenses/>.
+ */
+
+/**
+ * Das Modul besteht aus der abstrakten Klasse {@linkcode FilmPubSub} für die
+ * Ereignisse beim Anlegen, Aktualisieren und Löschen von Filmen sowie der
+ * Implementierung {@linkcode InMemoryFilmPubSub} für eine einzelne Instanz.
+ * @packageDocumentation
+ */
+
+/* eslint-disable max-classes-per-file */
+import { EventEmitter, on } from 'node:events';
+import { type Film } from '../entity/film.entity.js';
+import { Injectable } from '@nestjs/common';
+import { getLogger } from '../../logger/logger.js';
+
+/** Typdefinition für ein Ereignis zu einem neuen oder geänderten Film. */
+export interface FilmGespeichert {
+    readonly typ: 'filmCreated' | 'filmUpdated';
+    /** Der gespeicherte Film mit Titel und Besetzung */
+    readonly film: Film;
+}
+
+/** Typdefinition für ein Ereignis zu einem gelöschten Film. */
+export interface FilmGeloescht {
+    readonly typ: 'filmDeleted';
+    /** ID des gelöschten Filmes */
+    readonly id: number;
+}
+
+/** Typdefinition für die Ereignisse zu Filmen. */
+export type FilmEvent = FilmGeloescht | FilmGespeichert;
+
+export type FilmEventTyp = FilmEvent['typ'];
+
+/**
+ * Schnittstelle zum Veröffentlichen und Abonnieren der Ereignisse zu Filmen,
+ * z.B. für die Subscriptions bei GraphQL. Die abstrakte Klasse ist zugleich
+ * das Token für _Dependency Injection_, damit z.B. bei mehreren Instanzen
+ * eine Implementierung mit Redis konfiguriert werden kann.
+ */
+export abstract class FilmPubSub {
+    /**
+     * Ein Ereignis an alle Abonnenten veröffentlichen.
+     * @param event Das Ereignis
+     */
+    abstract publish(event: FilmEvent): Promise<void>;
+
+    /**
+     * Die Ereignisse eines Typs abonnieren. Mit `return()` beim Iterator wird
+     * das Abonnement beendet.
+     * @param typ Der Typ der Ereignisse
+     * @returns AsyncIterator mit den Ereignissen jeweils als 1-elementiges Array
+     */
+    abstract subscribe<T extends FilmEventTyp>(
+        typ: T,
+    ): AsyncIterableIterator<[Extract<FilmEvent, { typ: T }>]>;
+}
+
+/**
+ * Die Klasse `InMemoryFilmPubSub` verteilt die Ereignisse mit einem
+ * `EventEmitter` nur innerhalb des eigenen Node-Prozesses.
+ */
+@Injectable()
+export class InMemoryFilmPubSub extends FilmPubSub {
+    // events.on() liefert fuer einen EventEmitter einen AsyncIterator
+    // eslint-disable-next-line unicorn/prefer-event-target
+    readonly #emitter = new EventEmitter();
+
+    readonly #logger = getLogger(InMemoryFilmPubSub.name);
+
+    constructor() {
+        super();
+        // je Abonnement ein Listener: keine Warnung bei vielen Abonnenten
+        this.#emitter.setMaxListeners(0);
+    }
+
+    // eslint-disable-next-line @typescript-eslint/require-await
+    async publish(event: FilmEvent) {
+        this.#logger.debug(
+            'publish: typ=%s, abonnenten=%d',
+            event.typ,
+            this.#emitter.listenerCount(event.typ),
+        );
+        this.#emitter.emit(event.typ, event);
+    }
+
+    subscribe<T extends FilmEventTyp>(typ: T) {
+        this.#logger.debug('subscribe: typ=%s', typ);
+        return on(this.#emitter, typ) as AsyncIterableIterator<
+            [Extract<FilmEvent, { typ: T }>]
+        >;
+    }
+}
+/* eslint-enable max-classes-per-file */
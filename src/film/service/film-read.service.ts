@@ -1,3 +1,4 @@
+/* eslint-disable max-lines */
 /*
  * Copyright (C) 2016 - present Juergen Zimmermann, Hochschule Karlsruhe
  *
@@ -22,9 +23,21 @@
 
 import { Film } from './../entity/film.entity.js';
 // eslint-disable-next-line sort-imports
-import { Injectable, NotFoundException } from '@nestjs/common';
-import { QueryBuilder } from './query-builder.js';
+import {
+    BadRequestException,
+    Injectable,
+    NotFoundException,
+} from '@nestjs/common';
+import { type Facet, type Facets } from './facets.js';
+import { type Keyset, type KeysetSlice } from './keyset.js';
+import { type Pageable, type Slice } from './pageable.js';
+import { QueryBuilder, RANGE_SUCHKRITERIEN } from './query-builder.js';
+import { type Field } from './fields.js';
+import { type FilterAusdruck } from './filter.js';
+import { InjectRepository } from '@nestjs/typeorm';
 import RE2 from 're2'; // eslint-disable-line @typescript-eslint/naming-convention
+import { Repository } from 'typeorm';
+import { type SortOrder } from './sort.js';
 import { getLogger } from '../../logger/logger.js';
 
 /**
@@ -33,19 +46,51 @@ import { getLogger } from '../../logger/logger.js';
 export interface FindByIdParams {
     /** ID des gesuchten Films */
     readonly id: number;
-    /** Sollen die Schauspielers mitgeladen werden? */
-    readonly mitSchauspielers?: boolean;
+    /** Soll die Besetzung mit den Personen mitgeladen werden? */
+    readonly mitBesetzung?: boolean;
 }
+/**
+ * Typdefinition für die Optionen bei `find`
+ */
+export interface FindOptions {
+    /** Optionale Sortierkriterien; zuletzt wird nach der ID sortiert */
+    readonly sort?: readonly SortOrder[];
+    /** Optionale Felder, auf die das Lesen beschränkt wird */
+    readonly fields?: readonly Field[] | undefined;
+    /** Optionaler Filter als Syntaxbaum, z.B. aus dem Query-Parameter `filter` */
+    readonly filter?: FilterAusdruck | undefined;
+}
+
+/**
+ * Typdefinition für `find`, wobei z.B. `ratingMin` und `ratingMax` einen
+ * Bereich mit inklusiven Grenzen festlegen. Bei mehreren Werten für `genre`
+ * legt `genreMatch` fest, ob mind. ein Genre ("any") oder alle Genres ("all")
+ * vorhanden sein müssen. Mit `schauspieler` wird nach einem Teilstring im
+ * Namen eines Schauspielers und mit `schauspielerEmail` nach dessen
+ * Emailadresse gesucht. Mit `q` gibt es eine Volltextsuche in Titel,
+ * Originaltitel, Serienname, Direktor und den Namen der Schauspieler.
+ */
 export interface Suchkriterien {
     readonly rating?: number;
+    readonly ratingMin?: number;
+    readonly ratingMax?: number;
     readonly filmstart?: string;
+    readonly filmstartVon?: string;
+    readonly filmstartBis?: string;
     readonly dauer?: number;
+    readonly dauerMin?: number;
+    readonly dauerMax?: number;
     readonly sprache?: string;
     readonly direktor?: string;
+    readonly genre?: string | string[];
+    readonly genreMatch?: string;
     readonly action?: string;
     readonly horror?: string;
     readonly romance?: string;
     readonly titel?: string;
+    readonly schauspieler?: string;
+    readonly schauspielerEmail?: string;
+    readonly q?: string;
 }
 
 /**
@@ -56,15 +101,27 @@ export interface Suchkriterien {
 export class FilmReadService {
     static readonly ID_PATTERN = new RE2('^[1-9][\\d]*$');
 
+    // ganze Zahl fuer eine Spalte vom Typ "integer"
+    static readonly INTEGER_PATTERN = new RE2('^-?\\d{1,9}$');
+
+    // Datum im Format YYYY-MM-DD wie bei der Spalte vom Typ "date"
+    static readonly DATE_PATTERN = new RE2('^\\d{4}-\\d{2}-\\d{2}$');
+
     readonly #filmProps: string[];
 
     readonly #queryBuilder: QueryBuilder;
 
     readonly #logger = getLogger(FilmReadService.name);
 
-    constructor(queryBuilder: QueryBuilder) {
-        const filmDummy = new Film();
-        this.#filmProps = Object.getOwnPropertyNames(filmDummy);
+    constructor(
+        queryBuilder: QueryBuilder,
+        @InjectRepository(Film) repo: Repository<Film>,
+    ) {
+        // nur Spalten aus den Metadaten von TypeORM als Suchkriterien, d.h.
+        // weder Relationen wie genres noch Properties wie toString
+        this.#filmProps = repo.metadata.columns
+            .filter((column) => column.relationMetadata === undefined)
+            .map((column) => column.propertyName);
         this.#queryBuilder = queryBuilder;
     }
 
@@ -88,14 +145,14 @@ export class FilmReadService {
      * @throws NotFoundException falls kein Film mit der ID existiert
      */
     // https://2ality.com/2015/01/es6-destructuring.html#simulating-named-parameters-in-javascript
-    async findById({ id, mitSchauspielers = false }: FindByIdParams) {
+    async findById({ id, mitBesetzung = false }: FindByIdParams) {
         this.#logger.debug('findById: id=%d', id);
 
         // https://typeorm.io/working-with-repository
         // Das Resultat ist undefined, falls kein Datensatz gefunden
         // Lesen: Keine Transaktion erforderlich
         const film = await this.#queryBuilder
-            .buildId({ id, mitSchauspielers })
+            .buildId({ id, mitBesetzung })
             .getOne();
         if (film === null) {
             throw new NotFoundException(`Es gibt kein Film mit der ID ${id}.`);
@@ -107,11 +164,8 @@ export class FilmReadService {
                 film.toString(),
                 film.titel,
             );
-            if (mitSchauspielers) {
-                this.#logger.debug(
-                    'findById: schauspielers=%o',
-                    film.schauspielers,
-                );
+            if (mitBesetzung) {
+                this.#logger.debug('findById: besetzung=%o', film.besetzung);
             }
         }
         return film;
@@ -120,37 +174,236 @@ export class FilmReadService {
     /**
      * Filme asynchron suchen.
      * @param suchkriterien JSON-Objekt mit Suchkriterien
-     * @returns Ein JSON-Array mit den gefundenen Filmen.
+     * @param pageable Optionale Seite; ohne Seite werden alle Filme gelesen
+     * @param options Optionale Sortierkriterien, Felder und Filter
+     * @returns Die gefundenen Filme der Seite und deren Gesamtanzahl.
      * @throws NotFoundException falls keine Filme gefunden wurden.
      */
-    async find(suchkriterien?: Suchkriterien) {
-        this.#logger.debug('find: suchkriterien=%o', suchkriterien);
+    async find(
+        suchkriterien?: Suchkriterien,
+        pageable?: Pageable,
+        options: FindOptions = {},
+    ): Promise<Slice<Film>> {
+        this.#logger.debug(
+            'find: suchkriterien=%o, pageable=%o, options=%o',
+            suchkriterien,
+            pageable,
+            options,
+        );
 
-        // Keine Suchkriterien?
-        if (suchkriterien === undefined) {
-            return this.#queryBuilder.build({}).getMany();
+        // Keine Suchkriterien und kein Filter?
+        const kriterien = suchkriterien ?? {};
+        const ohneKriterien = Object.keys(kriterien).length === 0;
+        if (ohneKriterien && options.filter === undefined) {
+            return this.#findAndCount(kriterien, pageable, options);
         }
-        const keys = Object.keys(suchkriterien);
-        if (keys.length === 0) {
-            return this.#queryBuilder.build(suchkriterien).getMany();
-        }
-        // Falsche Namen fuer Suchkriterien?
-        if (!this.#checkKeys(keys)) {
-            throw new NotFoundException('Ungueltige Suchkriterien');
+        if (!ohneKriterien) {
+            this.#checkSuchkriterien(kriterien);
         }
 
         // QueryBuilder https://typeorm.io/select-query-builder
         // Das Resultat ist eine leere Liste, falls nichts gefunden
         // Lesen: Keine Transaktion erforderlich
-        const filme = await this.#queryBuilder.build(suchkriterien).getMany();
-        this.#logger.debug('find: filme=%o', filme);
-        if (filme.length === 0) {
+        const slice = await this.#findAndCount(kriterien, pageable, options);
+        this.#logger.debug('find: slice=%o', slice);
+        if (slice.totalElements === 0) {
             throw new NotFoundException(
-                `Keine Filme gefunden: ${JSON.stringify(suchkriterien)}`,
+                `Keine Filme gefunden: ${JSON.stringify(kriterien)}`,
+            );
+        }
+
+        return slice;
+    }
+
+    /**
+     * Die Titel zu mehreren Filmen asynchron mit einer einzigen Abfrage
+     * suchen, z.B. für einen DataLoader bei GraphQL.
+     * @param ids IDs der Filme
+     * @returns Die gefundenen Filme nur mit der ID und dem Titel
+     */
+    async findTitel(ids: readonly number[]) {
+        this.#logger.debug('findTitel: ids=%o', ids);
+        // Lesen: Keine Transaktion erforderlich
+        return this.#queryBuilder.buildTitel(ids).getMany();
+    }
+
+    /**
+     * Die Besetzung zu mehreren Filmen asynchron mit einer einzigen Abfrage
+     * suchen, z.B. für einen DataLoader bei GraphQL.
+     * @param ids IDs der Filme
+     * @returns Die gefundenen Filme nur mit der ID und der Besetzung
+     */
+    async findBesetzung(ids: readonly number[]) {
+        this.#logger.debug('findBesetzung: ids=%o', ids);
+        // Lesen: Keine Transaktion erforderlich
+        return this.#queryBuilder.buildBesetzung(ids).getMany();
+    }
+
+    /**
+     * Filme mit Keyset-Paginierung asynchron suchen, d.h. nach bzw. vor
+     * einem Cursor statt mit einem Offset.
+     * @param keyset Die Keyset-Paginierung
+     * @param filter Optionaler Filter als Syntaxbaum
+     * @returns Die gefundenen Filme in der Sortierung und ob es in
+     *  Leserichtung weitere Filme gibt; evtl. keine Filme
+     */
+    async findKeyset(
+        keyset: Keyset,
+        filter?: FilterAusdruck,
+    ): Promise<KeysetSlice<Film>> {
+        this.#logger.debug('findKeyset: keyset=%o, filter=%o', keyset, filter);
+
+        // Lesen: Keine Transaktion erforderlich
+        // ein Film mehr als die Seitengroesse, um weitere Filme festzustellen
+        const filme = await this.#queryBuilder
+            .buildKeyset(keyset, filter)
+            .take(keyset.size + 1)
+            .getMany();
+        const hasMore = filme.length > keyset.size;
+        const content = filme.slice(0, keyset.size);
+        // beim Rueckwaertslesen umgekehrt sortiert
+        if (keyset.rueckwaerts) {
+            content.reverse();
+        }
+        this.#logger.debug(
+            'findKeyset: anzahl=%d, hasMore=%s',
+            content.length,
+            hasMore,
+        );
+        return { content, hasMore };
+    }
+
+    /**
+     * Die Anzahl der Filme je Wert der angeforderten Facetten zu den
+     * Suchkriterien asynchron ermitteln.
+     * @param suchkriterien JSON-Objekt mit Suchkriterien
+     * @param facets Die Facetten, z.B. `genres` und `sprache`
+     * @param filter Optionaler Filter als Syntaxbaum
+     * @returns Die Facetten jeweils absteigend nach der Anzahl
+     */
+    async facets(
+        suchkriterien: Suchkriterien,
+        facets: readonly Facet[],
+        filter?: FilterAusdruck,
+    ): Promise<Facets> {
+        this.#logger.debug(
+            'facets: suchkriterien=%o, facets=%o, filter=%o',
+            suchkriterien,
+            facets,
+            filter,
+        );
+        if (Object.keys(suchkriterien).length > 0) {
+            this.#checkSuchkriterien(suchkriterien);
+        }
+
+        // Aggregatfunktion COUNT je Facette; Lesen: Keine Transaktion erforderlich
+        const counts = await Promise.all(
+            facets.map(async (facet) => {
+                const rows: {
+                    wert: number | string;
+                    anzahl: number | string;
+                }[] = await this.#queryBuilder
+                    .buildFacet(suchkriterien, facet, filter)
+                    .getRawMany();
+                // COUNT liefert z.B. bei PostgreSQL bigint als String
+                const facetCounts = rows.map(({ wert, anzahl }) => ({
+                    wert:
+                        facet === 'rating' || facet === 'filmstart'
+                            ? Number(wert)
+                            : wert,
+                    anzahl: Number(anzahl),
+                }));
+                return [facet, facetCounts] as const;
+            }),
+        );
+        const result: Facets = Object.fromEntries(counts);
+        this.#logger.debug('facets: result=%o', result);
+        return result;
+    }
+
+    #checkSuchkriterien(suchkriterien: Suchkriterien) {
+        // Falsche Namen fuer Suchkriterien?
+        if (!this.#checkKeys(Object.keys(suchkriterien))) {
+            throw new NotFoundException('Ungueltige Suchkriterien');
+        }
+        this.#checkRanges(suchkriterien);
+        this.#checkGenreMatch(suchkriterien);
+        this.#checkQ(suchkriterien);
+    }
+
+    async #findAndCount(
+        suchkriterien: Suchkriterien,
+        pageable: Pageable | undefined,
+        options: FindOptions,
+    ): Promise<Slice<Film>> {
+        let queryBuilder = this.#queryBuilder.build(suchkriterien, options);
+        if (pageable !== undefined) {
+            queryBuilder = queryBuilder
+                .skip(pageable.number * pageable.size)
+                .take(pageable.size);
+        }
+        const [content, totalElements] = await queryBuilder.getManyAndCount();
+        return { content, totalElements };
+    }
+
+    #checkRanges({
+        ratingMin,
+        ratingMax,
+        dauerMin,
+        dauerMax,
+        filmstartVon,
+        filmstartBis,
+    }: Suchkriterien) {
+        Object.entries({ ratingMin, ratingMax, dauerMin, dauerMax })
+            .filter(([, value]) => value !== undefined)
+            .forEach(([key, value]) => {
+                if (!FilmReadService.INTEGER_PATTERN.test(String(value))) {
+                    throw new BadRequestException(
+                        `Das Suchkriterium ${key} ist keine ganze Zahl: ${value}`,
+                    );
+                }
+            });
+        Object.entries({ filmstartVon, filmstartBis })
+            .filter(([, value]) => value !== undefined)
+            .forEach(([key, value]) => {
+                if (!this.#isDatum(String(value))) {
+                    throw new BadRequestException(
+                        `Das Suchkriterium ${key} ist kein Datum im Format JJJJ-MM-TT: ${value}`,
+                    );
+                }
+            });
+    }
+
+    // z.B. 2022-02-30 passt zum Format, ist aber kein gueltiges Datum
+    #isDatum(value: string) {
+        if (!FilmReadService.DATE_PATTERN.test(value)) {
+            return false;
+        }
+        const zeitpunkt = Date.parse(value);
+        return (
+            !Number.isNaN(zeitpunkt) &&
+            new Date(zeitpunkt).toISOString().startsWith(value)
+        );
+    }
+
+    #checkGenreMatch({ genreMatch }: Suchkriterien) {
+        if (
+            genreMatch !== undefined &&
+            genreMatch !== 'any' &&
+            genreMatch !== 'all'
+        ) {
+            throw new BadRequestException(
+                `Das Suchkriterium genreMatch muss "any" oder "all" sein: ${genreMatch}`,
             );
         }
+    }
 
-        return filme;
+    #checkQ({ q }: Suchkriterien) {
+        if (q !== undefined && q.trim() === '') {
+            throw new BadRequestException(
+                'Das Suchkriterium q darf nicht leer sein',
+            );
+        }
     }
 
     #checkKeys(keys: string[]) {
@@ -159,6 +412,13 @@ export class FilmReadService {
         keys.forEach((key) => {
             if (
                 !this.#filmProps.includes(key) &&
+                !Object.hasOwn(RANGE_SUCHKRITERIEN, key) &&
+                key !== 'titel' &&
+                key !== 'genre' &&
+                key !== 'genreMatch' &&
+                key !== 'schauspieler' &&
+                key !== 'schauspielerEmail' &&
+                key !== 'q' &&
                 key !== 'action' &&
                 key !== 'horror' &&
                 key !== 'romance'
@@ -174,3 +434,4 @@ export class FilmReadService {
         return validKeys;
     }
 }
+/* eslint-enable max-lines */
@@ -1,3 +1,4 @@
+/* eslint-disable max-lines */
 /*
  * Copyright (C) 2016 - present Juergen Zimmermann, Hochschule Karlsruhe
  *
@@ -21,69 +22,371 @@
  * @packageDocumentation
  */
 
+import { type DeleteResult, type EntityManager, Repository } from 'typeorm';
 import { Injectable, NotFoundException } from '@nestjs/common';
+import {
+    TitelExistsException,
+    VersionInvalidException,
+    VersionOutdatedException,
+} from './exceptions.js';
+import { Besetzung } from '../entity/besetzung.entity.js';
 import { Film } from '../entity/film.entity.js';
+import { FilmPubSub } from './film-pubsub.js';
 import { FilmReadService } from './film-read.service.js';
+import { type Genre } from '../entity/genre.entity.js';
+import { GenreService } from './genre.service.js';
 import { InjectRepository } from '@nestjs/typeorm';
 import { MailService } from '../../mail/mail.service.js';
-import { Repository } from 'typeorm';
-import { TitelExistsException } from './exceptions.js';
+import { PersonService } from './person.service.js';
+import RE2 from 're2'; // eslint-disable-line @typescript-eslint/naming-convention
+import { SuggestService } from './suggest.service.js';
+import { Titel } from '../entity/titel.entity.js';
 import { getLogger } from '../../logger/logger.js';
 
+/**
+ * Film-Objekt zum Aktualisieren: Titel und Besetzung werden nur dann
+ * geändert, wenn sie vorhanden sind.
+ */
+export type FilmUpdate = Omit<Film, 'besetzung' | 'titel'> &
+    Partial<Pick<Film, 'besetzung' | 'titel'>>;
+
+/** Typdefinitionen zum Aktualisieren eines Filmes mit `update`. */
+export interface UpdateParams {
+    /** ID des zu aktualisierenden Filmes. */
+    readonly id: number | undefined;
+    /** Film-Objekt mit den aktualisierten Werten. */
+    readonly film: FilmUpdate;
+    /** Versionsnummer für die aktualisierenden Werte. */
+    readonly version: string;
+}
+
 /**
  * Die Klasse `FilmWriteService` implementiert den Anwendungskern für das
  * Schreiben von Filmen und greift mit _TypeORM_ auf die DB zu.
  */
 @Injectable()
 export class FilmWriteService {
+    // ETag von GET mit Varianten fuer die Repraesentation, z.B. "1-update"
+    private static readonly VERSION_PATTERN = new RE2(
+        '^"\\d+(-(schauspielers|update|remove))*"$',
+    );
+
     readonly #repo: Repository<Film>;
 
     readonly #readService: FilmReadService;
 
     readonly #mailService: MailService;
 
+    readonly #genreService: GenreService;
+
+    readonly #personService: PersonService;
+
+    readonly #suggestService: SuggestService;
+
+    readonly #pubSub: FilmPubSub;
+
     readonly #logger = getLogger(FilmWriteService.name);
 
+    // eslint-disable-next-line max-params
     constructor(
         @InjectRepository(Film) repo: Repository<Film>,
         readService: FilmReadService,
         mailService: MailService,
+        genreService: GenreService,
+        personService: PersonService,
+        suggestService: SuggestService,
+        pubSub: FilmPubSub,
     ) {
         this.#repo = repo;
         this.#readService = readService;
         this.#mailService = mailService;
+        this.#genreService = genreService;
+        this.#personService = personService;
+        this.#suggestService = suggestService;
+        this.#pubSub = pubSub;
     }
 
     /**
-     * Ein neues Film soll angelegt werden.
+     * Ein neues Film soll angelegt werden. Die Personen in der Besetzung
+     * werden anhand der Emailadresse wiederverwendet oder neu angelegt.
      * @param film Das neu abzulegende Film
      * @returns Die ID des neu angelegten Filmes
      * @throws TitelExists falls der Titel bereits existiert
+     * @throws GenreInvalidException falls es ein Genre nicht im Katalog gibt
      */
     async create(film: Film): Promise<number> {
         this.#logger.debug('create: film=%o', film);
         await this.#validateCreate(film);
+        const genres = await this.#findGenres(film.genres);
 
-        const filmDb = await this.#repo.save(film); // implizite Transaktion
+        const filmDb = await this.#repo.manager.transaction(
+            async (transactionalMgr) => {
+                await this.#findPersonen(film.besetzung, transactionalMgr);
+                return transactionalMgr.save(
+                    this.#repo.merge(film, { genres }),
+                );
+            },
+        );
         this.#logger.debug('create: filmDb=%o', filmDb);
+        this.#suggestService.invalidate();
 
+        // erst nach dem Commit, damit die Abonnenten nur gespeicherte Daten erhalten
+        await this.#pubSub.publish({ typ: 'filmCreated', film: filmDb });
         await this.#sendmail(filmDb);
 
         return filmDb.id!;
     }
 
+    /**
+     * Ein vorhandener Film soll aktualisiert werden.
+     * @param film Der zu aktualisierende Film
+     * @param id ID des zu aktualisierenden Films
+     * @param version Die Versionsnummer für optimistische Synchronisation
+     * @returns Die neue Versionsnummer gemäß optimistischer Synchronisation
+     * @throws VersionInvalidException falls die Versionsnummer ungültig ist
+     * @throws VersionOutdatedException falls die Versionsnummer veraltet ist
+     * @throws GenreInvalidException falls es ein Genre nicht im Katalog gibt
+     */
+    async update({ id, film, version }: UpdateParams): Promise<number> {
+        this.#logger.debug(
+            'update: id=%d, film=%o, version=%s',
+            id,
+            film,
+            version,
+        );
+        if (id === undefined) {
+            this.#logger.debug('update: Keine gueltige ID');
+            throw new NotFoundException(`Es gibt kein Film mit der ID ${id}.`);
+        }
+
+        const versionNr = this.#validateVersion(version);
+        const filmDb = await this.#validateUpdate(film, id, versionNr);
+        this.#logger.debug('update: filmDb=%o', filmDb);
+
+        const { titel, besetzung, genres } = film;
+        const genresDb = await this.#findGenres(genres);
+        await this.#repo.manager.transaction(async (transactionalMgr) => {
+            await this.#updateMitVersion(film, filmDb, transactionalMgr);
+
+            if (titel !== undefined) {
+                await transactionalMgr.update(Titel, filmDb.titel.id!, {
+                    titel: titel.titel,
+                    originaltitel: titel.originaltitel,
+                    serienname: titel.serienname,
+                });
+            }
+
+            if (besetzung !== undefined) {
+                await this.#replaceBesetzung(
+                    besetzung,
+                    filmDb,
+                    transactionalMgr,
+                );
+            }
+
+            if (genresDb !== undefined) {
+                await transactionalMgr
+                    .createQueryBuilder()
+                    .relation(Film, 'genres')
+                    .of(id)
+                    .addAndRemove(genresDb, filmDb.genres ?? []);
+            }
+        });
+        const versionNeu = versionNr + 1;
+        this.#logger.debug('update: versionNeu=%d', versionNeu);
+        // Titel und Originaltitel koennen geaendert sein
+        this.#suggestService.invalidate();
+
+        await this.#publishUpdated(id);
+
+        return versionNeu;
+    }
+
+    /**
+     * Ein Film wird asynchron anhand seiner ID gelöscht.
+     *
+     * @param id ID des zu löschenden Filmes
+     * @returns true, falls der Film vorhanden war und gelöscht wurde. Sonst false.
+     */
+    async delete(id: number) {
+        this.#logger.debug('delete: id=%d', id);
+        let film: Film;
+        try {
+            film = await this.#readService.findById({
+                id,
+                mitBesetzung: true,
+            });
+        } catch (err) {
+            if (err instanceof NotFoundException) {
+                this.#logger.debug('delete: kein Film mit der ID %d', id);
+                return false;
+            }
+            throw err;
+        }
+
+        let deleteResult: DeleteResult | undefined;
+        await this.#repo.manager.transaction(async (transactionalMgr) => {
+            // Den Film zur gegebenen ID mit Titel und Besetzung asynchron loeschen;
+            // die Personen bleiben erhalten
+            const titelId = film.titel.id;
+            if (titelId !== undefined) {
+                await transactionalMgr.delete(Titel, titelId);
+            }
+            for (const { id: besetzungId } of film.besetzung ?? []) {
+                if (besetzungId !== undefined) {
+                    await transactionalMgr.delete(Besetzung, besetzungId);
+                }
+            }
+
+            deleteResult = await transactionalMgr.delete(Film, id);
+            this.#logger.debug('delete: deleteResult=%o', deleteResult);
+        });
+        this.#suggestService.invalidate();
+
+        const geloescht =
+            deleteResult?.affected !== undefined &&
+            deleteResult.affected !== null &&
+            deleteResult.affected > 0;
+        if (geloescht) {
+            await this.#pubSub.publish({ typ: 'filmDeleted', id });
+        }
+        return geloescht;
+    }
+
+    // UPDATE ... WHERE version = :version, damit ein paralleles Update nicht
+    // ueberschrieben wird; die Versionsnummer wird dabei von TypeORM inkrementiert
+    async #updateMitVersion(
+        film: FilmUpdate,
+        filmDb: Film,
+        transactionalMgr: EntityManager,
+    ) {
+        const { id, version } = filmDb;
+        const { rating, filmstart, dauer, sprache, direktor } = film;
+        const { affected } = await transactionalMgr.update(
+            Film,
+            { id, version },
+            { rating, filmstart, dauer, sprache, direktor },
+        );
+        if (affected !== 1) {
+            throw new VersionOutdatedException(version!);
+        }
+    }
+
+    // Die Besetzung wird vollstaendig ersetzt, die Personen bleiben
+    async #replaceBesetzung(
+        besetzung: Besetzung[],
+        filmDb: Film,
+        transactionalMgr: EntityManager,
+    ) {
+        await transactionalMgr
+            .createQueryBuilder()
+            .delete()
+            .from(Besetzung)
+            .where('film_id = :id', { id: filmDb.id })
+            .execute();
+        await this.#findPersonen(besetzung, transactionalMgr);
+        besetzung.forEach((schauspieler) => {
+            schauspieler.id = undefined;
+            schauspieler.film = filmDb;
+        });
+        await transactionalMgr.save(Besetzung, besetzung);
+    }
+
+    async #findGenres(genres: Genre[] | undefined) {
+        // nur die Namen der Genres sind relevant, die IDs stammen aus dem Katalog
+        return genres === undefined
+            ? undefined
+            : this.#genreService.findByNamen(genres.map(({ name }) => name));
+    }
+
+    async #findPersonen(
+        besetzung: Besetzung[] | undefined,
+        transactionalMgr: EntityManager,
+    ) {
+        // sequentiell, damit eine Person nur einmal angelegt wird, auch wenn sie
+        // mehrfach in der Besetzung vorkommt
+        for (const schauspieler of besetzung ?? []) {
+            if (schauspieler.person !== undefined) {
+                schauspieler.person = await this.#personService.findOrCreate(
+                    schauspieler.person,
+                    transactionalMgr,
+                );
+            }
+        }
+    }
+
     async #validateCreate(film: Film): Promise<undefined> {
         this.#logger.debug('#validateCreate: film=%o', film);
+        await this.#validateTitel(film.titel);
+    }
 
-        const { titel } = film;
+    async #validateTitel(titel: Titel): Promise<undefined> {
+        this.#logger.debug('#validateTitel: titel=%o', titel);
+        let filme: Film[];
         try {
-            await this.#readService.find({ titel: titel.titel });
+            ({ content: filme } = await this.#readService.find({
+                titel: titel.titel,
+            }));
         } catch (err) {
             if (err instanceof NotFoundException) {
                 return;
             }
+            throw err;
+        }
+        // Suche mit "like": nur ein gleicher Titel ist ein Konflikt
+        if (filme.some((film) => film.titel.titel === titel.titel)) {
+            throw new TitelExistsException(titel);
+        }
+    }
+
+    async #validateUpdate(
+        film: FilmUpdate,
+        id: number,
+        version: number,
+    ): Promise<Film> {
+        this.#logger.debug(
+            '#validateUpdate: film=%o, version=%s',
+            film,
+            version,
+        );
+
+        const filmDb = await this.#readService.findById({ id });
+
+        const versionDb = filmDb.version!;
+        if (version !== versionDb) {
+            this.#logger.debug('#validateUpdate: versionDb=%d', versionDb);
+            throw new VersionOutdatedException(version);
         }
-        throw new TitelExistsException(titel);
+        this.#logger.debug('#validateUpdate: filmDb=%o', filmDb);
+
+        const titel = film.titel?.titel;
+        if (titel !== undefined && titel !== filmDb.titel.titel) {
+            await this.#validateTitel(film.titel!);
+        }
+        return filmDb;
+    }
+
+    #validateVersion(version: string | undefined): number {
+        this.#logger.debug('#validateVersion: version=%s', version);
+        if (
+            version === undefined ||
+            !FilmWriteService.VERSION_PATTERN.test(version)
+        ) {
+            throw new VersionInvalidException(version);
+        }
+
+        // parseInt() endet beim ersten "-" der Varianten
+        return Number.parseInt(version.slice(1, -1), 10);
+    }
+
+    async #publishUpdated(id: number) {
+        // nach dem Commit erneut lesen, weil Titel und Besetzung separat
+        // aktualisiert werden
+        const film = await this.#readService.findById({
+            id,
+            mitBesetzung: true,
+        });
+        await this.#pubSub.publish({ typ: 'filmUpdated', film });
     }
 
     async #sendmail(film: Film) {
@@ -93,3 +396,4 @@ export class FilmWriteService {
         await this.#mailService.sendmail({ subject, body });
     }
 }
+/* eslint-enable max-lines */
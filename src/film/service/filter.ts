@@ -0,0 +1,529 @@
+/* eslint-disable max-lines */
+/*
+ * Copyright (C) 2024 - present Juergen Zimmermann, Hochschule Karlsruhe
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with this program.  If not, see <https://www.gnu.org/licenses/>.
+ */
+
+/**
+ * Das Modul besteht aus dem Parser für einen Filter im Stil von RSQL/FIQL,
+ * z.B. `rating=ge=4;(sprache==ENGLISCH,sprache==DEUTSCH)`, und den
+ * Typdefinitionen für den daraus erstellten Syntaxbaum.
+ * @packageDocumentation
+ */
+
+import { FilterInvalidException } from './exceptions.js';
+import RE2 from 're2'; // eslint-disable-line @typescript-eslint/naming-convention
+
+/** Maximale Länge eines Filters */
+export const MAX_FILTER_LAENGE = 1000;
+
+/** Maximale Verschachtelungstiefe durch Klammern in einem Filter */
+export const MAX_FILTER_TIEFE = 10;
+
+/** Typdefinition für den Datentyp eines Feldes im Filter. */
+export type FilterTyp = 'date' | 'number' | 'string';
+
+/** Typdefinition für die Entity, zu der ein Feld im Filter gehört. */
+export type FilterEntitaet = 'film' | 'genre' | 'person' | 'titel';
+
+/** Typdefinition für ein Feld, nach dem gefiltert werden kann. */
+export interface FilterFeld {
+    readonly entitaet: FilterEntitaet;
+    /** Property der Entity, z.B. `nachname` bei `Person` */
+    readonly property: string;
+    readonly typ: FilterTyp;
+}
+
+/**
+ * Felder von `Film`, `Titel` und den Schauspielern, nach denen gefiltert
+ * werden kann. Bei den Collections `genres` und `schauspieler.*` ist ein
+ * Vergleich erfüllt, wenn mind. ein Genre bzw. Schauspieler passt; bei `!=`
+ * und `=out=`, wenn keines bzw. keiner passt.
+ */
+export const FILTER_FELDER: ReadonlyMap<string, FilterFeld> = new Map<
+    string,
+    FilterFeld
+>([
+    ['id', { entitaet: 'film', property: 'id', typ: 'number' }],
+    ['version', { entitaet: 'film', property: 'version', typ: 'number' }],
+    ['rating', { entitaet: 'film', property: 'rating', typ: 'number' }],
+    ['filmstart', { entitaet: 'film', property: 'filmstart', typ: 'date' }],
+    ['dauer', { entitaet: 'film', property: 'dauer', typ: 'number' }],
+    ['sprache', { entitaet: 'film', property: 'sprache', typ: 'string' }],
+    ['direktor', { entitaet: 'film', property: 'direktor', typ: 'string' }],
+    ['erzeugt', { entitaet: 'film', property: 'erzeugt', typ: 'date' }],
+    [
+        'aktualisiert',
+        { entitaet: 'film', property: 'aktualisiert', typ: 'date' },
+    ],
+    ['genres', { entitaet: 'genre', property: 'name', typ: 'string' }],
+    ['titel.titel', { entitaet: 'titel', property: 'titel', typ: 'string' }],
+    [
+        'titel.originaltitel',
+        { entitaet: 'titel', property: 'originaltitel', typ: 'string' },
+    ],
+    [
+        'titel.serienname',
+        { entitaet: 'titel', property: 'serienname', typ: 'string' },
+    ],
+    [
+        'schauspieler.vorname',
+        { entitaet: 'person', property: 'vorname', typ: 'string' },
+    ],
+    [
+        'schauspieler.nachname',
+        { entitaet: 'person', property: 'nachname', typ: 'string' },
+    ],
+    [
+        'schauspieler.email',
+        { entitaet: 'person', property: 'email', typ: 'string' },
+    ],
+]);
+
+/** Typdefinition für einen Vergleichsoperator im Filter. */
+export type FilterOperator =
+    | 'eq'
+    | 'ge'
+    | 'gt'
+    | 'in'
+    | 'le'
+    | 'like'
+    | 'lt'
+    | 'ne'
+    | 'out';
+
+/** Operatoren gemäß RSQL bzw. FIQL mit den Alternativen wie z.B. `>=` */
+const OPERATOREN: ReadonlyMap<string, FilterOperator> = new Map([
+    ['==', 'eq'],
+    ['!=', 'ne'],
+    ['=gt=', 'gt'],
+    ['>', 'gt'],
+    ['=ge=', 'ge'],
+    ['>=', 'ge'],
+    ['=lt=', 'lt'],
+    ['<', 'lt'],
+    ['=le=', 'le'],
+    ['<=', 'le'],
+    ['=like=', 'like'],
+    ['=in=', 'in'],
+    ['=out=', 'out'],
+]);
+
+/** Typdefinition für einen Vergleich, z.B. `rating=ge=4`. */
+export interface FilterVergleich {
+    readonly typ: 'vergleich';
+    /** Feld gemäß `FILTER_FELDER`, z.B. `titel.titel` */
+    readonly feld: string;
+    readonly operator: FilterOperator;
+    /**
+     * Validierte Werte: Zahlen bei Feldern vom Typ `number`, sonst Strings.
+     * Bei `=like=` steht `*` für beliebig viele Zeichen.
+     */
+    readonly werte: readonly (number | string)[];
+}
+
+/** Typdefinition für eine Verknüpfung mit `;` (and) bzw. `,` (or). */
+export interface FilterVerknuepfung {
+    readonly typ: 'and' | 'or';
+    // rekursive Typdefinition
+    // eslint-disable-next-line no-use-before-define
+    readonly operanden: readonly FilterAusdruck[];
+}
+
+/**
+ * Typdefinition für eine Negation, z.B. bei `NOT` in GraphQL. Die Negation
+ * ist auch erfüllt, wenn der Vergleich wegen `NULL` nicht auswertbar ist.
+ */
+export interface FilterNegation {
+    readonly typ: 'not';
+    // rekursive Typdefinition
+    // eslint-disable-next-line no-use-before-define
+    readonly operand: FilterAusdruck;
+}
+
+/** Typdefinition für den Syntaxbaum eines Filters. */
+export type FilterAusdruck =
+    | FilterNegation
+    | FilterVergleich
+    | FilterVerknuepfung;
+
+/** Zeichen, die einen Wert ohne Anführungszeichen beenden */
+const RESERVIERT: ReadonlySet<string> = new Set([
+    '"',
+    "'",
+    '(',
+    ')',
+    ';',
+    ',',
+    '=',
+    '!',
+    '<',
+    '>',
+    ' ',
+]);
+
+/** Operatoren aus Sonderzeichen, die längsten zuerst */
+const SYMBOL_OPERATOREN = ['==', '!=', '>=', '<=', '>', '<'] as const;
+
+/** Länge eines Datums im Format JJJJ-MM-TT */
+const DATUM_LAENGE = 'JJJJ-MM-TT'.length;
+
+const BUCHSTABE = new RE2('^[a-zA-Z]$');
+
+const feldNamen = [...FILTER_FELDER.keys()];
+const operatorNamen = [...OPERATOREN.keys()];
+
+const istBuchstabe = (zeichen: string) => BUCHSTABE.test(zeichen);
+
+// nur gueltige Datumsangaben im Format JJJJ-MM-TT
+const istDatum = (wert: string) => {
+    const datum = new Date(wert);
+    return (
+        !Number.isNaN(datum.getTime()) &&
+        datum.toISOString().slice(0, DATUM_LAENGE) === wert
+    );
+};
+
+/** Fehlermeldung, falls ein Wert nicht zum Datentyp des Feldes passt */
+const wertFehler = (wert: string, feld: string, typ: FilterTyp) => {
+    if (typ === 'number') {
+        return wert.trim() === '' || !Number.isFinite(Number(wert))
+            ? `"${wert}" ist keine Zahl fuer "${feld}"`
+            : undefined;
+    }
+    return typ === 'date' && !istDatum(wert)
+        ? `"${wert}" ist kein Datum im Format JJJJ-MM-TT fuer "${feld}"`
+        : undefined;
+};
+
+const konvertiere = (wert: string, typ: FilterTyp) => {
+    if (typ === 'number') {
+        return Number(wert);
+    }
+    return wert;
+};
+
+/** Ein Wert mit seiner Position im Filter für die Fehlermeldungen */
+interface Wert {
+    readonly wert: string;
+    readonly position: number;
+}
+
+/**
+ * Rekursiver Abstieg gemäß der Grammatik von RSQL:
+ * ```
+ * or         = and { "," and }
+ * and        = constraint { ";" constraint }
+ * constraint = "(" or ")" | comparison
+ * comparison = selector operator ( value | "(" value { "," value } ")" )
+ * ```
+ */
+class FilterParser {
+    readonly #text: string;
+
+    #pos = 0;
+
+    constructor(text: string) {
+        this.#text = text;
+    }
+
+    parse(): FilterAusdruck {
+        const ausdruck = this.#oder(0);
+        this.#leerzeichen();
+        if (this.#pos < this.#text.length) {
+            this.#fehler(
+                `Unerwartetes Zeichen "${this.#zeichen()}", erwartet: ";", "," oder das Ende`,
+            );
+        }
+        return ausdruck;
+    }
+
+    #oder(tiefe: number): FilterAusdruck {
+        const operanden = [this.#und(tiefe)];
+        while (this.#naechstes(',')) {
+            operanden.push(this.#und(tiefe));
+        }
+        return operanden.length === 1
+            ? operanden[0]!
+            : { typ: 'or', operanden };
+    }
+
+    #und(tiefe: number): FilterAusdruck {
+        const operanden = [this.#bedingung(tiefe)];
+        while (this.#naechstes(';')) {
+            operanden.push(this.#bedingung(tiefe));
+        }
+        return operanden.length === 1
+            ? operanden[0]!
+            : { typ: 'and', operanden };
+    }
+
+    #bedingung(tiefe: number): FilterAusdruck {
+        if (!this.#naechstes('(')) {
+            return this.#vergleich();
+        }
+        if (tiefe >= MAX_FILTER_TIEFE) {
+            this.#fehler(
+                `Maximal ${MAX_FILTER_TIEFE} geschachtelte Klammern sind erlaubt`,
+            );
+        }
+        const ausdruck = this.#oder(tiefe + 1);
+        if (!this.#naechstes(')')) {
+            this.#fehler('Erwartet: ")"');
+        }
+        return ausdruck;
+    }
+
+    #vergleich(): FilterVergleich {
+        this.#leerzeichen();
+        const feldPosition = this.#pos;
+        const feld = this.#selektor();
+        const definition = FILTER_FELDER.get(feld);
+        if (definition === undefined) {
+            return this.#fehler(
+                `Unbekanntes Feld "${feld}". Erlaubt: ${feldNamen.join(', ')}`,
+                feldPosition,
+            );
+        }
+        const { typ } = definition;
+
+        const operatorPosition = this.#pos;
+        const operator = this.#operator();
+        const liste = this.#naechstes('(');
+        if (liste && operator !== 'in' && operator !== 'out') {
+            this.#fehler(
+                'Eine Liste von Werten ist nur bei =in= und =out= erlaubt',
+                this.#pos - 1,
+            );
+        }
+        if (operator === 'like' && typ !== 'string') {
+            this.#fehler(
+                `Der Operator =like= ist bei "${feld}" nicht erlaubt`,
+                operatorPosition,
+            );
+        }
+        const werte = liste ? this.#liste() : [this.#wert()];
+        return {
+            typ: 'vergleich',
+            feld,
+            operator,
+            werte: werte.map((wert) => this.#konvertiere(wert, feld, typ)),
+        };
+    }
+
+    #selektor() {
+        const start = this.#pos;
+        while (
+            this.#pos < this.#text.length &&
+            (istBuchstabe(this.#zeichen()) || this.#zeichen() === '.')
+        ) {
+            this.#pos++;
+        }
+        if (this.#pos === start) {
+            this.#fehler('Erwartet: ein Feld oder "("');
+        }
+        return this.#text.slice(start, this.#pos);
+    }
+
+    #operator(): FilterOperator {
+        const start = this.#pos;
+        const symbol = SYMBOL_OPERATOREN.find((s) =>
+            this.#text.startsWith(s, start),
+        );
+        let operator: string;
+        if (symbol !== undefined) {
+            operator = symbol;
+        } else if (this.#zeichen() === '=') {
+            // FIQL: =ge=, =like=, ...
+            let ende = start + 1;
+            while (
+                ende < this.#text.length &&
+                istBuchstabe(this.#text.charAt(ende))
+            ) {
+                ende++;
+            }
+            operator = this.#text.slice(start, ende + 1);
+        } else {
+            operator = this.#text.slice(start, start + 1);
+        }
+        const filterOperator = OPERATOREN.get(operator);
+        if (filterOperator === undefined) {
+            return this.#fehler(
+                `Unbekannter Operator "${operator}". Erlaubt: ${operatorNamen.join(
+                    ', ',
+                )}`,
+                start,
+            );
+        }
+        this.#pos = start + operator.length;
+        return filterOperator;
+    }
+
+    #liste() {
+        const werte = [this.#wert()];
+        while (this.#naechstes(',')) {
+            werte.push(this.#wert());
+        }
+        if (!this.#naechstes(')')) {
+            this.#fehler('Erwartet: "," oder ")"');
+        }
+        return werte;
+    }
+
+    #wert(): Wert {
+        this.#leerzeichen();
+        const position = this.#pos;
+        const anfuehrungszeichen = this.#zeichen();
+        if (anfuehrungszeichen === '"' || anfuehrungszeichen === "'") {
+            return { wert: this.#zitat(anfuehrungszeichen), position };
+        }
+        while (
+            this.#pos < this.#text.length &&
+            !RESERVIERT.has(this.#zeichen())
+        ) {
+            this.#pos++;
+        }
+        if (this.#pos === position) {
+            this.#fehler('Erwartet: ein Wert');
+        }
+        return { wert: this.#text.slice(position, this.#pos), position };
+    }
+
+    // Wert in Anfuehrungszeichen: "\" maskiert das naechste Zeichen
+    #zitat(anfuehrungszeichen: string) {
+        const start = this.#pos;
+        let wert = '';
+        this.#pos++;
+        while (this.#pos < this.#text.length) {
+            const zeichen = this.#zeichen();
+            this.#pos++;
+            if (zeichen === anfuehrungszeichen) {
+                return wert;
+            }
+            if (zeichen === '\\' && this.#pos < this.#text.length) {
+                wert += this.#zeichen();
+                this.#pos++;
+            } else {
+                wert += zeichen;
+            }
+        }
+        return this.#fehler(
+            `Fehlendes schliessendes Anfuehrungszeichen ${anfuehrungszeichen}`,
+            start,
+        );
+    }
+
+    #konvertiere({ wert, position }: Wert, feld: string, typ: FilterTyp) {
+        const fehler = wertFehler(wert, feld, typ);
+        if (fehler !== undefined) {
+            this.#fehler(fehler, position);
+        }
+        return konvertiere(wert, typ);
+    }
+
+    #naechstes(zeichen: string) {
+        this.#leerzeichen();
+        if (this.#zeichen() !== zeichen) {
+            return false;
+        }
+        this.#pos++;
+        return true;
+    }
+
+    #leerzeichen() {
+        while (this.#zeichen() === ' ') {
+            this.#pos++;
+        }
+    }
+
+    #zeichen() {
+        return this.#text.charAt(this.#pos);
+    }
+
+    // Positionen in den Fehlermeldungen ab 1
+    #fehler(detail: string, position = this.#pos): never {
+        throw new FilterInvalidException(detail, position + 1);
+    }
+}
+
+/**
+ * Den Syntaxbaum zum Query-Parameter `filter` erstellen, z.B. bei
+ * `filter=rating=ge=4;titel.titel=like=*Avatar*`. Die Felder werden gegen
+ * `FILTER_FELDER` und die Werte gegen den Datentyp des Feldes validiert.
+ * @param filter Filter im Stil von RSQL/FIQL
+ * @returns Der Syntaxbaum oder `undefined`, falls es keinen Filter gibt
+ * @throws FilterInvalidException falls der Filter ungültig ist
+ */
+export const createFilter = (
+    filter: string | undefined,
+): FilterAusdruck | undefined => {
+    if (filter === undefined) {
+        return undefined;
+    }
+    if (filter.length > MAX_FILTER_LAENGE) {
+        throw new FilterInvalidException(
+            `Maximal ${MAX_FILTER_LAENGE} Zeichen sind erlaubt`,
+            MAX_FILTER_LAENGE + 1,
+        );
+    }
+    return new FilterParser(filter).parse();
+};
+
+/**
+ * Einen Vergleich für den Syntaxbaum eines Filters ohne Parser erstellen,
+ * z.B. für die Input-Typen bei GraphQL.
+ * @param feld Feld gemäß `FILTER_FELDER`, z.B. `titel.titel`
+ * @param operator Der Vergleichsoperator
+ * @param werte Die Werte, bei `in` und `out` mind. einer
+ * @returns Der validierte Vergleich
+ * @throws FilterInvalidException falls das Feld, der Operator oder ein Wert
+ *  ungültig ist
+ */
+export const createFilterVergleich = (
+    feld: string,
+    operator: FilterOperator,
+    werte: readonly (number | string)[],
+): FilterVergleich => {
+    const definition = FILTER_FELDER.get(feld);
+    if (definition === undefined) {
+        throw new FilterInvalidException(
+            `Unbekanntes Feld "${feld}". Erlaubt: ${feldNamen.join(', ')}`,
+        );
+    }
+    const { typ } = definition;
+    if (operator === 'like' && typ !== 'string') {
+        throw new FilterInvalidException(
+            `Der Operator ${operator} ist bei "${feld}" nicht erlaubt`,
+        );
+    }
+    if (werte.length === 0) {
+        throw new FilterInvalidException(
+            `Mindestens ein Wert ist bei "${feld}" erforderlich`,
+        );
+    }
+    return {
+        typ: 'vergleich',
+        feld,
+        operator,
+        werte: werte.map((wert) => {
+            const fehler = wertFehler(String(wert), feld, typ);
+            if (fehler !== undefined) {
+                throw new FilterInvalidException(fehler);
+            }
+            return konvertiere(String(wert), typ);
+        }),
+    };
+};
+/* eslint-enable max-lines */
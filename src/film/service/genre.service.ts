@@ -0,0 +1,156 @@
+/*
+ * Copyright (C) 2024 - present Juergen Zimmermann, Hochschule Karlsruhe
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with this program.  If not, see <https://www.gnu.org/licenses/>.
+ */
+
+/**
+ * Das Modul besteht aus der Klasse {@linkcode GenreService} für die
+ * Verwaltung des Genre-Katalogs.
+ * @packageDocumentation
+ */
+
+import { GenreExistsException, GenreInvalidException } from './exceptions.js';
+import { In, Repository } from 'typeorm';
+import { Injectable, NotFoundException } from '@nestjs/common';
+import { Genre } from '../entity/genre.entity.js';
+import { InjectRepository } from '@nestjs/typeorm';
+import { getLogger } from '../../logger/logger.js';
+
+/** Typdefinitionen zum Aktualisieren eines Genres mit `update`. */
+export interface GenreUpdateParams {
+    /** ID des zu aktualisierenden Genres. */
+    readonly id: number;
+    /** Der neue Name des Genres. */
+    readonly name: string;
+}
+
+/**
+ * Die Klasse `GenreService` implementiert das Lesen und Schreiben für den
+ * Genre-Katalog und greift mit _TypeORM_ auf die DB zu.
+ */
+@Injectable()
+export class GenreService {
+    readonly #repo: Repository<Genre>;
+
+    readonly #logger = getLogger(GenreService.name);
+
+    constructor(@InjectRepository(Genre) repo: Repository<Genre>) {
+        this.#repo = repo;
+    }
+
+    /**
+     * Alle Genres im Katalog alphabetisch sortiert ermitteln.
+     * @returns Ein JSON-Array mit den Genres.
+     */
+    async find() {
+        this.#logger.debug('find');
+        return this.#repo.find({ order: { name: 'ASC' } });
+    }
+
+    /**
+     * Ein Genre asynchron anhand seiner ID suchen.
+     * @param id ID des gesuchten Genres
+     * @returns Das gefundene Genre
+     * @throws NotFoundException falls kein Genre mit der ID existiert
+     */
+    async findById(id: number) {
+        this.#logger.debug('findById: id=%d', id);
+        const genre = await this.#repo.findOneBy({ id });
+        if (genre === null) {
+            throw new NotFoundException(`Es gibt kein Genre mit der ID ${id}.`);
+        }
+        return genre;
+    }
+
+    /**
+     * Die Genres zu den Namen aus dem Katalog ermitteln.
+     * @param namen Die Namen der Genres, z.B. `HORROR`
+     * @returns Die Genres aus dem Katalog in der Reihenfolge der Namen
+     * @throws GenreInvalidException falls es Genres nicht im Katalog gibt
+     */
+    async findByNamen(namen: readonly string[]) {
+        this.#logger.debug('findByNamen: namen=%o', namen);
+        if (namen.length === 0) {
+            return [];
+        }
+
+        const genres = await this.#repo.findBy({ name: In([...namen]) });
+        const unbekannt = namen.filter(
+            (name) => !genres.some((genre) => genre.name === name),
+        );
+        if (unbekannt.length > 0) {
+            throw new GenreInvalidException(unbekannt);
+        }
+        return namen.map(
+            (name) => genres.find((genre) => genre.name === name)!,
+        );
+    }
+
+    /**
+     * Ein neues Genre in den Katalog aufnehmen.
+     * @param name Der Name des neuen Genres
+     * @returns Die ID des neu angelegten Genres
+     * @throws GenreExistsException falls das Genre bereits existiert
+     */
+    async create(name: string): Promise<number> {
+        this.#logger.debug('create: name=%s', name);
+        await this.#validateName(name);
+
+        const genreDb = await this.#repo.save({ id: undefined, name });
+        this.#logger.debug('create: genreDb=%o', genreDb);
+        return genreDb.id!;
+    }
+
+    /**
+     * Ein vorhandenes Genre umbenennen. Die Zuordnung zu den Filmen bleibt
+     * dabei erhalten.
+     * @param params ID und neuer Name des Genres
+     * @throws NotFoundException falls es kein Genre mit der ID gibt
+     * @throws GenreExistsException falls der neue Name bereits existiert
+     */
+    async update({ id, name }: GenreUpdateParams) {
+        this.#logger.debug('update: id=%d, name=%s', id, name);
+        const genreDb = await this.findById(id);
+        if (genreDb.name === name) {
+            return;
+        }
+        await this.#validateName(name);
+        await this.#repo.update(id, { name });
+    }
+
+    /**
+     * Ein Genre aus dem Katalog löschen. Die Zuordnungen zu Filmen werden
+     * durch die DB ebenfalls gelöscht.
+     * @param id ID des zu löschenden Genres
+     * @returns true, falls das Genre vorhanden war und gelöscht wurde.
+     */
+    async delete(id: number) {
+        this.#logger.debug('delete: id=%d', id);
+        const deleteResult = await this.#repo.delete(id);
+        this.#logger.debug('delete: deleteResult=%o', deleteResult);
+        return (
+            deleteResult.affected !== undefined &&
+            deleteResult.affected !== null &&
+            deleteResult.affected > 0
+        );
+    }
+
+    async #validateName(name: string) {
+        const count = await this.#repo.countBy({ name });
+        if (count > 0) {
+            throw new GenreExistsException(name);
+        }
+    }
+}
@@ -0,0 +1,215 @@
+/*
+ * Copyright (C) 2024 - present Juergen Zimmermann, Hochschule Karlsruhe
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with this program.  If not, see <https://www.gnu.org/licenses/>.
+ */
+
+/**
+ * Das Modul besteht aus den Typdefinitionen und Funktionen für die
+ * Keyset-Paginierung mit Cursorn. Ein Cursor enthält den Wert des
+ * Sortierkriteriums und die ID des Filmes, damit sich die Seiten beim
+ * Einfügen neuer Filme nicht verschieben.
+ * @packageDocumentation
+ */
+
+import { DEFAULT_PAGE_SIZE, MAX_PAGE_SIZE, type Slice } from './pageable.js';
+import { type Film } from '../entity/film.entity.js';
+import { KeysetInvalidException } from './exceptions.js';
+import { type SortDirection } from './sort.js';
+
+/**
+ * Properties von `Film` und `Titel` für die Keyset-Paginierung. Die Spalten
+ * sind `NOT NULL`, damit der Vergleich mit dem Cursor eindeutig ist.
+ */
+export const KEYSET_SORT_PROPERTIES = [
+    'id',
+    'rating',
+    'dauer',
+    'sprache',
+    'direktor',
+    'titel',
+] as const;
+
+export type KeysetSortProperty = (typeof KEYSET_SORT_PROPERTIES)[number];
+
+/** Typdefinition für das Sortierkriterium; zuletzt wird nach der ID sortiert. */
+export interface KeysetSortOrder {
+    readonly property: KeysetSortProperty;
+    readonly direction: SortDirection;
+}
+
+/** Typdefinition für den Inhalt eines Cursors. */
+export interface Cursor {
+    /** Wert des Sortierkriteriums beim Film des Cursors */
+    readonly wert: number | string;
+    /** ID des Filmes beim Cursor */
+    readonly id: number;
+}
+
+/** Typdefinition für eine Seite bei der Keyset-Paginierung. */
+export interface Keyset {
+    readonly sort: KeysetSortOrder;
+    /** Nur Filme nach diesem Cursor gemäß der Sortierung */
+    readonly after?: Cursor | undefined;
+    /** Nur Filme vor diesem Cursor gemäß der Sortierung */
+    readonly before?: Cursor | undefined;
+    /** Maximale Anzahl der Filme */
+    readonly size: number;
+    /** Die letzten Filme vor `before` statt der ersten Filme nach `after` */
+    readonly rueckwaerts: boolean;
+}
+
+/** Typdefinition für das Ergebnis bei der Keyset-Paginierung. */
+export interface KeysetSlice<T> extends Pick<Slice<T>, 'content'> {
+    /** Gibt es in Leserichtung weitere Datensätze? */
+    readonly hasMore: boolean;
+}
+
+/** Typdefinition für `createKeyset` z.B. mit den Argumenten bei GraphQL. */
+export interface KeysetParams {
+    readonly first?: number | null | undefined;
+    readonly after?: string | null | undefined;
+    readonly last?: number | null | undefined;
+    readonly before?: string | null | undefined;
+    readonly property?: string | null | undefined;
+    readonly direction?: string | null | undefined;
+}
+
+const sortProperties: readonly string[] = KEYSET_SORT_PROPERTIES;
+
+const TEILE_CURSOR = 3;
+
+// Wert des Sortierkriteriums beim Film bzw. bei dessen Titel
+const sortWert = (film: Film, property: KeysetSortProperty) => {
+    const wert: unknown =
+        // eslint-disable-next-line security/detect-object-injection
+        property === 'titel' ? film.titel.titel : film[property];
+    return wert as number | string;
+};
+
+/**
+ * Den opaken Cursor zu einem Film erstellen.
+ * @param film Der Film
+ * @param property Das Sortierkriterium
+ * @returns Der Cursor als Base64-String
+ */
+export const toCursor = (film: Film, property: KeysetSortProperty) =>
+    Buffer.from(
+        JSON.stringify([property, sortWert(film, property), film.id]),
+    ).toString('base64url');
+
+const fromCursor = (cursor: string, property: KeysetSortProperty): Cursor => {
+    let teile: unknown;
+    try {
+        teile = JSON.parse(Buffer.from(cursor, 'base64url').toString());
+    } catch {
+        throw new KeysetInvalidException(`Ungueltiger Cursor "${cursor}"`);
+    }
+    if (!Array.isArray(teile) || teile.length !== TEILE_CURSOR) {
+        throw new KeysetInvalidException(`Ungueltiger Cursor "${cursor}"`);
+    }
+    const [cursorProperty, wert, id] = teile as unknown[];
+    if (cursorProperty !== property) {
+        throw new KeysetInvalidException(
+            `Der Cursor "${cursor}" passt nicht zur Sortierung nach ${property}`,
+        );
+    }
+    const wertTyp =
+        property === 'rating' || property === 'dauer' || property === 'id'
+            ? 'number'
+            : 'string';
+    if (
+        typeof wert !== wertTyp ||
+        typeof id !== 'number' ||
+        !Number.isInteger(id) ||
+        id <= 0
+    ) {
+        throw new KeysetInvalidException(`Ungueltiger Cursor "${cursor}"`);
+    }
+    return { wert: wert as number | string, id };
+};
+
+const checkAnzahl = (name: string, anzahl: number | null | undefined) => {
+    if (
+        anzahl !== null &&
+        anzahl !== undefined &&
+        (!Number.isInteger(anzahl) || anzahl < 0)
+    ) {
+        throw new KeysetInvalidException(
+            `${name} muss eine nicht-negative ganze Zahl sein: ${anzahl}`,
+        );
+    }
+};
+
+/**
+ * Die Keyset-Paginierung gemäß den Argumenten einer Connection bei Relay
+ * erstellen. Ohne `first` und `last` gibt es `DEFAULT_PAGE_SIZE` Filme und
+ * höchstens `MAX_PAGE_SIZE` Filme.
+ * @param params `first` und `after` bzw. `last` und `before` mit dem
+ *  Sortierkriterium, voreingestellt ist aufsteigend nach der ID
+ * @returns Die validierte Keyset-Paginierung
+ * @throws KeysetInvalidException falls ein Argument ungültig ist
+ */
+export const createKeyset = ({
+    first,
+    after,
+    last,
+    before,
+    property,
+    direction,
+}: KeysetParams): Keyset => {
+    const sortProperty = property ?? 'id';
+    if (!sortProperties.includes(sortProperty)) {
+        throw new KeysetInvalidException(
+            `Ungueltiges Sortierkriterium "${sortProperty}". Erlaubt: ${sortProperties.join(
+                ', ',
+            )}`,
+        );
+    }
+    const sortDirection = (direction ?? 'ASC').toUpperCase();
+    if (sortDirection !== 'ASC' && sortDirection !== 'DESC') {
+        throw new KeysetInvalidException(
+            `Ungueltige Sortierrichtung "${direction}"`,
+        );
+    }
+    checkAnzahl('first', first);
+    checkAnzahl('last', last);
+    const rueckwaerts = last !== null && last !== undefined;
+    if (rueckwaerts && first !== null && first !== undefined) {
+        throw new KeysetInvalidException(
+            'first und last duerfen nicht zusammen verwendet werden',
+        );
+    }
+
+    const sort: KeysetSortOrder = {
+        property: sortProperty as KeysetSortProperty,
+        direction: sortDirection,
+    };
+    return {
+        sort,
+        after:
+            after === null || after === undefined
+                ? undefined
+                : fromCursor(after, sort.property),
+        before:
+            before === null || before === undefined
+                ? undefined
+                : fromCursor(before, sort.property),
+        size: Math.min(
+            (rueckwaerts ? last : first) ?? DEFAULT_PAGE_SIZE,
+            MAX_PAGE_SIZE,
+        ),
+        rueckwaerts,
+    };
+};
@@ -0,0 +1,93 @@
+/*
+ * Copyright (C) 2024 - present Juergen Zimmermann, Hochschule Karlsruhe
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with this program.  If not, see <https://www.gnu.org/licenses/>.
+ */
+
+/**
+ * Das Modul besteht aus den Typdefinitionen und Funktionen für das Blättern
+ * ("Paging") bei der Suche nach Filmen.
+ * @packageDocumentation
+ */
+
+import { FilmReadService } from './film-read.service.js';
+import { PageableInvalidException } from './exceptions.js';
+
+/** Voreingestellte Anzahl an Filmen pro Seite. */
+export const DEFAULT_PAGE_SIZE = 20;
+
+/** Maximale Anzahl an Filmen pro Seite. */
+export const MAX_PAGE_SIZE = 100;
+
+/** Voreingestellte Seitennummer, beginnend bei 0. */
+export const DEFAULT_PAGE_NUMBER = 0;
+
+/**
+ * Typdefinition für eine Seite bei der Suche.
+ */
+export interface Pageable {
+    /** Seitennummer, beginnend bei 0. */
+    readonly number: number;
+    /** Anzahl der Datensätze pro Seite. */
+    readonly size: number;
+}
+
+/**
+ * Typdefinition für einen Ausschnitt aus dem Suchergebnis.
+ */
+export interface Slice<T> {
+    /** Die Datensätze der angeforderten Seite. */
+    readonly content: T[];
+    /** Gesamtanzahl der Datensätze zu den Suchkriterien. */
+    readonly totalElements: number;
+}
+
+/** Typdefinition für `createPageable`. */
+export interface PageableParams {
+    /** Seitennummer z.B. als Query-Parameter. */
+    readonly number?: number | string | undefined;
+    /** Seitengröße z.B. als Query-Parameter. */
+    readonly size?: number | string | undefined;
+}
+
+// ganze Zahl ab dem Mindestwert, z.B. "1", aber nicht "1.5", "1e1" oder ""
+const toGanzzahl = (name: string, value: number | string, min: number) => {
+    const zahl =
+        typeof value === 'number' || FilmReadService.INTEGER_PATTERN.test(value)
+            ? Number(value)
+            : Number.NaN;
+    if (!Number.isInteger(zahl) || zahl < min) {
+        throw new PageableInvalidException(name, value, min);
+    }
+    return zahl;
+};
+
+/**
+ * Ein `Pageable`-Objekt aus z.B. Query-Parametern erstellen. Fehlende Werte
+ * werden durch die Defaultwerte ersetzt und die Seitengröße wird auf
+ * `MAX_PAGE_SIZE` begrenzt.
+ * @param params Seitennummer und Seitengröße
+ * @returns Das `Pageable`-Objekt
+ * @throws PageableInvalidException falls die Seitennummer keine ganze Zahl ab 0
+ *  oder die Seitengröße keine ganze Zahl ab 1 ist
+ */
+export const createPageable = ({ number, size }: PageableParams): Pageable => {
+    const pageNumber =
+        number === undefined
+            ? DEFAULT_PAGE_NUMBER
+            : toGanzzahl('page', number, DEFAULT_PAGE_NUMBER);
+    const pageSize =
+        size === undefined ? DEFAULT_PAGE_SIZE : toGanzzahl('size', size, 1);
+    return { number: pageNumber, size: Math.min(pageSize, MAX_PAGE_SIZE) };
+};
@@ -0,0 +1,201 @@
+/*
+ * Copyright (C) 2024 - present Juergen Zimmermann, Hochschule Karlsruhe
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with this program.  If not, see <https://www.gnu.org/licenses/>.
+ */
+
+/**
+ * Das Modul besteht aus der Klasse {@linkcode PersonService} für die
+ * Personen, die unabhängig von den Filmen verwaltet werden.
+ * @packageDocumentation
+ */
+
+import { type EntityManager, Repository } from 'typeorm';
+import { Injectable, NotFoundException } from '@nestjs/common';
+import { Besetzung } from '../entity/besetzung.entity.js';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Person } from '../entity/person.entity.js';
+import { PersonEmailExistsException } from './exceptions.js';
+import { getLogger } from '../../logger/logger.js';
+
+/** Typdefinitionen zum Aktualisieren einer Person mit `update`. */
+export interface PersonUpdateParams {
+    /** ID der zu aktualisierenden Person. */
+    readonly id: number;
+    /** Person-Objekt mit den aktualisierten Werten. */
+    readonly person: Person;
+}
+
+/**
+ * Die Klasse `PersonService` implementiert das Lesen und Schreiben der
+ * Personen einschließlich ihrer Filmografie und greift mit _TypeORM_ auf die
+ * DB zu.
+ */
+@Injectable()
+export class PersonService {
+    readonly #repo: Repository<Person>;
+
+    readonly #besetzungRepo: Repository<Besetzung>;
+
+    readonly #logger = getLogger(PersonService.name);
+
+    constructor(
+        @InjectRepository(Person) repo: Repository<Person>,
+        @InjectRepository(Besetzung) besetzungRepo: Repository<Besetzung>,
+    ) {
+        this.#repo = repo;
+        this.#besetzungRepo = besetzungRepo;
+    }
+
+    /**
+     * Alle Personen nach Nach- und Vornamen sortiert ermitteln.
+     * @returns Ein evtl. leeres JSON-Array mit den Personen.
+     */
+    async find() {
+        this.#logger.debug('find');
+        return this.#repo.find({
+            order: { nachname: 'ASC', vorname: 'ASC', id: 'ASC' },
+        });
+    }
+
+    /**
+     * Eine Person asynchron anhand ihrer ID suchen.
+     * @param id ID der gesuchten Person
+     * @returns Die gefundene Person
+     * @throws NotFoundException falls keine Person mit der ID existiert
+     */
+    async findById(id: number) {
+        this.#logger.debug('findById: id=%d', id);
+        const person = await this.#repo.findOneBy({ id });
+        if (person === null) {
+            throw new NotFoundException(
+                `Es gibt keine Person mit der ID ${id}.`,
+            );
+        }
+        return person;
+    }
+
+    /**
+     * Die Filmografie einer Person ermitteln, d.h. die Besetzungen mit den
+     * Filmen und deren Titeln, sortiert nach dem Filmstart.
+     * @param id ID der Person
+     * @returns Ein evtl. leeres JSON-Array mit den Besetzungen.
+     * @throws NotFoundException falls keine Person mit der ID existiert
+     */
+    async findFilmografie(id: number) {
+        this.#logger.debug('findFilmografie: id=%d', id);
+        await this.findById(id);
+        return this.#besetzungRepo.find({
+            where: { person: { id } },
+            relations: { film: { titel: true } },
+            order: { film: { filmstart: 'ASC', id: 'ASC' } },
+        });
+    }
+
+    /**
+     * Eine neue Person anlegen.
+     * @param person Die neue Person
+     * @returns Die ID der neu angelegten Person
+     * @throws PersonEmailExistsException falls die Emailadresse bereits
+     *         einer anderen Person zugeordnet ist
+     */
+    async create(person: Person): Promise<number> {
+        this.#logger.debug('create: person=%o', person);
+        await this.#validateEmail(person.email);
+
+        const personDb = await this.#repo.save({ ...person, id: undefined });
+        this.#logger.debug('create: personDb=%o', personDb);
+        return personDb.id!;
+    }
+
+    /**
+     * Eine vorhandene Person aktualisieren. Die Änderungen sind in allen
+     * Filmen mit dieser Person sichtbar.
+     * @param params ID der Person und die neuen Werte
+     * @throws NotFoundException falls es keine Person mit der ID gibt
+     * @throws PersonEmailExistsException falls die Emailadresse bereits
+     *         einer anderen Person zugeordnet ist
+     */
+    async update({ id, person }: PersonUpdateParams) {
+        this.#logger.debug('update: id=%d, person=%o', id, person);
+        await this.findById(id);
+        await this.#validateEmail(person.email, id);
+
+        const { vorname, nachname, geschlecht, email, telefonnummer } = person;
+        await this.#repo.update(id, {
+            vorname,
+            nachname,
+            geschlecht,
+            email,
+            telefonnummer,
+        });
+    }
+
+    /**
+     * Eine Person löschen. Die Besetzungen mit dieser Person werden durch die
+     * DB ebenfalls gelöscht.
+     * @param id ID der zu löschenden Person
+     * @returns true, falls die Person vorhanden war und gelöscht wurde.
+     */
+    async delete(id: number) {
+        this.#logger.debug('delete: id=%d', id);
+        const deleteResult = await this.#repo.delete(id);
+        this.#logger.debug('delete: deleteResult=%o', deleteResult);
+        return (
+            deleteResult.affected !== undefined &&
+            deleteResult.affected !== null &&
+            deleteResult.affected > 0
+        );
+    }
+
+    /**
+     * Zu einer Person, z.B. aus der Besetzung eines neuen Filmes, die bereits
+     * vorhandene Person mit derselben Emailadresse ermitteln oder eine neue
+     * Person anlegen. Personen ohne Emailadresse werden immer neu angelegt.
+     * @param person Die Daten der Person
+     * @param entityManager Optionaler EntityManager für eine Transaktion
+     * @returns Die vorhandene oder neu angelegte Person
+     */
+    async findOrCreate(
+        person: Person,
+        entityManager: EntityManager = this.#repo.manager,
+    ) {
+        this.#logger.debug('findOrCreate: person=%o', person);
+        const repo = entityManager.getRepository(Person);
+        if (person.email !== undefined) {
+            const personDb = await this.#findByEmail(person.email, repo);
+            if (personDb !== null) {
+                return personDb;
+            }
+        }
+        return repo.save({ ...person, id: undefined });
+    }
+
+    async #findByEmail(email: string, repo = this.#repo) {
+        return repo
+            .createQueryBuilder('person')
+            .where('lower(person.email) = lower(:email)', { email })
+            .getOne();
+    }
+
+    async #validateEmail(email: string | undefined, id?: number) {
+        if (email === undefined) {
+            return;
+        }
+        const personDb = await this.#findByEmail(email);
+        if (personDb !== null && personDb.id !== id) {
+            throw new PersonEmailExistsException(email);
+        }
+    }
+}
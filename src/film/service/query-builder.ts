@@ -1,3 +1,4 @@
+/* eslint-disable max-lines */
 /*
  * Copyright (C) 2016 - present Juergen Zimmermann, Hochschule Karlsruhe
  *
@@ -20,12 +21,30 @@
  * @packageDocumentation
  */
 
+import { type Cursor, type Keyset, type KeysetSortOrder } from './keyset.js';
+import {
+    FILTER_FELDER,
+    type FilterAusdruck,
+    type FilterEntitaet,
+    type FilterOperator,
+    type FilterVergleich,
+} from './filter.js';
+import { type Field, TITEL_FIELDS } from './fields.js';
+import { type FindOptions, type Suchkriterien } from './film-read.service.js';
+import { RANG_ALIAS, createVolltextsuche } from './volltext.js';
+import { Repository, type SelectQueryBuilder } from 'typeorm';
+import {
+    type SortDirection,
+    type SortOrder,
+    TITEL_SORT_PROPERTIES,
+} from './sort.js';
+import { Besetzung } from '../entity/besetzung.entity.js';
+import { type Facet } from './facets.js';
 import { Film } from '../entity/film.entity.js';
+import { Genre } from '../entity/genre.entity.js';
 import { InjectRepository } from '@nestjs/typeorm';
 import { Injectable } from '@nestjs/common';
-import { Repository } from 'typeorm';
-import { Schauspieler } from '../entity/schauspieler.entity.js';
-import { type Suchkriterien } from './film-read.service.js';
+import { Person } from '../entity/person.entity.js';
 import { Titel } from '../entity/titel.entity.js';
 import { getLogger } from '../../logger/logger.js';
 import { typeOrmModuleOptions } from '../../config/db.js';
@@ -34,9 +53,65 @@ import { typeOrmModuleOptions } from '../../config/db.js';
 export interface BuildIdParams {
     /** ID des gesuchten Films. */
     readonly id: number;
-    /** Sollen die Schauspielers mitgeladen werden? */
-    readonly mitSchauspielers?: boolean;
+    /** Soll die Besetzung mit den Personen mitgeladen werden? */
+    readonly mitBesetzung?: boolean;
 }
+
+/** Typdefinitionen für die Suche nach Genres. */
+interface GenreParams {
+    readonly genre: string | string[] | undefined;
+    readonly genreMatch: string | undefined;
+    /** Flags wie z.B. `action` mit dem Wert `true` */
+    readonly flags: Record<string, string | undefined>;
+}
+
+/** Typdefinitionen für eine Bedingung in der WHERE-Klausel. */
+interface Where {
+    readonly condition: string;
+    readonly params: Record<string, unknown>;
+}
+
+/**
+ * Suchkriterien für Bereiche mit der jeweiligen Property von Film und dem
+ * Vergleichsoperator, z.B. `ratingMin=4` für `rating >= 4`.
+ */
+export const RANGE_SUCHKRITERIEN: Readonly<
+    Record<string, { readonly property: string; readonly operator: string }>
+> = {
+    ratingMin: { property: 'rating', operator: '>=' },
+    ratingMax: { property: 'rating', operator: '<=' },
+    dauerMin: { property: 'dauer', operator: '>=' },
+    dauerMax: { property: 'dauer', operator: '<=' },
+    filmstartVon: { property: 'filmstart', operator: '>=' },
+    filmstartBis: { property: 'filmstart', operator: '<=' },
+};
+
+/** Vergleichsoperatoren in SQL zu den Operatoren eines Filters */
+const FILTER_VERGLEICHE: Readonly<Record<FilterOperator, string>> = {
+    eq: '=',
+    ne: '=',
+    gt: '>',
+    ge: '>=',
+    lt: '<',
+    le: '<=',
+    like: 'LIKE',
+    in: 'IN',
+    out: 'IN',
+};
+
+// Texte ohne Gross-/Kleinschreibung; bei LIKE steht "*" fuer beliebige Zeichen
+// und "!" maskiert die Platzhalter "%" und "_" von SQL
+const filterText = (wert: string, operator: FilterOperator) => {
+    const text = wert.toLowerCase();
+    return operator === 'like'
+        ? text
+              .replaceAll('!', '!!')
+              .replaceAll('%', '!%')
+              .replaceAll('_', '!_')
+              .replaceAll('*', '%')
+        : text;
+};
+
 /**
  * Die Klasse `QueryBuilder` implementiert das Lesen für Filme und greift
  * mit _TypeORM_ auf eine relationale DB zu.
@@ -51,9 +126,20 @@ export class QueryBuilder {
         .charAt(0)
         .toLowerCase()}${Titel.name.slice(1)}`;
 
-    readonly #schauspielerAlias = `${Schauspieler.name
+    readonly #genreAlias = `${Genre.name
+        .charAt(0)
+        .toLowerCase()}${Genre.name.slice(1)}`;
+
+    readonly #besetzungAlias = `${Besetzung.name
+        .charAt(0)
+        .toLowerCase()}${Besetzung.name.slice(1)}`;
+
+    readonly #personAlias = `${Person.name
         .charAt(0)
-        .toLowerCase()}${Schauspieler.name.slice(1)}`;
+        .toLowerCase()}${Person.name.slice(1)}`;
+
+    // eigener Alias, damit sich die Facetten nicht mit der Subquery ueberschneiden
+    readonly #facetAlias = 'facette';
 
     readonly #repo: Repository<Film>;
 
@@ -68,42 +154,119 @@ export class QueryBuilder {
      * @param id ID des gesuchten Filmes
      * @returns QueryBuilder
      */
-    buildId({ id, mitSchauspielers = false }: BuildIdParams) {
+    buildId({ id, mitBesetzung = false }: BuildIdParams) {
         const queryBuilder = this.#repo.createQueryBuilder(this.#filmAlias);
         queryBuilder.innerJoinAndSelect(
             `${this.#filmAlias}.titel`,
             this.#titelAlias,
         );
-        if (mitSchauspielers) {
-            queryBuilder.leftJoinAndSelect(
-                `${this.#filmAlias}.schauspielers`,
-                this.#schauspielerAlias,
-            );
+        queryBuilder.leftJoinAndSelect(
+            `${this.#filmAlias}.genres`,
+            this.#genreAlias,
+        );
+        if (mitBesetzung) {
+            queryBuilder
+                .leftJoinAndSelect(
+                    `${this.#filmAlias}.besetzung`,
+                    this.#besetzungAlias,
+                )
+                .leftJoinAndSelect(
+                    `${this.#besetzungAlias}.person`,
+                    this.#personAlias,
+                )
+                .orderBy(`${this.#besetzungAlias}.reihenfolge`, 'ASC');
         }
         queryBuilder.where(`${this.#filmAlias}.id = :id`, { id: id }); // eslint-disable-line object-shorthand
         return queryBuilder;
     }
 
+    /**
+     * Die Titel zu mehreren Filmen mit einer einzigen Abfrage suchen.
+     * @param ids IDs der Filme
+     * @returns QueryBuilder für die Filme nur mit der ID und dem Titel
+     */
+    buildTitel(ids: readonly number[]) {
+        this.#logger.debug('buildTitel: ids=%o', ids);
+        return this.#repo
+            .createQueryBuilder(this.#filmAlias)
+            .select(`${this.#filmAlias}.id`)
+            .innerJoinAndSelect(`${this.#filmAlias}.titel`, this.#titelAlias)
+            .where(`${this.#filmAlias}.id IN (:...ids)`, { ids });
+    }
+
+    /**
+     * Die Besetzung mit den Personen zu mehreren Filmen mit einer einzigen
+     * Abfrage suchen.
+     * @param ids IDs der Filme
+     * @returns QueryBuilder für die Filme nur mit der ID und der Besetzung in
+     *  der Reihenfolge des Abspanns
+     */
+    buildBesetzung(ids: readonly number[]) {
+        this.#logger.debug('buildBesetzung: ids=%o', ids);
+        return this.#repo
+            .createQueryBuilder(this.#filmAlias)
+            .select(`${this.#filmAlias}.id`)
+            .leftJoinAndSelect(
+                `${this.#filmAlias}.besetzung`,
+                this.#besetzungAlias,
+            )
+            .leftJoinAndSelect(
+                `${this.#besetzungAlias}.person`,
+                this.#personAlias,
+            )
+            .where(`${this.#filmAlias}.id IN (:...ids)`, { ids })
+            .orderBy(`${this.#besetzungAlias}.reihenfolge`, 'ASC')
+            .addOrderBy(`${this.#besetzungAlias}.id`, 'ASC');
+    }
+
     /**
      * Filme asynchron suchen.
      * @param suchkriterien JSON-Objekt mit Suchkriterien
+     * @param options Optionale Sortierkriterien, Felder und Filter, die
+     *  bereits validiert sind; ohne Felder werden alle Spalten gelesen
      * @returns QueryBuilder
      */
     // z.B. { titel: 'a', rating: 5, action: true }
     // "rest properties" fuer anfaengliche WHERE-Klausel: ab ES 2018 https://github.com/tc39/proposal-object-rest-spread
     // eslint-disable-next-line max-lines-per-function
-    build({ titel, action, horror, romance, ...props }: Suchkriterien) {
+    build(
+        {
+            titel,
+            genre,
+            genreMatch,
+            action,
+            horror,
+            romance,
+            schauspieler,
+            schauspielerEmail,
+            q,
+            ...props
+        }: Suchkriterien,
+        { sort = [], fields, filter }: FindOptions = {},
+    ) {
         this.#logger.debug(
-            'build: titel=%s, action=%s, horror=%s, romance=%s, props=%o',
+            'build: titel=%s, genre=%o, genreMatch=%s, action=%s, horror=%s, romance=%s, schauspieler=%s, schauspielerEmail=%s, q=%s, props=%o, sort=%o, fields=%o, filter=%o',
             titel,
+            genre,
+            genreMatch,
             action,
             horror,
             romance,
+            schauspieler,
+            schauspielerEmail,
+            q,
             props,
+            sort,
+            fields,
+            filter,
         );
 
         let queryBuilder = this.#repo.createQueryBuilder(this.#filmAlias);
         queryBuilder.innerJoinAndSelect(`${this.#filmAlias}.titel`, 'titel');
+        queryBuilder.leftJoinAndSelect(
+            `${this.#filmAlias}.genres`,
+            this.#genreAlias,
+        );
 
         // z.B. { titel: 'a', rating: 5, action: true }
         // "rest properties" fuer anfaengliche WHERE-Klausel: ab ES 2018 https://github.com/tc39/proposal-object-rest-spread
@@ -125,55 +288,454 @@ export class QueryBuilder {
             useWhere = false;
         }
 
-        if (action === 'true') {
-            queryBuilder = useWhere
-                ? queryBuilder.where(
-                      `${this.#filmAlias}.genres like '%ACTION%'`,
-                  )
-                : queryBuilder.andWhere(
-                      `${this.#filmAlias}.genres like '%ACTION%'`,
-                  );
-            useWhere = false;
-        }
-
-        if (horror === 'true') {
-            queryBuilder = useWhere
-                ? queryBuilder.where(
-                      `${this.#filmAlias}.genres like '%HORROR%'`,
-                  )
-                : queryBuilder.andWhere(
-                      `${this.#filmAlias}.genres like '%HORROR%'`,
-                  );
-            useWhere = false;
+        // Genres als exakte Elemente im Array, d.h. kein Vergleich mit Teilstrings
+        const genreWhere = this.#genreWhere({
+            genre,
+            genreMatch,
+            flags: { action, horror, romance },
+        });
+        // Schauspieler: Join ueber die Besetzung zu den Personen nur bei Bedarf;
+        // ohne Select gibt es keine Duplikate
+        const schauspielerWhere = this.#schauspielerWhere(
+            schauspieler,
+            schauspielerEmail,
+        );
+        if (schauspielerWhere !== undefined) {
+            queryBuilder
+                .innerJoin(`${this.#filmAlias}.besetzung`, this.#besetzungAlias)
+                .innerJoin(`${this.#besetzungAlias}.person`, this.#personAlias);
         }
+        // Volltextsuche in Titel, Direktor und Schauspielern gemaess dem DB-Typ
+        const volltext =
+            q === undefined
+                ? undefined
+                : createVolltextsuche({
+                      q,
+                      filmAlias: this.#filmAlias,
+                      titelAlias: this.#titelAlias,
+                  });
+        // Filter als Syntaxbaum mit parametrisierten Vergleichen
+        const filterWhere = this.#filterWhere(filter);
+        [genreWhere, schauspielerWhere, volltext, filterWhere]
+            .filter((where): where is Where => where !== undefined)
+            .forEach(({ condition, params }) => {
+                queryBuilder = useWhere
+                    ? queryBuilder.where(condition, params)
+                    : queryBuilder.andWhere(condition, params);
+                useWhere = false;
+            });
 
-        if (romance === 'true') {
-            queryBuilder = useWhere
-                ? queryBuilder.where(
-                      `${this.#filmAlias}.genres like '%ROMANCE%'`,
-                  )
-                : queryBuilder.andWhere(
-                      `${this.#filmAlias}.genres like '%ROMANCE%'`,
-                  );
-            useWhere = false;
-        }
         // Restliche Properties als Key-Value-Paare: Vergleiche auf Gleichheit
+        // bzw. auf Bereiche wie z.B. "ratingMin"
         Object.keys(props).forEach((key) => {
             const param: Record<string, any> = {};
             param[key] = (props as Record<string, any>)[key]; // eslint-disable-line @typescript-eslint/no-unsafe-assignment, security/detect-object-injection
+            const condition = this.#condition(key);
             queryBuilder = useWhere
-                ? queryBuilder.where(
-                      `${this.#filmAlias}.${key} = :${key}`,
-                      param,
-                  )
-                : queryBuilder.andWhere(
-                      `${this.#filmAlias}.${key} = :${key}`,
-                      param,
-                  );
+                ? queryBuilder.where(condition, param)
+                : queryBuilder.andWhere(condition, param);
             useWhere = false;
         });
 
+        queryBuilder = this.#orderBy(
+            queryBuilder,
+            sort,
+            volltext !== undefined,
+        );
+        if (fields !== undefined) {
+            queryBuilder = this.#select(queryBuilder, fields, sort);
+        }
+        if (volltext !== undefined) {
+            queryBuilder.addSelect(volltext.rang, RANG_ALIAS);
+        }
+
         this.#logger.debug('build: sql=%s', queryBuilder.getSql());
         return queryBuilder;
     }
+
+    /**
+     * Die Anzahl der Filme je Wert einer Facette zu den Suchkriterien. Die
+     * Suchkriterien werden mit `build()` als Subquery für die IDs der Filme
+     * wiederverwendet.
+     * @param suchkriterien JSON-Objekt mit Suchkriterien, die bereits
+     *  validiert sind
+     * @param facet Die Facette, z.B. `genres`
+     * @param filter Optionaler Filter, der bereits validiert ist
+     * @returns QueryBuilder für die Spalten `wert` und `anzahl`
+     */
+    buildFacet(
+        suchkriterien: Suchkriterien,
+        facet: Facet,
+        filter?: FilterAusdruck,
+    ) {
+        this.#logger.debug(
+            'buildFacet: suchkriterien=%o, facet=%s, filter=%o',
+            suchkriterien,
+            facet,
+            filter,
+        );
+        // Subquery ohne Sortierung und nur mit den IDs
+        const idQuery = this.build(suchkriterien, { filter })
+            .select(`${this.#filmAlias}.id`)
+            .orderBy();
+
+        const alias = this.#facetAlias;
+        const queryBuilder = this.#repo
+            .createQueryBuilder(alias)
+            .where(`${alias}.id IN (${idQuery.getQuery()})`)
+            .setParameters(idQuery.getParameters());
+        let wert: string;
+        switch (facet) {
+            case 'genres': {
+                queryBuilder.innerJoin(`${alias}.genres`, this.#genreAlias);
+                wert = `${this.#genreAlias}.name`;
+                break;
+            }
+            case 'filmstart': {
+                queryBuilder.andWhere(`${alias}.filmstart IS NOT NULL`);
+                wert = this.#jahrzehnt(`${alias}.filmstart`);
+                break;
+            }
+            default: {
+                wert = `${alias}.${facet}`;
+                break;
+            }
+        }
+        queryBuilder
+            .select(wert, 'wert')
+            .addSelect('COUNT(*)', 'anzahl')
+            .groupBy(wert)
+            .orderBy('anzahl', 'DESC')
+            .addOrderBy('wert', 'ASC');
+
+        this.#logger.debug('buildFacet: sql=%s', queryBuilder.getSql());
+        return queryBuilder;
+    }
+
+    /**
+     * Filme für die Keyset-Paginierung suchen: sortiert nach dem
+     * Sortierkriterium und der ID, jeweils nach bzw. vor dem Cursor. Beim
+     * Rückwärtslesen ist die Sortierung umgekehrt.
+     * @param keyset Die Keyset-Paginierung, die bereits validiert ist
+     * @param filter Optionaler Filter, der bereits validiert ist
+     * @returns QueryBuilder
+     */
+    buildKeyset(
+        { sort, after, before, rueckwaerts }: Keyset,
+        filter?: FilterAusdruck,
+    ) {
+        this.#logger.debug(
+            'buildKeyset: sort=%o, after=%o, before=%o, rueckwaerts=%s, filter=%o',
+            sort,
+            after,
+            before,
+            rueckwaerts,
+            filter,
+        );
+        const umgekehrt: SortDirection =
+            sort.direction === 'ASC' ? 'DESC' : 'ASC';
+        const direction = rueckwaerts ? umgekehrt : sort.direction;
+        const sortOrders: SortOrder[] =
+            sort.property === 'id'
+                ? [{ property: 'id', direction }]
+                : [
+                      { property: sort.property, direction },
+                      { property: 'id', direction },
+                  ];
+        const queryBuilder = this.build({}, { sort: sortOrders, filter });
+
+        // after bzw. before jeweils bezogen auf die urspruengliche Sortierung
+        const groesser = sort.direction === 'ASC' ? '>' : '<';
+        const kleiner = sort.direction === 'ASC' ? '<' : '>';
+        if (after !== undefined) {
+            queryBuilder.andWhere(
+                this.#keysetCondition(sort, groesser, 'after'),
+                this.#keysetParams(after, 'after'),
+            );
+        }
+        if (before !== undefined) {
+            queryBuilder.andWhere(
+                this.#keysetCondition(sort, kleiner, 'before'),
+                this.#keysetParams(before, 'before'),
+            );
+        }
+
+        this.#logger.debug('buildKeyset: sql=%s', queryBuilder.getSql());
+        return queryBuilder;
+    }
+
+    /**
+     * Bedingung für die Genres: `genre` mit "any" (voreingestellt) oder "all"
+     * gemäß `genreMatch` und die Flags wie z.B. `action` jeweils mit "and".
+     */
+    #genreWhere({ genre, genreMatch, flags }: GenreParams): Where | undefined {
+        const params: Record<string, string> = {};
+        const contains = (value: string) => {
+            const name = `genre${Object.keys(params).length}`;
+            params[name] = value.toUpperCase(); // eslint-disable-line security/detect-object-injection
+            return this.#genreContains(name);
+        };
+
+        const conditions: string[] = [];
+        const genres = genre === undefined ? [] : [genre].flat();
+        if (genres.length > 0) {
+            const operator = genreMatch === 'all' ? ' AND ' : ' OR ';
+            const containsGenres = genres.map((g) => contains(g));
+            conditions.push(`(${containsGenres.join(operator)})`);
+        }
+        Object.entries(flags)
+            .filter(([, flag]) => flag === 'true')
+            .forEach(([name]) => conditions.push(contains(name)));
+
+        return conditions.length === 0
+            ? undefined
+            : { condition: conditions.join(' AND '), params };
+    }
+
+    /**
+     * Bedingung für die Schauspieler: `schauspieler` als Teilstring im Vor-
+     * oder Nachnamen und `schauspielerEmail` als exakte Emailadresse einer
+     * Person in der Besetzung, jeweils ohne Beachtung der Groß-/Kleinschreibung.
+     */
+    #schauspielerWhere(
+        schauspieler: string | undefined,
+        schauspielerEmail: string | undefined,
+    ): Where | undefined {
+        const alias = this.#personAlias;
+        const ilike =
+            typeOrmModuleOptions.type === 'postgres' ? 'ilike' : 'like';
+        const conditions: string[] = [];
+        const params: Record<string, string> = {};
+        if (schauspieler !== undefined) {
+            conditions.push(
+                `(${alias}.nachname ${ilike} :schauspieler OR ${alias}.vorname ${ilike} :schauspieler)`,
+            );
+            params.schauspieler = `%${schauspieler}%`;
+        }
+        if (schauspielerEmail !== undefined) {
+            conditions.push(
+                `lower(${alias}.email) = lower(:schauspielerEmail)`,
+            );
+            params.schauspielerEmail = schauspielerEmail;
+        }
+
+        return conditions.length === 0
+            ? undefined
+            : { condition: conditions.join(' AND '), params };
+    }
+
+    /** Das Jahrzehnt zu einem Datum, z.B. 2020 für 2024-01-31. */
+    #jahrzehnt(column: string) {
+        switch (typeOrmModuleOptions.type) {
+            case 'mysql': {
+                return `FLOOR(YEAR(${column}) / 10) * 10`;
+            }
+            case 'sqlite': {
+                return `(CAST(strftime('%Y', ${column}) AS INTEGER) / 10) * 10`;
+            }
+            default: {
+                return `(CAST(EXTRACT(YEAR FROM ${column}) AS INTEGER) / 10) * 10`;
+            }
+        }
+    }
+
+    #genreContains(param: string) {
+        // exakter Vergleich mit dem Namen im Genre-Katalog ueber die Join-Tabelle
+        return (
+            'EXISTS (SELECT 1 FROM film_genre fg INNER JOIN genre g ON g.id = fg.genre_id ' +
+            `WHERE fg.film_id = ${this.#filmAlias}.id AND g.name = :${param})`
+        );
+    }
+
+    /**
+     * Bedingung für einen Filter mit einem Parameter je Vergleich. Texte
+     * werden ohne Beachtung der Groß-/Kleinschreibung verglichen.
+     */
+    #filterWhere(filter: FilterAusdruck | undefined): Where | undefined {
+        if (filter === undefined) {
+            return undefined;
+        }
+        const params: Record<string, unknown> = {};
+        return { condition: this.#filterCondition(filter, params), params };
+    }
+
+    #filterCondition(
+        ausdruck: FilterAusdruck,
+        params: Record<string, unknown>,
+    ): string {
+        switch (ausdruck.typ) {
+            case 'vergleich': {
+                return this.#filterVergleich(ausdruck, params);
+            }
+            case 'not': {
+                // auch erfuellt, wenn die Bedingung wegen NULL "unknown" ist
+                const condition = this.#filterCondition(
+                    ausdruck.operand,
+                    params,
+                );
+                return `(CASE WHEN ${condition} THEN 1 ELSE 0 END) = 0`;
+            }
+            default: {
+                const operator = ausdruck.typ === 'and' ? ' AND ' : ' OR ';
+                const conditions = ausdruck.operanden.map((operand) =>
+                    this.#filterCondition(operand, params),
+                );
+                return `(${conditions.join(operator)})`;
+            }
+        }
+    }
+
+    #filterVergleich(
+        { feld, operator, werte }: FilterVergleich,
+        params: Record<string, unknown>,
+    ) {
+        const { entitaet, property, typ } = FILTER_FELDER.get(feld)!;
+        const name = `filter${Object.keys(params).length}`;
+        const liste = operator === 'in' || operator === 'out';
+        const sqlWerte =
+            typ === 'string'
+                ? werte.map((wert) => filterText(String(wert), operator))
+                : werte;
+        params[name] = liste ? sqlWerte : sqlWerte[0]; // eslint-disable-line security/detect-object-injection
+
+        const spalte = this.#filterSpalte(entitaet, property);
+        const links = typ === 'string' ? `lower(${spalte})` : spalte;
+        let vergleich = liste
+            ? `${links} IN (:...${name})`
+            : `${links} ${FILTER_VERGLEICHE[operator]} :${name}`; // eslint-disable-line security/detect-object-injection
+        if (operator === 'like') {
+            vergleich += " ESCAPE '!'";
+        }
+
+        // Collections: mind. ein bzw. bei der Negation kein passendes Element
+        const not = operator === 'ne' || operator === 'out' ? 'NOT ' : '';
+        switch (entitaet) {
+            case 'genre': {
+                return (
+                    `${not}EXISTS (SELECT 1 FROM film_genre fg INNER JOIN genre g ON g.id = fg.genre_id ` +
+                    `WHERE fg.film_id = ${this.#filmAlias}.id AND ${vergleich})`
+                );
+            }
+            case 'person': {
+                return (
+                    `${not}EXISTS (SELECT 1 FROM besetzung b INNER JOIN person p ON p.id = b.person_id ` +
+                    `WHERE b.film_id = ${this.#filmAlias}.id AND ${vergleich})`
+                );
+            }
+            default: {
+                // NULL erfuellt die Negation, z.B. bei einem fehlenden Seriennamen
+                return not === ''
+                    ? vergleich
+                    : `(${spalte} IS NULL OR NOT (${vergleich}))`;
+            }
+        }
+    }
+
+    #filterSpalte(entitaet: FilterEntitaet, property: string) {
+        switch (entitaet) {
+            case 'titel': {
+                return `${this.#titelAlias}.${property}`;
+            }
+            case 'genre': {
+                return `g.${property}`;
+            }
+            case 'person': {
+                return `p.${property}`;
+            }
+            default: {
+                return `${this.#filmAlias}.${property}`;
+            }
+        }
+    }
+
+    // Vergleich mit dem Tupel (Sortierkriterium, ID) des Cursors
+    #keysetCondition(
+        { property }: KeysetSortOrder,
+        operator: string,
+        name: string,
+    ) {
+        const id = `${this.#filmAlias}.id`;
+        if (property === 'id') {
+            return `${id} ${operator} :${name}Id`;
+        }
+        const alias = property === 'titel' ? this.#titelAlias : this.#filmAlias;
+        const spalte = `${alias}.${property}`;
+        return `(${spalte} ${operator} :${name}Wert OR (${spalte} = :${name}Wert AND ${id} ${operator} :${name}Id))`;
+    }
+
+    #keysetParams({ wert, id }: Cursor, name: string) {
+        return { [`${name}Wert`]: wert, [`${name}Id`]: id };
+    }
+
+    #condition(key: string) {
+        const range = RANGE_SUCHKRITERIEN[key]; // eslint-disable-line security/detect-object-injection
+        return range === undefined
+            ? `${this.#filmAlias}.${key} = :${key}`
+            : `${this.#filmAlias}.${range.property} ${range.operator} :${key}`;
+    }
+
+    /**
+     * Nur die Spalten zu den ausgewählten Feldern lesen. Die IDs sind immer
+     * erforderlich, damit TypeORM die Entity-Objekte zusammensetzen kann, und
+     * die Spalten der Sortierkriterien für das Blättern mit skip und take.
+     */
+    #select(
+        queryBuilder: SelectQueryBuilder<Film>,
+        fields: readonly Field[],
+        sort: readonly SortOrder[],
+    ) {
+        const sortProperties = sort.map(({ property }) => property);
+        const properties = [...new Set<string>([...fields, ...sortProperties])];
+        const titelFields = properties.filter((property) =>
+            (TITEL_FIELDS as readonly string[]).includes(property),
+        );
+        const filmFields = properties.filter(
+            (property) =>
+                !titelFields.includes(property) &&
+                property !== 'genres' &&
+                property !== 'id',
+        );
+        const selection = [
+            `${this.#filmAlias}.id`,
+            ...filmFields.map((field) => `${this.#filmAlias}.${field}`),
+        ];
+        if (titelFields.length > 0) {
+            selection.push(
+                `${this.#titelAlias}.id`,
+                ...titelFields.map((field) => `${this.#titelAlias}.${field}`),
+            );
+        }
+        if (fields.includes('genres')) {
+            selection.push(
+                `${this.#genreAlias}.id`,
+                `${this.#genreAlias}.name`,
+            );
+        }
+        return queryBuilder.select(selection);
+    }
+
+    #orderBy(
+        queryBuilder: SelectQueryBuilder<Film>,
+        sort: readonly SortOrder[],
+        mitRang: boolean,
+    ) {
+        sort.forEach(({ property, direction }) => {
+            const alias = (TITEL_SORT_PROPERTIES as readonly string[]).includes(
+                property,
+            )
+                ? this.#titelAlias
+                : this.#filmAlias;
+            queryBuilder.addOrderBy(`${alias}.${property}`, direction);
+        });
+        // Nach den expliziten Sortierkriterien absteigend nach der Relevanz
+        if (mitRang) {
+            queryBuilder.addOrderBy(RANG_ALIAS, 'DESC');
+        }
+        // Eindeutige Reihenfolge, damit die Seiten beim Blaettern stabil sind
+        if (!sort.some(({ property }) => property === 'id')) {
+            queryBuilder.addOrderBy(`${this.#filmAlias}.id`, 'ASC');
+        }
+        return queryBuilder;
+    }
 }
+/* eslint-enable max-lines */
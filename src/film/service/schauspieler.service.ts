@@ -0,0 +1,211 @@
+/*
+ * Copyright (C) 2024 - present Juergen Zimmermann, Hochschule Karlsruhe
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with this program.  If not, see <https://www.gnu.org/licenses/>.
+ */
+
+/**
+ * Das Modul besteht aus der Klasse {@linkcode SchauspielerService} für die
+ * Schauspieler eines Filmes als Sub-Ressource.
+ * @packageDocumentation
+ */
+
+import { type EntityManager, Repository } from 'typeorm';
+import { Injectable, NotFoundException } from '@nestjs/common';
+import { Besetzung } from '../entity/besetzung.entity.js';
+import { Film } from '../entity/film.entity.js';
+import { FilmReadService } from './film-read.service.js';
+import { InjectRepository } from '@nestjs/typeorm';
+import { PersonService } from './person.service.js';
+import { getLogger } from '../../logger/logger.js';
+
+/** Typdefinitionen für einen Schauspieler eines Filmes. */
+export interface SchauspielerIdParams {
+    /** ID des Filmes. */
+    readonly filmId: number;
+    /** ID des Schauspielers, d.h. der Besetzung. */
+    readonly id: number;
+}
+
+/** Typdefinitionen zum Aktualisieren eines Schauspielers mit `update`. */
+export interface SchauspielerUpdateParams extends SchauspielerIdParams {
+    /** Besetzung mit der Person und den aktualisierten Werten. */
+    readonly besetzung: Besetzung;
+}
+
+/**
+ * Die Klasse `SchauspielerService` implementiert das Lesen und Schreiben der
+ * Schauspieler zu einem Film, d.h. der Besetzung mit den Personen, und greift
+ * mit _TypeORM_ auf die DB zu. Beim Schreiben wird die Version des Filmes
+ * erhöht, damit sich sein ETag z.B. bei `embed=schauspielers` ändert.
+ */
+@Injectable()
+export class SchauspielerService {
+    readonly #repo: Repository<Besetzung>;
+
+    readonly #readService: FilmReadService;
+
+    readonly #personService: PersonService;
+
+    readonly #logger = getLogger(SchauspielerService.name);
+
+    constructor(
+        @InjectRepository(Besetzung) repo: Repository<Besetzung>,
+        readService: FilmReadService,
+        personService: PersonService,
+    ) {
+        this.#repo = repo;
+        this.#readService = readService;
+        this.#personService = personService;
+    }
+
+    /**
+     * Die Schauspieler zu einem Film in der Reihenfolge des Abspanns ermitteln.
+     * @param filmId ID des Filmes
+     * @returns Ein evtl. leeres JSON-Array mit der Besetzung.
+     * @throws NotFoundException falls es keinen Film mit der ID gibt
+     */
+    async find(filmId: number) {
+        this.#logger.debug('find: filmId=%d', filmId);
+        await this.#readService.findById({ id: filmId });
+        return this.#repo.find({
+            where: { film: { id: filmId } },
+            relations: { person: true },
+            order: { reihenfolge: 'ASC', id: 'ASC' },
+        });
+    }
+
+    /**
+     * Einen Schauspieler zu einem Film anhand seiner ID suchen.
+     * @param params ID des Filmes und des Schauspielers
+     * @returns Die gefundene Besetzung mit der Person
+     * @throws NotFoundException falls es den Schauspieler zum Film nicht gibt
+     */
+    async findById({ filmId, id }: SchauspielerIdParams) {
+        this.#logger.debug('findById: filmId=%d, id=%d', filmId, id);
+        const besetzung = await this.#repo.findOne({
+            where: { id, film: { id: filmId } },
+            relations: { person: true },
+        });
+        if (besetzung === null) {
+            throw new NotFoundException(
+                `Es gibt keinen Schauspieler mit der ID ${id} zum Film mit der ID ${filmId}.`,
+            );
+        }
+        return besetzung;
+    }
+
+    /**
+     * Einen neuen Schauspieler zu einem Film anlegen. Eine vorhandene Person
+     * mit derselben Emailadresse wird wiederverwendet. Ohne Reihenfolge wird
+     * der Schauspieler am Ende des Abspanns eingereiht.
+     * @param filmId ID des Filmes
+     * @param besetzung Die neue Besetzung mit der Person
+     * @returns Die ID des neu angelegten Schauspielers
+     * @throws NotFoundException falls es keinen Film mit der ID gibt
+     */
+    async create(filmId: number, besetzung: Besetzung): Promise<number> {
+        this.#logger.debug(
+            'create: filmId=%d, besetzung=%o',
+            filmId,
+            besetzung,
+        );
+        const film = await this.#readService.findById({ id: filmId });
+        const person = await this.#personService.findOrCreate(
+            besetzung.person!,
+        );
+        const anzahl = await this.#repo.countBy({ film: { id: filmId } });
+        const reihenfolge = besetzung.reihenfolge ?? anzahl + 1;
+
+        const besetzungDb = await this.#repo.manager.transaction(
+            async (transactionalMgr) => {
+                await this.#incrementVersion(filmId, transactionalMgr);
+                return transactionalMgr.save(Besetzung, {
+                    rolle: besetzung.rolle,
+                    reihenfolge,
+                    film,
+                    person,
+                });
+            },
+        );
+        this.#logger.debug('create: besetzungDb=%o', besetzungDb);
+        return besetzungDb.id!;
+    }
+
+    /**
+     * Einen vorhandenen Schauspieler eines Filmes aktualisieren: Rolle und
+     * Reihenfolge werden geändert, sofern sie angegeben sind, und die Person
+     * wird anhand der Emailadresse zugeordnet. Die Daten einer vorhandenen
+     * Person werden dabei nicht geändert, sondern nur über `/rest/personen`.
+     * @param params ID des Filmes und des Schauspielers sowie die neuen Werte
+     * @throws NotFoundException falls es den Schauspieler zum Film nicht gibt
+     */
+    async update({ filmId, id, besetzung }: SchauspielerUpdateParams) {
+        this.#logger.debug(
+            'update: filmId=%d, id=%d, besetzung=%o',
+            filmId,
+            id,
+            besetzung,
+        );
+        const besetzungDb = await this.findById({ filmId, id });
+        const person = await this.#personService.findOrCreate(
+            besetzung.person!,
+        );
+
+        await this.#repo.manager.transaction(async (transactionalMgr) => {
+            await transactionalMgr.update(Besetzung, id, {
+                rolle: besetzung.rolle ?? besetzungDb.rolle,
+                reihenfolge: besetzung.reihenfolge ?? besetzungDb.reihenfolge,
+                person: { id: person.id },
+            });
+            await this.#incrementVersion(filmId, transactionalMgr);
+        });
+    }
+
+    /**
+     * Einen Schauspieler eines Filmes löschen. Die Person bleibt erhalten.
+     * @param params ID des Filmes und des Schauspielers
+     * @returns true, falls der Schauspieler vorhanden war und gelöscht wurde.
+     */
+    async delete({ filmId, id }: SchauspielerIdParams) {
+        this.#logger.debug('delete: filmId=%d, id=%d', filmId, id);
+        try {
+            await this.findById({ filmId, id });
+        } catch (err) {
+            if (err instanceof NotFoundException) {
+                return false;
+            }
+            throw err;
+        }
+
+        const deleteResult = await this.#repo.manager.transaction(
+            async (transactionalMgr) => {
+                await this.#incrementVersion(filmId, transactionalMgr);
+                return transactionalMgr.delete(Besetzung, id);
+            },
+        );
+        this.#logger.debug('delete: deleteResult=%o', deleteResult);
+        return (
+            deleteResult.affected !== undefined &&
+            deleteResult.affected !== null &&
+            deleteResult.affected > 0
+        );
+    }
+
+    // Die Besetzung gehoert zur Repraesentation des Filmes, z.B. bei
+    // embed=schauspielers, und aendert deshalb auch dessen Version
+    async #incrementVersion(filmId: number, transactionalMgr: EntityManager) {
+        await transactionalMgr.increment(Film, { id: filmId }, 'version', 1);
+    }
+}
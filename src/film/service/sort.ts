@@ -0,0 +1,112 @@
+/*
+ * Copyright (C) 2024 - present Juergen Zimmermann, Hochschule Karlsruhe
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with this program.  If not, see <https://www.gnu.org/licenses/>.
+ */
+
+/**
+ * Das Modul besteht aus den Typdefinitionen und Funktionen für das Sortieren
+ * bei der Suche nach Filmen.
+ * @packageDocumentation
+ */
+
+import { SortInvalidException } from './exceptions.js';
+
+/** Properties der Entity-Klasse `Film`, nach denen sortiert werden darf. */
+export const FILM_SORT_PROPERTIES = [
+    'id',
+    'version',
+    'rating',
+    'filmstart',
+    'dauer',
+    'sprache',
+    'direktor',
+    'erzeugt',
+    'aktualisiert',
+] as const;
+
+/** Properties der Entity-Klasse `Titel`, nach denen sortiert werden darf. */
+export const TITEL_SORT_PROPERTIES = [
+    'titel',
+    'originaltitel',
+    'serienname',
+] as const;
+
+/** Typdefinition für die Properties, nach denen sortiert werden darf. */
+export type SortProperty =
+    | (typeof FILM_SORT_PROPERTIES)[number]
+    | (typeof TITEL_SORT_PROPERTIES)[number];
+
+/** Typdefinition für die Sortierrichtung. */
+export type SortDirection = 'ASC' | 'DESC';
+
+/**
+ * Typdefinition für ein Sortierkriterium.
+ */
+export interface SortOrder {
+    /** Property, nach der sortiert wird. */
+    readonly property: SortProperty;
+    /** Aufsteigend oder absteigend. */
+    readonly direction: SortDirection;
+}
+
+const sortProperties: readonly string[] = [
+    ...FILM_SORT_PROPERTIES,
+    ...TITEL_SORT_PROPERTIES,
+];
+
+/**
+ * Ein Sortierkriterium aus Property und Richtung erstellen.
+ * @param property Name der Property, z.B. `rating`
+ * @param direction `asc` oder `desc` ohne Beachtung der Groß-/Kleinschreibung;
+ *  voreingestellt ist `asc`
+ * @returns Das Sortierkriterium
+ * @throws SortInvalidException falls die Property oder die Richtung ungültig ist
+ */
+export const createSortOrder = (
+    property: string,
+    direction = 'asc',
+): SortOrder => {
+    if (!sortProperties.includes(property)) {
+        throw new SortInvalidException(property, sortProperties);
+    }
+    const directionUpper = direction.toUpperCase();
+    if (directionUpper !== 'ASC' && directionUpper !== 'DESC') {
+        throw new SortInvalidException(direction, ['asc', 'desc']);
+    }
+    return { property: property as SortProperty, direction: directionUpper };
+};
+
+/**
+ * Die Sortierkriterien aus Query-Parametern wie z.B. `sort=rating,desc` und
+ * `sort=titel` erstellen.
+ * @param sort Ein oder mehrere Sortierkriterien im Format `property[,asc|desc]`
+ * @returns Die Sortierkriterien in der angegebenen Reihenfolge
+ * @throws SortInvalidException falls ein Sortierkriterium ungültig ist
+ */
+export const createSort = (
+    sort: string | readonly string[] | undefined,
+): SortOrder[] => {
+    if (sort === undefined) {
+        return [];
+    }
+    const sortArray = typeof sort === 'string' ? [sort] : sort;
+    return sortArray.map((s) => {
+        const [property = '', direction, ...rest] = s.split(',');
+        if (rest.length > 0) {
+            throw new SortInvalidException(s, sortProperties);
+        }
+        return createSortOrder(property.trim(), direction?.trim());
+    });
+};
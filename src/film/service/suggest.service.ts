@@ -0,0 +1,200 @@
+/*
+ * Copyright (C) 2024 - present Juergen Zimmermann, Hochschule Karlsruhe
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with this program.  If not, see <https://www.gnu.org/licenses/>.
+ */
+
+/**
+ * Das Modul besteht aus der Klasse {@linkcode SuggestService} für die
+ * fehlertolerante Autovervollständigung von Titeln.
+ * @packageDocumentation
+ */
+
+import { BadRequestException, Injectable } from '@nestjs/common';
+import {
+    type TrigrammEintrag,
+    type TrigrammIndex,
+    type TrigrammTreffer,
+    createTrigrammIndex,
+} from './trigramm.js';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { Titel } from '../entity/titel.entity.js';
+import { dbType } from '../../config/dbtype.js';
+import { getLogger } from '../../logger/logger.js';
+
+/** Typdefinition für einen Vorschlag bei der Autovervollständigung. */
+export type Vorschlag = TrigrammTreffer;
+
+/** Typdefinitionen für `suggest`. */
+export interface SuggestParams {
+    /** Der evtl. unvollständige oder falsch geschriebene Titel */
+    readonly prefix: string | undefined;
+    /** Maximale Anzahl der Vorschläge */
+    readonly limit?: number | string | undefined;
+}
+
+/** Voreingestellte Anzahl der Vorschläge */
+export const DEFAULT_LIMIT = 10;
+
+/** Maximale Anzahl der Vorschläge */
+export const MAX_LIMIT = 50;
+
+// wie bei titel.titel in create.sql
+const MAX_PREFIX_LENGTH = 40;
+
+// word_similarity() und der Operator <% von pg_trgm nutzen die GIN-Indexe
+// titel_titel_trgm_idx und titel_originaltitel_trgm_idx
+const SQL_POSTGRES = `
+SELECT film_id AS "filmId", text, feld, aehnlichkeit
+FROM (
+    SELECT film_id, titel AS text, 'titel' AS feld,
+           CASE WHEN titel ILIKE $2 ESCAPE '!' THEN 1 ELSE word_similarity($1, titel) END AS aehnlichkeit
+    FROM titel
+    WHERE $1 <% titel OR titel ILIKE $2 ESCAPE '!'
+    UNION ALL
+    SELECT film_id, originaltitel, 'originaltitel',
+           CASE WHEN originaltitel ILIKE $2 ESCAPE '!' THEN 1 ELSE word_similarity($1, originaltitel) END
+    FROM titel
+    WHERE $1 <% originaltitel OR originaltitel ILIKE $2 ESCAPE '!'
+) vorschlag
+ORDER BY aehnlichkeit DESC, text
+LIMIT $3`;
+
+/**
+ * Die Klasse `SuggestService` liefert Vorschläge zu einem evtl.
+ * unvollständigen oder falsch geschriebenen Titel. Bei PostgreSQL werden
+ * Trigramme mit _pg_trgm_ in der DB verwendet, bei MySQL und SQLite ein
+ * Trigramm-Index im Hauptspeicher, der beim Anlegen und Löschen von Filmen
+ * verworfen wird.
+ */
+@Injectable()
+export class SuggestService {
+    readonly #repo: Repository<Titel>;
+
+    #index: Promise<TrigrammIndex> | undefined;
+
+    readonly #logger = getLogger(SuggestService.name);
+
+    constructor(@InjectRepository(Titel) repo: Repository<Titel>) {
+        this.#repo = repo;
+    }
+
+    /**
+     * Vorschläge für Titel und Originaltitel zu einem Präfix ermitteln.
+     * @param prefix Der evtl. unvollständige oder falsch geschriebene Titel
+     * @param limit Maximale Anzahl der Vorschläge; voreingestellt sind 10
+     * @returns Die Vorschläge absteigend nach der Ähnlichkeit
+     * @throws BadRequestException falls der Präfix oder das Limit ungültig ist
+     */
+    async suggest({ prefix, limit }: SuggestParams): Promise<Vorschlag[]> {
+        this.#logger.debug('suggest: prefix=%s, limit=%s', prefix, limit);
+        const prefixTrimmed = this.#checkPrefix(prefix);
+        const limitNumber = this.#checkLimit(limit);
+
+        const vorschlaege =
+            dbType === 'postgres'
+                ? await this.#suggestPostgres(prefixTrimmed, limitNumber)
+                : await this.#suggestIndex(prefixTrimmed, limitNumber);
+        this.#logger.debug('suggest: vorschlaege=%o', vorschlaege);
+        return vorschlaege;
+    }
+
+    /**
+     * Den Trigramm-Index im Hauptspeicher verwerfen, nachdem sich die Titel
+     * geändert haben.
+     */
+    invalidate() {
+        this.#logger.debug('invalidate');
+        this.#index = undefined;
+    }
+
+    async #suggestPostgres(prefix: string, limit: number) {
+        // % und _ im Praefix sind keine Platzhalter bei ILIKE
+        const prefixLike = prefix
+            .replaceAll('!', '!!')
+            .replaceAll('%', '!%')
+            .replaceAll('_', '!_');
+        return (await this.#repo.query(SQL_POSTGRES, [
+            prefix,
+            `${prefixLike}%`,
+            limit,
+        ])) as Vorschlag[];
+    }
+
+    async #suggestIndex(prefix: string, limit: number) {
+        // bei einem Fehler wird der Index beim naechsten Aufruf neu erstellt
+        this.#index ??= this.#createIndex().catch((err: unknown) => {
+            this.#index = undefined;
+            throw err;
+        });
+        const index = await this.#index;
+        return index.suche(prefix, limit);
+    }
+
+    async #createIndex() {
+        const titel = await this.#repo
+            .createQueryBuilder('titel')
+            .innerJoin('titel.film', 'film')
+            .select(['titel.id', 'titel.titel', 'titel.originaltitel'])
+            .addSelect('film.id')
+            .orderBy('titel.titel')
+            .getMany();
+        const eintraege: TrigrammEintrag[] = [];
+        titel.forEach(({ titel: text, originaltitel, film }) => {
+            const filmId = film?.id;
+            if (filmId === undefined) {
+                return;
+            }
+            eintraege.push({ filmId, text, feld: 'titel' });
+            // originaltitel kann in der DB NULL sein
+            if (typeof originaltitel === 'string' && originaltitel !== '') {
+                eintraege.push({
+                    filmId,
+                    text: originaltitel,
+                    feld: 'originaltitel',
+                });
+            }
+        });
+        this.#logger.debug('#createIndex: %d Eintraege', eintraege.length);
+        return createTrigrammIndex(eintraege);
+    }
+
+    #checkPrefix(prefix: string | undefined) {
+        const prefixTrimmed = prefix?.trim() ?? '';
+        if (prefixTrimmed === '' || prefixTrimmed.length > MAX_PREFIX_LENGTH) {
+            throw new BadRequestException(
+                `Der Praefix muss zwischen 1 und ${MAX_PREFIX_LENGTH} Zeichen lang sein`,
+            );
+        }
+        return prefixTrimmed;
+    }
+
+    #checkLimit(limit: number | string | undefined) {
+        if (limit === undefined) {
+            return DEFAULT_LIMIT;
+        }
+        const limitNumber = Number(limit);
+        if (
+            !Number.isInteger(limitNumber) ||
+            limitNumber < 1 ||
+            limitNumber > MAX_LIMIT
+        ) {
+            throw new BadRequestException(
+                `Das Limit muss zwischen 1 und ${MAX_LIMIT} liegen: ${limit}`,
+            );
+        }
+        return limitNumber;
+    }
+}
@@ -0,0 +1,185 @@
+/*
+ * Copyright (C) 2024 - present Juergen Zimmermann, Hochschule Karlsruhe
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with this program.  If not, see <https://www.gnu.org/licenses/>.
+ */
+
+/**
+ * Das Modul besteht aus einem Trigramm-Index im Hauptspeicher für die
+ * fehlertolerante Autovervollständigung, falls die DB keine Trigramme
+ * unterstützt (MySQL und SQLite).
+ * @packageDocumentation
+ */
+
+/** Typdefinition für einen Eintrag im Trigramm-Index. */
+export interface TrigrammEintrag {
+    /** ID des Films */
+    readonly filmId: number;
+    /** Titel oder Originaltitel */
+    readonly text: string;
+    /** Name der Property, aus der der Text stammt */
+    readonly feld: 'originaltitel' | 'titel';
+}
+
+/** Typdefinition für einen Treffer im Trigramm-Index. */
+export interface TrigrammTreffer extends TrigrammEintrag {
+    /** Ähnlichkeit zwischen 0 und 1 */
+    readonly aehnlichkeit: number;
+}
+
+/** Typdefinition für die Suche im Trigramm-Index. */
+export interface TrigrammIndex {
+    /**
+     * Einträge zu einem evtl. unvollständigen oder falsch geschriebenen
+     * Präfix suchen.
+     * @param prefix Der eingegebene Präfix
+     * @param limit Maximale Anzahl der Treffer
+     * @returns Die Treffer absteigend nach der Ähnlichkeit
+     */
+    readonly suche: (prefix: string, limit: number) => TrigrammTreffer[];
+}
+
+/**
+ * Minimale Ähnlichkeit für einen Treffer wie bei `word_similarity_threshold`
+ * von pg_trgm.
+ */
+export const MIN_AEHNLICHKEIT = 0.6;
+
+const TRIGRAMM_LAENGE = 3;
+
+const normalisieren = (text: string) =>
+    text
+        .toLowerCase()
+        .split(/[^\p{L}\p{N}]+/u)
+        .filter((wort) => wort !== '');
+
+/**
+ * Die Trigramme zu einem Text wie bei pg_trgm: jedes Wort wird vorne mit 2
+ * und hinten mit 1 Leerzeichen aufgefüllt. Beim Präfix der Eingabe fehlt
+ * beim letzten Wort das Trigramm für das Wortende, weil es noch unvollständig
+ * sein kann.
+ * @param text Der Text
+ * @param istPrefix Ist das letzte Wort evtl. unvollständig?
+ * @returns Die Trigramme ohne Duplikate
+ */
+export const trigramme = (text: string, istPrefix = false) => {
+    const woerter = normalisieren(text);
+    const result = new Set<string>();
+    woerter.forEach((wort, i) => {
+        const ende = istPrefix && i === woerter.length - 1 ? '' : ' ';
+        const padded = `  ${wort}${ende}`;
+        for (let j = 0; j + TRIGRAMM_LAENGE <= padded.length; j++) {
+            result.add(padded.slice(j, j + TRIGRAMM_LAENGE));
+        }
+    });
+    return [...result];
+};
+
+// absteigend nach der Aehnlichkeit und danach in der Reihenfolge der Eintraege
+const vergleichen = (
+    [i, aehnlichkeitA]: readonly [number, number],
+    [j, aehnlichkeitB]: readonly [number, number],
+) => aehnlichkeitB - aehnlichkeitA || i - j;
+
+/** Typdefinition für die Daten im Trigramm-Index. */
+interface TrigrammDaten {
+    readonly eintraege: readonly TrigrammEintrag[];
+    /** Normalisierte Texte für den Vergleich mit dem Präfix */
+    readonly normalisiert: readonly string[];
+    /** Invertierte Listen: Trigramm mit den Positionen der Einträge */
+    readonly listen: ReadonlyMap<string, readonly number[]>;
+}
+
+const kandidatenSuchen = (
+    { eintraege, listen }: TrigrammDaten,
+    gesucht: readonly string[],
+) => {
+    // Anzahl der gemeinsamen Trigramme je Eintrag
+    const gemeinsam = new Uint8Array(eintraege.length);
+    const kandidaten: number[] = [];
+    gesucht.forEach(
+        (trigramm) =>
+            listen.get(trigramm)?.forEach((i) => {
+                // eslint-disable-next-line security/detect-object-injection
+                if (gemeinsam[i]++ === 0) {
+                    kandidaten.push(i);
+                }
+            }),
+    );
+    return { gemeinsam, kandidaten };
+};
+
+const suchen = (daten: TrigrammDaten, prefix: string, limit: number) => {
+    const gesucht = trigramme(prefix, true);
+    if (gesucht.length === 0) {
+        return [];
+    }
+    const { gemeinsam, kandidaten } = kandidatenSuchen(daten, gesucht);
+
+    const prefixNormalisiert = normalisieren(prefix).join(' ');
+    const minAnzahl = MIN_AEHNLICHKEIT * gesucht.length;
+    const treffer: [number, number][] = [];
+    kandidaten.forEach((i) => {
+        const anzahl = gemeinsam[i] ?? 0; // eslint-disable-line security/detect-object-injection
+        if (anzahl < minAnzahl) {
+            return;
+        }
+        // ein exakter Praefix ist immer ein Treffer mit maximaler Aehnlichkeit
+        const aehnlichkeit =
+            daten.normalisiert[i]?.startsWith(prefixNormalisiert) === true // eslint-disable-line security/detect-object-injection
+                ? 1
+                : anzahl / gesucht.length;
+        treffer.push([i, aehnlichkeit]);
+    });
+    return treffer
+        .sort(vergleichen)
+        .slice(0, limit)
+        .map(([i, aehnlichkeit]) => ({
+            ...daten.eintraege[i]!, // eslint-disable-line security/detect-object-injection
+            aehnlichkeit,
+        }));
+};
+
+/**
+ * Einen Trigramm-Index mit invertierten Listen erstellen. Bei der Suche werden
+ * nur die Einträge betrachtet, die mind. ein Trigramm mit dem Präfix gemeinsam
+ * haben, so dass die Laufzeit nicht linear mit der Anzahl der Titel wächst.
+ * @param eintraege Die Titel und Originaltitel der Filme, z.B. alphabetisch
+ *  sortiert für die Reihenfolge bei gleicher Ähnlichkeit
+ * @returns Der Trigramm-Index
+ */
+export const createTrigrammIndex = (
+    eintraege: readonly TrigrammEintrag[],
+): TrigrammIndex => {
+    const listen = new Map<string, number[]>();
+    eintraege.forEach(({ text }, i) => {
+        trigramme(text).forEach((trigramm) => {
+            const liste = listen.get(trigramm);
+            if (liste === undefined) {
+                listen.set(trigramm, [i]);
+            } else {
+                liste.push(i);
+            }
+        });
+    });
+    const daten: TrigrammDaten = {
+        eintraege,
+        normalisiert: eintraege.map(({ text }) =>
+            normalisieren(text).join(' '),
+        ),
+        listen,
+    };
+
+    return { suche: (prefix, limit) => suchen(daten, prefix, limit) };
+};
@@ -0,0 +1,192 @@
+/*
+ * Copyright (C) 2024 - present Juergen Zimmermann, Hochschule Karlsruhe
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with this program.  If not, see <https://www.gnu.org/licenses/>.
+ */
+
+/**
+ * Das Modul besteht aus den Funktionen für die Volltextsuche nach Filmen
+ * in Titel, Originaltitel, Serienname, Direktor und den Namen der
+ * Schauspieler.
+ * @packageDocumentation
+ */
+
+import { dbType } from '../../config/dbtype.js';
+
+/** Alias für die Relevanz in der SELECT-Klausel, nach der sortiert wird. */
+export const RANG_ALIAS = 'rang';
+
+/** Typdefinition für die Aliase im QueryBuilder. */
+export interface VolltextParams {
+    /** Suchbegriffe, z.B. `avatar cameron` */
+    readonly q: string;
+    /** Alias für die Tabelle `film` */
+    readonly filmAlias: string;
+    /** Alias für die Tabelle `titel` */
+    readonly titelAlias: string;
+}
+
+/** Typdefinition für die Volltextsuche im QueryBuilder. */
+export interface Volltextsuche {
+    /** Bedingung für die WHERE-Klausel */
+    readonly condition: string;
+    /** Ausdruck für die Relevanz in der SELECT-Klausel */
+    readonly rang: string;
+    /** Parameter für die Bedingung und die Relevanz */
+    readonly params: Record<string, string>;
+}
+
+// Konfiguration "simple", weil Titel und Namen nicht nur deutsch sind
+// CAVEAT: die Ausdruecke muessen zu den GIN-Indexen in create.sql passen
+const tsvector = (text: string) => `to_tsvector('simple', ${text})`;
+
+const tsquery = "websearch_to_tsquery('simple', :q)";
+
+// mind. ein Suchbegriff, damit die GIN-Indexe als Vorfilter genutzt werden
+const tsqueryAny =
+    "replace(plainto_tsquery('simple', :q)::text, '&', '|')::tsquery";
+
+const personDokument = "p.vorname || ' ' || p.nachname";
+
+// Gewichte fuer die Relevanz bei MySQL und SQLite
+const GEWICHT_TITEL = 4;
+const GEWICHT_ORIGINALTITEL = 2;
+const GEWICHT_SONSTIGE = 1;
+
+const besetzungJoin = (filmAlias: string) =>
+    'FROM besetzung b INNER JOIN person p ON p.id = b.person_id ' +
+    `WHERE b.film_id = ${filmAlias}.id`;
+
+const like = (column: string, param: string) =>
+    `lower(${column}) LIKE :${param}`;
+
+const personLike = (param: string) =>
+    `(${like('p.vorname', param)} OR ${like('p.nachname', param)})`;
+
+const gewichtet = (bedingung: string, gewicht: number) =>
+    `CASE WHEN ${bedingung} THEN ${gewicht} ELSE 0 END`;
+
+/**
+ * Volltextsuche mit `tsvector` und `tsquery` von PostgreSQL: die GIN-Indexe
+ * liefern die Filme, bei denen mind. ein Suchbegriff im Titel, im Direktor
+ * oder im Namen eines Schauspielers vorkommt. Danach müssen alle Suchbegriffe
+ * im gesamten Dokument vorkommen. Die Relevanz wird mit `ts_rank` berechnet,
+ * wobei der Titel am stärksten gewichtet wird.
+ */
+const postgres = ({
+    q,
+    filmAlias,
+    titelAlias,
+}: VolltextParams): Volltextsuche => {
+    const titel = `${titelAlias}.titel`;
+    const originaltitel = `coalesce(${titelAlias}.originaltitel, '')`;
+    const serienname = `coalesce(${titelAlias}.serienname, '')`;
+    const direktor = `${filmAlias}.direktor`;
+    const titelDokument = `coalesce(${titel}, '') || ' ' || ${originaltitel} || ' ' || ${serienname}`;
+    const besetzung = besetzungJoin(filmAlias);
+    const vorfilter =
+        `(${tsvector(titelDokument)} @@ ${tsqueryAny} OR ` +
+        `${tsvector(direktor)} @@ ${tsqueryAny} OR ` +
+        `EXISTS (SELECT 1 ${besetzung} AND ` +
+        `${tsvector(personDokument)} @@ ${tsqueryAny}))`;
+
+    const schauspieler = `coalesce((SELECT string_agg(${personDokument}, ' ') ${besetzung}), '')`;
+    const dokument = [
+        `setweight(${tsvector(titel)}, 'A')`,
+        `setweight(${tsvector(
+            `${originaltitel} || ' ' || ${serienname}`,
+        )}, 'B')`,
+        `setweight(${tsvector(direktor)}, 'C')`,
+        `setweight(${tsvector(schauspieler)}, 'D')`,
+    ].join(' || ');
+    const condition = `(${vorfilter} AND (${dokument}) @@ ${tsquery})`;
+    const rang = `ts_rank(${dokument}, ${tsquery})`;
+
+    return { condition, rang, params: { q } };
+};
+
+/**
+ * Volltextsuche für MySQL und SQLite mit `LIKE` je Suchbegriff: jeder
+ * Suchbegriff muss im Titel, im Direktor oder im Namen eines Schauspielers
+ * vorkommen. Die Relevanz ist die Summe der Gewichte der Treffer.
+ */
+const fallback = ({
+    q,
+    filmAlias,
+    titelAlias,
+}: VolltextParams): Volltextsuche => {
+    const params: Record<string, string> = {};
+    const begriffe = q
+        .toLowerCase()
+        .split(/\s+/u)
+        .filter((begriff) => begriff !== '')
+        .map((begriff, i) => {
+            const param = `q${i}`;
+            params[param] = `%${begriff}%`; // eslint-disable-line security/detect-object-injection
+            return param;
+        });
+
+    // CAVEAT: bei MySQL ist || ein logisches Oder, deshalb keine Konkatenation
+    const titel = `${titelAlias}.titel`;
+    const originaltitel = `${titelAlias}.originaltitel`;
+    const serienname = `${titelAlias}.serienname`;
+    const direktor = `${filmAlias}.direktor`;
+    const besetzung = besetzungJoin(filmAlias);
+    const titelLike = (param: string) =>
+        `(${like(titel, param)} OR ${like(originaltitel, param)} OR ${like(
+            serienname,
+            param,
+        )})`;
+    const personExists = (conditions: string) =>
+        `EXISTS (SELECT 1 ${besetzung} AND ${conditions})`;
+
+    const condition = begriffe
+        .map(
+            (param) =>
+                `(${titelLike(param)} OR ${like(
+                    direktor,
+                    param,
+                )} OR ${personExists(personLike(param))})`,
+        )
+        .join(' AND ');
+
+    const rang = begriffe
+        .flatMap((param) => [
+            gewichtet(like(titel, param), GEWICHT_TITEL),
+            gewichtet(like(originaltitel, param), GEWICHT_ORIGINALTITEL),
+            gewichtet(like(serienname, param), GEWICHT_ORIGINALTITEL),
+            gewichtet(like(direktor, param), GEWICHT_SONSTIGE),
+            gewichtet(personExists(personLike(param)), GEWICHT_SONSTIGE),
+        ])
+        .join(' + ');
+
+    return { condition: `(${condition})`, rang: `(${rang})`, params };
+};
+
+/**
+ * Die Bedingung und die Relevanz für die Volltextsuche gemäß dem DB-Typ.
+ * @param params Suchbegriffe und die Aliase im QueryBuilder
+ * @returns Bedingung, Relevanz und Parameter für den QueryBuilder
+ */
+export const createVolltextsuche = (params: VolltextParams): Volltextsuche => {
+    switch (dbType) {
+        case 'mysql':
+        case 'sqlite': {
+            return fallback(params);
+        }
+        default: {
+            return postgres(params);
+        }
+    }
+};
@@ -26,10 +26,11 @@ import {
     type SwaggerCustomOptions,
     SwaggerModule,
 } from '@nestjs/swagger';
-import { type INestApplication, ValidationPipe } from '@nestjs/common';
 // relativer Import
 import { AppModule } from './app.module.js';
+import { type INestApplication } from '@nestjs/common';
 import { NestFactory } from '@nestjs/core';
+import { ValidationPipe } from './validation/validation.pipe.js';
 import compression from 'compression';
 import { corsOptions } from './config/cors.options.js';
 import { helmetHandlers } from './security/http/helmet.handler.js';
@@ -21,7 +21,7 @@ import { type User } from '../service/user.service.js';
 import { getLogger } from '../../../logger/logger.js';
 import { jwtConfig } from '../../../config/jwt.js';
 
-const { algorithm, publicKey } = jwtConfig;
+const { publicKey, verifyOptions } = jwtConfig;
 
 /**
  * Payload für einen JWT.
@@ -48,7 +48,9 @@ export class JwtStrategy extends PassportStrategy(Strategy) {
         super({
             jwtFromRequest: ExtractJwt.fromAuthHeaderAsBearerToken(),
             secretOrKey: publicKey,
-            algorithms: [algorithm],
+            // dieselben Optionen wie bei der Verifikation fuer graphql-ws
+            algorithms: verifyOptions.algorithms,
+            issuer: verifyOptions.issuer,
             ignoreExpiration: false,
         });
     }
@@ -0,0 +1,62 @@
+/*
+ * Copyright (C) 2024 - present Juergen Zimmermann, Hochschule Karlsruhe
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with this program.  If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import { type ExecutionContext, Injectable } from '@nestjs/common';
+import { AuthGuard } from '@nestjs/passport';
+import { type BasicUser } from './jwt.strategy.js';
+import { type RequestWithUser } from './jwt-auth.guard.js';
+import { getLogger } from '../../../logger/logger.js';
+
+/**
+ * Das Guard wertet wie `JwtAuthGuard` einen JWT im Header "Authorization" aus
+ * und speichert das zugehörige User-Objekt im Request-Objekt. Im Gegensatz zu
+ * `JwtAuthGuard` ist der Request aber auch ohne bzw. mit ungültigem JWT
+ * erlaubt, so dass z.B. lesende Zugriffe je nach den Rollen unterschiedliche
+ * HATEOAS-Links liefern können.
+ */
+@Injectable()
+export class OptionalJwtAuthGuard extends AuthGuard('jwt') {
+    readonly #logger = getLogger(OptionalJwtAuthGuard.name);
+
+    /**
+     * Die geerbte Methode wird überschrieben, damit das User-Objekt aus
+     * `JwtStrategy.validate()` im Request-Objekt gespeichert wird, falls es
+     * existiert. Ohne User-Objekt wird keine Exception geworfen.
+     * @param _err wird nicht benutzt
+     * @param user das User-Objekt, das durch `JwtStrategy.validate()`
+     *             aus der Payload ermittelt wurde, oder `false`.
+     * @param _info wird nicht benutzt
+     * @param context der Ausführungskontext, mit dem das Request-Objekt
+     * ermittelt wird
+     */
+    // eslint-disable-next-line max-params
+    override handleRequest(
+        _err: unknown,
+        user: any, // type-coverage:ignore-line
+        _info: unknown,
+        context: ExecutionContext,
+    ) {
+        this.#logger.debug('handleRequest: user=%o', user); // type-coverage:ignore-line
+        if (user === false) {
+            return;
+        }
+        const request: RequestWithUser = context.switchToHttp().getRequest();
+        request.user = user as BasicUser;
+        // type-coverage:ignore-next-line
+        return user; // eslint-disable-line @typescript-eslint/no-unsafe-return
+    }
+}
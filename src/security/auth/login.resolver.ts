@@ -16,8 +16,8 @@
  */
 import { Args, Mutation, Resolver } from '@nestjs/graphql';
 import { AuthService } from './service/auth.service.js';
-import { BadUserInputError } from '../../film/graphql/errors.js';
 import { ResponseTimeInterceptor } from '../../logger/response-time.interceptor.js';
+import { UnauthenticatedError } from '../../film/graphql/errors.js';
 import { UseInterceptors } from '@nestjs/common';
 import { getLogger } from '../../logger/logger.js';
 
@@ -47,7 +47,7 @@ export class LoginResolver {
         const { username, password } = input;
         const user = await this.#service.validate({ username, pass: password });
         if (user === undefined) {
-            throw new BadUserInputError(
+            throw new UnauthenticatedError(
                 'Falscher Benutzername oder falsches Passwort',
             );
         }
@@ -18,6 +18,7 @@ import {
     type CanActivate,
     type ExecutionContext,
     Injectable,
+    UnauthorizedException,
 } from '@nestjs/common';
 import { GqlExecutionContext } from '@nestjs/graphql';
 import { ROLES_KEY } from './roles-allowed.decorator.js';
@@ -50,6 +51,8 @@ export class RolesGraphQlGuard implements CanActivate {
      * des Decorators.
      * @return true, falls die Rollen beim Controller oder bei der dekorierten
      * Funktion durch den JWT gegeben sind.
+     * @throws UnauthorizedException falls es keinen gültigen JWT gibt, damit
+     * bei GraphQL `UNAUTHENTICATED` statt `FORBIDDEN` zurückgeliefert wird.
      */
     async canActivate(context: ExecutionContext) {
         // https://docs.nestjs.com/fundamentals/execution-context#reflection-and-metadata
@@ -66,8 +69,9 @@ export class RolesGraphQlGuard implements CanActivate {
         const request = this.#getRequest(context);
         const requestUser = request.user;
         this.#logger.debug('canActivate: requestUser=%o', requestUser);
-        if (requestUser === undefined) {
-            return false;
+        // ohne gueltigen JWT ist request.user bei Passport false statt undefined
+        if (typeof requestUser !== 'object') {
+            throw new UnauthorizedException();
         }
 
         const { userId } = requestUser;
@@ -75,7 +79,7 @@ export class RolesGraphQlGuard implements CanActivate {
         this.#logger.debug('canActivate: user=%o', user);
 
         if (user === undefined) {
-            return false;
+            throw new UnauthorizedException();
         }
         return requiredRoles.some((role) => user.roles.includes(role));
     }
@@ -0,0 +1,105 @@
+/*
+ * Copyright (C) 2024 - present Juergen Zimmermann, Hochschule Karlsruhe
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with this program.  If not, see <https://www.gnu.org/licenses/>.
+ */
+
+/**
+ * Das Modul besteht aus einem Plugin für _Apollo Server_ und einer Funktion
+ * für _graphql-ws_, die im strikten Modus nur die Operationen aus dem Manifest
+ * zulassen.
+ * @packageDocumentation
+ */
+
+import { type ApolloServerPlugin } from '@apollo/server';
+import { GraphQLError } from 'graphql';
+import { HttpStatus } from '@nestjs/common';
+import { type PersistedOperations } from './persisted-operations.js';
+import { type SubscribeMessage } from 'graphql-ws';
+import { createHash } from 'node:crypto';
+import { getLogger } from '../../logger/logger.js';
+
+/**
+ * Error-Klasse für GraphQL, die einen Response mit `errors` und
+ * code `OPERATION_NOT_ALLOWED` produziert.
+ */
+export class OperationNotAllowedError extends GraphQLError {
+    // eslint-disable-next-line unicorn/custom-error-definition
+    constructor() {
+        super('Die Operation ist nicht freigegeben', {
+            extensions: {
+                code: 'OPERATION_NOT_ALLOWED',
+                http: { status: HttpStatus.FORBIDDEN },
+            },
+        });
+    }
+}
+
+/**
+ * Ein Plugin für _Apollo Server_, das Ad-hoc-Operationen ablehnt, die nicht
+ * im Manifest enthalten sind.
+ * @param operations Die freigegebenen Operationen aus dem Manifest
+ */
+export const createAllowListPlugin = (
+    operations: PersistedOperations,
+): ApolloServerPlugin => {
+    const logger = getLogger('AllowListPlugin');
+
+    return {
+        // eslint-disable-next-line @typescript-eslint/require-await
+        requestDidStart: async () => ({
+            // Fehler in didResolveSource werden von Apollo Server nicht als
+            // GraphQLError behandelt, deshalb erst in didResolveOperation
+            // eslint-disable-next-line @typescript-eslint/require-await
+            didResolveOperation: async (requestContext) => {
+                const { queryHash, operationName, source } = requestContext;
+                if (operations.get(queryHash) !== undefined) {
+                    return;
+                }
+                logger.warn(
+                    'Ad-hoc-Operation abgelehnt: operationName=%s, hash=%s, source=%s',
+                    operationName,
+                    queryHash,
+                    source,
+                );
+                throw new OperationNotAllowedError();
+            },
+        }),
+    };
+};
+
+/**
+ * Eine Funktion für `onSubscribe` bei _graphql-ws_, die Subscriptions ablehnt,
+ * die nicht im Manifest enthalten sind. Subscriptions über WebSockets laufen
+ * nicht durch die Plugins von _Apollo Server_.
+ * @param operations Die freigegebenen Operationen aus dem Manifest
+ */
+export const createAllowListOnSubscribe = (operations: PersistedOperations) => {
+    const logger = getLogger('AllowListOnSubscribe');
+
+    return (_ctx: unknown, { payload }: SubscribeMessage) => {
+        const { query, operationName } = payload;
+        const hash = createHash('sha256').update(query).digest('hex');
+        if (operations.get(hash) !== undefined) {
+            return;
+        }
+        logger.warn(
+            'Ad-hoc-Subscription abgelehnt: operationName=%s, hash=%s, query=%s',
+            operationName,
+            hash,
+            query,
+        );
+        return [new OperationNotAllowedError()];
+    };
+};
@@ -0,0 +1,65 @@
+/*
+ * Copyright (C) 2024 - present Juergen Zimmermann, Hochschule Karlsruhe
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with this program.  If not, see <https://www.gnu.org/licenses/>.
+ */
+
+/**
+ * Das Modul besteht aus den Klassen für die Fehler beim Begrenzen von
+ * GraphQL-Queries.
+ * @packageDocumentation
+ */
+
+/* eslint-disable max-classes-per-file */
+import { GraphQLError } from 'graphql';
+import { HttpStatus } from '@nestjs/common';
+
+/**
+ * Error-Klasse für GraphQL, die einen Response mit `errors` und
+ * code `QUERY_TOO_DEEP` produziert.
+ */
+export class QueryTooDeepError extends GraphQLError {
+    // eslint-disable-next-line unicorn/custom-error-definition
+    constructor(depth: number, maxDepth: number) {
+        super(
+            `Die Query ist zu tief geschachtelt: ${depth} statt maximal ${maxDepth}`,
+            {
+                extensions: {
+                    code: 'QUERY_TOO_DEEP',
+                    http: { status: HttpStatus.BAD_REQUEST },
+                },
+            },
+        );
+    }
+}
+
+/**
+ * Error-Klasse für GraphQL, die einen Response mit `errors` und
+ * code `QUERY_TOO_COMPLEX` produziert.
+ */
+export class QueryTooComplexError extends GraphQLError {
+    // eslint-disable-next-line unicorn/custom-error-definition
+    constructor(cost: number, maxCost: number) {
+        super(
+            `Die Query ist zu aufwendig: Kosten ${cost} statt maximal ${maxCost}`,
+            {
+                extensions: {
+                    code: 'QUERY_TOO_COMPLEX',
+                    http: { status: HttpStatus.BAD_REQUEST },
+                },
+            },
+        );
+    }
+}
+/* eslint-enable max-classes-per-file */
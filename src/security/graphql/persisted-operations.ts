@@ -0,0 +1,177 @@
+/*
+ * Copyright (C) 2024 - present Juergen Zimmermann, Hochschule Karlsruhe
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with this program.  If not, see <https://www.gnu.org/licenses/>.
+ */
+
+/**
+ * Das Modul besteht aus der Klasse {@linkcode PersistedOperations} für das
+ * Manifest mit den freigegebenen GraphQL-Operationen und dem dazu passenden
+ * Cache für _Automatic Persisted Queries_ (APQ) von _Apollo Server_.
+ * @packageDocumentation
+ */
+
+import { readFileSync, watchFile } from 'node:fs';
+import { type PersistedQueryOptions } from '@apollo/server';
+import { createHash } from 'node:crypto';
+import { getLogger } from '../../logger/logger.js';
+
+/**
+ * Typdefinition für eine Operation im Manifest, wie es z.B. von
+ * `@apollo/generate-persisted-query-manifest` erzeugt wird.
+ */
+export interface PersistedOperation {
+    /** SHA-256 Hashwert von `body` in Hex-Darstellung */
+    readonly id: string;
+    readonly name: string;
+    readonly type: 'mutation' | 'query' | 'subscription';
+    readonly body: string;
+}
+
+/** Typdefinition für das Manifest mit den freigegebenen Operationen. */
+export interface PersistedOperationsManifest {
+    readonly format: 'apollo-persisted-query-manifest';
+    readonly version: 1;
+    readonly operations: readonly PersistedOperation[];
+}
+
+type KeyValueCache = NonNullable<PersistedQueryOptions['cache']>;
+
+// Praefix der Schluessel, mit denen Apollo Server den APQ-Cache verwendet
+const APQ_CACHE_PREFIX = 'apq:';
+
+// Intervall in Millisekunden, in dem das Manifest auf Aenderungen geprueft wird
+const WATCH_INTERVAL = 2000;
+
+const isOperation = (operation: unknown): operation is PersistedOperation => {
+    const { id, body } = (operation ?? {}) as Partial<PersistedOperation>;
+    return typeof id === 'string' && typeof body === 'string';
+};
+
+/**
+ * Die Klasse `PersistedOperations` liest das Manifest mit den freigegebenen
+ * Operationen ein und liest es bei einer Änderung der Datei neu ein, d.h. ohne
+ * Neustart des Servers.
+ */
+export class PersistedOperations {
+    readonly #manifestFile: string;
+
+    #operations: ReadonlyMap<string, PersistedOperation> = new Map();
+
+    readonly #logger = getLogger(PersistedOperations.name);
+
+    constructor(manifestFile: string) {
+        this.#manifestFile = manifestFile;
+        this.reload();
+    }
+
+    /**
+     * Das Manifest erneut einlesen. Ist die Datei fehlerhaft, bleiben die
+     * bisher eingelesenen Operationen gültig.
+     */
+    reload() {
+        let manifestOperations: readonly PersistedOperation[];
+        try {
+            manifestOperations = this.#readOperations();
+        } catch (err) {
+            this.#logger.error(
+                'reload: Manifest %s nicht lesbar: %s',
+                this.#manifestFile,
+                err,
+            );
+            return;
+        }
+
+        const operations = new Map<string, PersistedOperation>();
+        for (const operation of manifestOperations) {
+            const hash = createHash('sha256')
+                .update(operation.body)
+                .digest('hex');
+            // eslint-disable-next-line security/detect-possible-timing-attacks, security-node/detect-possible-timing-attacks
+            if (hash === operation.id) {
+                operations.set(hash, operation);
+            } else {
+                this.#logger.warn(
+                    'reload: Hashwert passt nicht zur Operation %s',
+                    operation.name,
+                );
+            }
+        }
+        this.#operations = operations;
+        this.#logger.info(
+            'reload: %d Operationen aus %s',
+            operations.size,
+            this.#manifestFile,
+        );
+    }
+
+    /** Das Manifest bei jeder Änderung der Datei erneut einlesen. */
+    watch() {
+        this.#logger.debug('watch: %s', this.#manifestFile);
+        // eslint-disable-next-line security/detect-non-literal-fs-filename
+        watchFile(
+            this.#manifestFile,
+            { persistent: false, interval: WATCH_INTERVAL },
+            (curr, prev) => {
+                if (curr.mtimeMs !== prev.mtimeMs) {
+                    this.reload();
+                }
+            },
+        );
+        return this;
+    }
+
+    /**
+     * Eine Operation zu einem Hashwert suchen.
+     * @param hash SHA-256 Hashwert des Query-Strings
+     * @return Die Operation oder `undefined`, falls sie nicht freigegeben ist
+     */
+    get(hash: string) {
+        return this.#operations.get(hash);
+    }
+
+    /**
+     * Ein Cache für APQ, der nur die Operationen aus dem Manifest kennt. Neue
+     * Queries von Clients werden deshalb nicht registriert.
+     */
+    asCache(): KeyValueCache {
+        return {
+            // eslint-disable-next-line @typescript-eslint/require-await
+            get: async (key) =>
+                this.get(key.replace(APQ_CACHE_PREFIX, ''))?.body,
+            // eslint-disable-next-line @typescript-eslint/require-await
+            set: async (key) => {
+                this.#logger.debug('set: %s wird nicht registriert', key);
+            },
+            // eslint-disable-next-line @typescript-eslint/require-await
+            delete: async () => false,
+        };
+    }
+
+    // Auch eine unvollstaendig geschriebene Datei kann gueltiges JSON sein,
+    // deshalb wird zusaetzlich die Struktur geprueft
+    #readOperations() {
+        const manifest = JSON.parse(
+            readFileSync(this.#manifestFile, 'utf8'), // eslint-disable-line security/detect-non-literal-fs-filename,n/no-sync
+        ) as Partial<PersistedOperationsManifest> | null;
+        const operations: unknown = manifest?.operations;
+        if (
+            !Array.isArray(operations) ||
+            !operations.every((operation) => isOperation(operation))
+        ) {
+            throw new TypeError('Das Manifest hat keine gueltigen Operationen');
+        }
+        return operations as readonly PersistedOperation[];
+    }
+}
@@ -0,0 +1,281 @@
+/*
+ * Copyright (C) 2024 - present Juergen Zimmermann, Hochschule Karlsruhe
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with this program.  If not, see <https://www.gnu.org/licenses/>.
+ */
+
+/**
+ * Das Modul besteht aus einem Plugin für _Apollo Server_, das die
+ * Schachtelungstiefe und die Kosten einer GraphQL-Query begrenzt, damit eine
+ * einzelne tief geschachtelte Query nicht den Server auslastet.
+ * @packageDocumentation
+ */
+
+import {
+    type ApolloServerPlugin,
+    type BaseContext,
+    type GraphQLRequestContextDidResolveOperation,
+} from '@apollo/server';
+import {
+    type FieldNode,
+    type FragmentDefinitionNode,
+    type GraphQLField,
+    type GraphQLNamedType,
+    type GraphQLSchema,
+    Kind,
+    type OperationDefinitionNode,
+    type SelectionSetNode,
+    getArgumentValues,
+    getNamedType,
+    getNullableType,
+    isInterfaceType,
+    isListType,
+    isObjectType,
+} from 'graphql';
+import { QueryTooComplexError, QueryTooDeepError } from './errors.js';
+import { MAX_PAGE_SIZE } from '../../film/service/pageable.js';
+import { getLogger } from '../../logger/logger.js';
+
+/** Typdefinition für die Grenzwerte einer GraphQL-Query. */
+export interface QueryLimits {
+    /** Maximale Schachtelungstiefe der Felder */
+    readonly maxDepth: number;
+    /** Maximale Gesamtkosten */
+    readonly maxCost: number;
+    /** Kosten je Feld, z.B. `Film.schauspielers`; sonst `defaultCost` */
+    readonly fieldCosts: ReadonlyMap<string, number>;
+    /** Kosten für Felder ohne Eintrag in `fieldCosts`, z.B. Skalare */
+    readonly defaultCost: number;
+    /** Angenommene Anzahl der Elemente einer Liste ohne Argument zur Größe */
+    readonly listSize: number;
+}
+
+/** Typdefinition für die ermittelte Tiefe und die Kosten einer Query. */
+export interface QueryMetrics {
+    readonly depth: number;
+    readonly cost: number;
+}
+
+/** Argumente, mit denen die Anzahl der Elemente einer Liste begrenzt wird. */
+const LIST_SIZE_ARGS = ['first', 'last', 'size', 'limit'] as const;
+
+// Tiefe und Kosten fuer die Operation eines Requests ermitteln
+class QueryMetricsCalculator {
+    readonly #limits: QueryLimits;
+
+    readonly #schema: GraphQLSchema;
+
+    readonly #fragments: ReadonlyMap<string, FragmentDefinitionNode>;
+
+    readonly #variables: Readonly<Record<string, unknown>>;
+
+    constructor(
+        limits: QueryLimits,
+        {
+            document,
+            request,
+            schema,
+        }: GraphQLRequestContextDidResolveOperation<BaseContext>,
+    ) {
+        this.#limits = limits;
+        this.#schema = schema;
+        this.#fragments = new Map(
+            document.definitions
+                .filter(
+                    (definition): definition is FragmentDefinitionNode =>
+                        definition.kind === Kind.FRAGMENT_DEFINITION,
+                )
+                .map((fragment) => [fragment.name.value, fragment]),
+        );
+        this.#variables = request.variables ?? {};
+    }
+
+    calculate(operation: OperationDefinitionNode): QueryMetrics {
+        const rootType = this.#schema.getRootType(operation.operation);
+        return rootType === undefined || rootType === null
+            ? { depth: 0, cost: 0 }
+            : this.#selectionSet(operation.selectionSet, rootType, false);
+    }
+
+    // Fragmente erhoehen die Tiefe nicht
+    #selectionSet(
+        selectionSet: SelectionSetNode,
+        parentType: GraphQLNamedType,
+        begrenzt: boolean,
+    ): QueryMetrics {
+        let depth = 0;
+        let cost = 0;
+        for (const selection of selectionSet.selections) {
+            let result: QueryMetrics = { depth: 0, cost: 0 };
+            if (selection.kind === Kind.FIELD) {
+                result = this.#field(selection, parentType, begrenzt);
+            } else {
+                const fragment =
+                    selection.kind === Kind.FRAGMENT_SPREAD
+                        ? this.#fragments.get(selection.name.value)
+                        : selection;
+                if (fragment !== undefined) {
+                    const typeName = fragment.typeCondition?.name.value;
+                    const type =
+                        typeName === undefined
+                            ? parentType
+                            : this.#schema.getType(typeName) ?? parentType;
+                    result = this.#selectionSet(
+                        fragment.selectionSet,
+                        type,
+                        begrenzt,
+                    );
+                }
+            }
+            depth = Math.max(depth, result.depth);
+            cost += result.cost;
+        }
+        return { depth, cost };
+    }
+
+    // Felder fuer Introspection wie __typename sind kostenlos
+    #field(
+        node: FieldNode,
+        parentType: GraphQLNamedType,
+        begrenzt: boolean,
+    ): QueryMetrics {
+        const name = node.name.value;
+        if (
+            name.startsWith('__') ||
+            !(isInterfaceType(parentType) || isObjectType(parentType))
+        ) {
+            return { depth: 0, cost: 0 };
+        }
+        const field = parentType.getFields()[name]; // eslint-disable-line security/detect-object-injection
+        if (field === undefined) {
+            return { depth: 0, cost: 0 };
+        }
+        const { fieldCosts, defaultCost } = this.#limits;
+        const weight =
+            fieldCosts.get(`${parentType.name}.${name}`) ?? defaultCost;
+        if (node.selectionSet === undefined) {
+            return { depth: 1, cost: weight };
+        }
+        const { faktor, begrenzt: kinderBegrenzt } = this.#multiplikator(
+            field,
+            node,
+            begrenzt,
+        );
+        const kinder = this.#selectionSet(
+            node.selectionSet,
+            getNamedType(field.type),
+            kinderBegrenzt,
+        );
+        return {
+            depth: kinder.depth + 1,
+            cost: weight + faktor * kinder.cost,
+        };
+    }
+
+    // Multiplikator fuer die Kosten der Unterfelder: das Argument zur Groesse,
+    // sonst bei einer Liste die angenommene Groesse, ausser die Liste ist z.B.
+    // als "edges" bereits durch das uebergeordnete Feld begrenzt. Eine Groesse
+    // <= 0 wird wie ein fehlendes Argument behandelt und hoechstens
+    // MAX_PAGE_SIZE Elemente werden geliefert, damit z.B. ein negativer Wert
+    // die Kosten anderer Felder nicht ausgleicht
+    #multiplikator(
+        field: GraphQLField<unknown, unknown>,
+        node: FieldNode,
+        begrenzt: boolean,
+    ) {
+        const args = getArgumentValues(field, node, this.#variables);
+        // eslint-disable-next-line security/detect-object-injection
+        const size = LIST_SIZE_ARGS.map((name) => args[name]).find(
+            (value) => typeof value === 'number',
+        ) as number | undefined;
+        const liste = isListType(getNullableType(field.type));
+        if (size !== undefined) {
+            // bei einer Connection ist die Liste "edges" begrenzt
+            const faktor =
+                size > 0
+                    ? Math.min(size, MAX_PAGE_SIZE)
+                    : this.#limits.listSize;
+            return { faktor, begrenzt: !liste };
+        }
+        return {
+            faktor: liste && !begrenzt ? this.#limits.listSize : 1,
+            begrenzt: false,
+        };
+    }
+}
+
+/**
+ * Ein Plugin für _Apollo Server_ erstellen, das nach dem Parsen und Validieren
+ * die Tiefe und die Kosten einer Query ermittelt und sie bei Überschreitung
+ * der Grenzwerte mit dem Status 400 ablehnt. Die ermittelten Werte und die
+ * Grenzwerte werden bei `extensions` als `queryLimits` im Response geliefert.
+ * Subscriptions über WebSockets werden nicht durch Apollo Server verarbeitet.
+ * @param limits Die Grenzwerte aus der Konfiguration
+ * @returns Das Plugin
+ */
+export const createQueryLimitsPlugin = (
+    limits: QueryLimits,
+): ApolloServerPlugin => {
+    const logger = getLogger('QueryLimitsPlugin');
+    const { maxDepth, maxCost } = limits;
+
+    return {
+        // eslint-disable-next-line @typescript-eslint/require-await
+        requestDidStart: async () => {
+            let queryMetrics: QueryMetrics | undefined;
+            return {
+                // eslint-disable-next-line @typescript-eslint/require-await
+                didResolveOperation: async (requestContext) => {
+                    const { operation } = requestContext;
+                    if (operation === undefined) {
+                        return;
+                    }
+                    queryMetrics = new QueryMetricsCalculator(
+                        limits,
+                        requestContext,
+                    ).calculate(operation);
+                    logger.debug('didResolveOperation: %o', queryMetrics);
+
+                    if (queryMetrics.depth > maxDepth) {
+                        throw new QueryTooDeepError(
+                            queryMetrics.depth,
+                            maxDepth,
+                        );
+                    }
+                    if (queryMetrics.cost > maxCost) {
+                        throw new QueryTooComplexError(
+                            queryMetrics.cost,
+                            maxCost,
+                        );
+                    }
+                },
+
+                // eslint-disable-next-line @typescript-eslint/require-await
+                willSendResponse: async ({ response }) => {
+                    if (
+                        queryMetrics === undefined ||
+                        response.body.kind !== 'single'
+                    ) {
+                        return;
+                    }
+                    const { singleResult } = response.body;
+                    singleResult.extensions = {
+                        ...singleResult.extensions,
+                        queryLimits: { ...queryMetrics, maxDepth, maxCost },
+                    };
+                },
+            };
+        },
+    };
+};
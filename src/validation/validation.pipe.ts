@@ -0,0 +1,83 @@
+/*
+ * Copyright (C) 2024 - present Juergen Zimmermann, Hochschule Karlsruhe
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with this program.  If not, see <https://www.gnu.org/licenses/>.
+ */
+
+/**
+ * Das Modul besteht aus der Klasse {@linkcode ValidationPipe}, die bei
+ * ungültigen Daten die Fehler je Feld in einer
+ * {@linkcode ValidationFailedException} bereitstellt.
+ * @packageDocumentation
+ */
+
+/* eslint-disable max-classes-per-file */
+import {
+    HttpException,
+    ValidationPipe as NestValidationPipe,
+} from '@nestjs/common';
+import { type ValidationError } from 'class-validator';
+
+/** Typdefinition für die verletzten Constraints eines Feldes. */
+export interface FieldError {
+    /** Pfad des Feldes, z.B. `titel.titel` */
+    readonly field: string;
+    /** Fehlermeldungen je Constraint, z.B. `{ min: '...' }` */
+    readonly constraints: Readonly<Record<string, string>>;
+}
+
+// verschachtelte Fehler von class-validator mit dem Pfad des Feldes auflisten
+const toFieldErrors = (
+    validationErrors: readonly ValidationError[],
+    parentPath?: string,
+): FieldError[] =>
+    validationErrors.flatMap(({ property, constraints, children }) => {
+        const field =
+            parentPath === undefined ? property : `${parentPath}.${property}`;
+        const fieldErrors = toFieldErrors(children ?? [], field);
+        return constraints === undefined
+            ? fieldErrors
+            : [{ field, constraints }, ...fieldErrors];
+    });
+
+/**
+ * Exception-Klasse für ungültige Daten mit den Fehlern je Feld. Der Response
+ * ist derselbe wie beim `ValidationPipe` von Nest.
+ */
+export class ValidationFailedException extends HttpException {
+    readonly fieldErrors: readonly FieldError[];
+
+    constructor(exception: HttpException, validationErrors: ValidationError[]) {
+        super(exception.getResponse(), exception.getStatus(), {
+            cause: exception,
+        });
+        this.fieldErrors = toFieldErrors(validationErrors);
+    }
+}
+
+/**
+ * `ValidationPipe` von Nest, wobei die Fehler von class-validator je Feld
+ * erhalten bleiben, z.B. für `extensions` bei GraphQL.
+ */
+export class ValidationPipe extends NestValidationPipe {
+    override createExceptionFactory() {
+        const exceptionFactory = super.createExceptionFactory();
+        return (validationErrors: ValidationError[] = []) =>
+            new ValidationFailedException(
+                exceptionFactory(validationErrors) as HttpException,
+                validationErrors,
+            );
+    }
+}
+/* eslint-enable max-classes-per-file */